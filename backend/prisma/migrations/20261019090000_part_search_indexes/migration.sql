@@ -0,0 +1,23 @@
+-- CreateExtension
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- AlterTable
+ALTER TABLE "Part" ADD COLUMN     "partNumberKey" TEXT GENERATED ALWAYS AS (
+    regexp_replace(upper(coalesce("partNumber", '')), '[^A-Z0-9]', '', 'g')
+) STORED,
+ADD COLUMN     "searchVector" tsvector GENERATED ALWAYS AS (
+    setweight(to_tsvector('simple', coalesce("partNumber", '')), 'A') ||
+    setweight(to_tsvector('simple', regexp_replace(upper(coalesce("partNumber", '')), '[^A-Z0-9]', '', 'g')), 'A') ||
+    setweight(to_tsvector('english', coalesce("name", '')), 'A') ||
+    setweight(to_tsvector('english', coalesce("brand", '')), 'B') ||
+    setweight(to_tsvector('english', coalesce("description", '')), 'C')
+) STORED;
+
+-- CreateIndex
+CREATE INDEX "Part_searchVector_idx" ON "Part" USING GIN ("searchVector");
+
+-- CreateIndex
+CREATE INDEX "Part_partNumberKey_idx" ON "Part" USING GIN ("partNumberKey" gin_trgm_ops);
+
+-- CreateIndex
+CREATE INDEX "Part_name_trgm_idx" ON "Part" USING GIN ("name" gin_trgm_ops);
@@ -0,0 +1,69 @@
+-- CreateTable
+CREATE TABLE "PartFitment" (
+    "id" TEXT NOT NULL,
+    "partId" TEXT NOT NULL,
+    "make" TEXT NOT NULL,
+    "model" TEXT NOT NULL,
+    "yearFrom" INTEGER,
+    "yearTo" INTEGER,
+    "engine" TEXT,
+    "trim" TEXT,
+    "transmission" TEXT,
+    "notes" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PartFitment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "PartFitment_partId_idx" ON "PartFitment"("partId");
+
+-- CreateIndex
+CREATE INDEX "PartFitment_make_model_yearFrom_yearTo_idx" ON "PartFitment"("make", "model", "yearFrom", "yearTo");
+
+-- AddForeignKey
+ALTER TABLE "PartFitment" ADD CONSTRAINT "PartFitment_partId_fkey" FOREIGN KEY ("partId") REFERENCES "Part"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Migrate existing compatibleVehicles entries.
+-- Entries are either { make, model, year } objects or carry a "makeModelYear" key such as "Toyota|Camry|2018".
+WITH entries AS (
+    SELECT
+        p."id" AS "partId",
+        e.value AS entry,
+        string_to_array(coalesce(e.value->>'makeModelYear', e.value->>'makeModel', ''), '|') AS legacy
+    FROM "Part" p
+    CROSS JOIN LATERAL jsonb_array_elements(p."compatibleVehicles") AS e(value)
+    WHERE jsonb_typeof(p."compatibleVehicles") = 'array'
+      AND jsonb_typeof(e.value) = 'object'
+),
+parsed AS (
+    SELECT
+        "partId",
+        nullif(trim(coalesce(entry->>'make', legacy[1])), '') AS make,
+        nullif(trim(coalesce(entry->>'model', legacy[2])), '') AS model,
+        trim(coalesce(entry->>'yearFrom', entry->>'year', legacy[3], '')) AS "yearFrom",
+        trim(coalesce(entry->>'yearTo', entry->>'year', legacy[3], '')) AS "yearTo",
+        nullif(trim(coalesce(entry->>'engine', entry->>'engineType', '')), '') AS engine,
+        nullif(trim(coalesce(entry->>'trim', '')), '') AS "trim",
+        nullif(trim(coalesce(entry->>'transmission', entry->>'transmissionType', '')), '') AS transmission
+    FROM entries
+)
+INSERT INTO "PartFitment" ("id", "partId", "make", "model", "yearFrom", "yearTo", "engine", "trim", "transmission", "updatedAt")
+SELECT
+    gen_random_uuid()::text,
+    "partId",
+    make,
+    model,
+    CASE WHEN "yearFrom" ~ '^[0-9]{4}$' THEN "yearFrom"::integer END,
+    CASE WHEN "yearTo" ~ '^[0-9]{4}$' THEN "yearTo"::integer END,
+    engine,
+    "trim",
+    transmission,
+    CURRENT_TIMESTAMP
+FROM parsed
+WHERE make IS NOT NULL
+  AND model IS NOT NULL;
+
+-- AlterTable
+ALTER TABLE "Part" DROP COLUMN "compatibleVehicles";
@@ -0,0 +1,32 @@
+-- CreateEnum
+CREATE TYPE "InterchangeType" AS ENUM ('EXACT_OEM', 'EQUIVALENT', 'SUPERSEDED_BY');
+
+-- CreateTable
+CREATE TABLE "PartInterchange" (
+    "id" TEXT NOT NULL,
+    "partNumber" TEXT NOT NULL,
+    "partNumberKey" TEXT NOT NULL,
+    "brand" TEXT,
+    "interchangeNumber" TEXT NOT NULL,
+    "interchangeNumberKey" TEXT NOT NULL,
+    "interchangeBrand" TEXT,
+    "type" "InterchangeType" NOT NULL,
+    "notes" TEXT,
+    "isVerified" BOOLEAN NOT NULL DEFAULT false,
+    "createdById" TEXT NOT NULL,
+    "verifiedById" TEXT,
+    "verifiedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PartInterchange_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "PartInterchange_interchangeNumberKey_idx" ON "PartInterchange"("interchangeNumberKey");
+
+-- CreateIndex
+CREATE INDEX "PartInterchange_isVerified_idx" ON "PartInterchange"("isVerified");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PartInterchange_partNumberKey_interchangeNumberKey_key" ON "PartInterchange"("partNumberKey", "interchangeNumberKey");
@@ -0,0 +1,58 @@
+-- CreateEnum
+CREATE TYPE "ScanSessionMode" AS ENUM ('RECEIVE', 'COUNT', 'PICK');
+
+-- CreateEnum
+CREATE TYPE "ScanSessionStatus" AS ENUM ('OPEN', 'COMMITTED', 'CANCELLED');
+
+-- CreateTable
+CREATE TABLE "InventoryScanSession" (
+    "id" TEXT NOT NULL,
+    "vendorId" TEXT NOT NULL,
+    "mode" "ScanSessionMode" NOT NULL,
+    "status" "ScanSessionStatus" NOT NULL DEFAULT 'OPEN',
+    "orderId" TEXT,
+    "notes" TEXT,
+    "createdById" TEXT NOT NULL,
+    "summary" JSONB,
+    "committedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "InventoryScanSession_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "InventoryScan" (
+    "id" TEXT NOT NULL,
+    "sessionId" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "partId" TEXT,
+    "quantity" INTEGER NOT NULL DEFAULT 1,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "InventoryScan_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "InventoryScanSession_vendorId_status_idx" ON "InventoryScanSession"("vendorId", "status");
+
+-- CreateIndex
+CREATE INDEX "InventoryScanSession_orderId_idx" ON "InventoryScanSession"("orderId");
+
+-- CreateIndex
+CREATE INDEX "InventoryScan_sessionId_idx" ON "InventoryScan"("sessionId");
+
+-- CreateIndex
+CREATE INDEX "InventoryScan_partId_idx" ON "InventoryScan"("partId");
+
+-- AddForeignKey
+ALTER TABLE "InventoryScanSession" ADD CONSTRAINT "InventoryScanSession_vendorId_fkey" FOREIGN KEY ("vendorId") REFERENCES "Vendor"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "InventoryScanSession" ADD CONSTRAINT "InventoryScanSession_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "Order"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "InventoryScan" ADD CONSTRAINT "InventoryScan_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "InventoryScanSession"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "InventoryScan" ADD CONSTRAINT "InventoryScan_partId_fkey" FOREIGN KEY ("partId") REFERENCES "Part"("id") ON DELETE SET NULL ON UPDATE CASCADE;
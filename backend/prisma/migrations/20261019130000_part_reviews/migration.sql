@@ -0,0 +1,50 @@
+-- AlterTable
+ALTER TABLE "Part" ADD COLUMN     "averageRating" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "totalReviews" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "PartReview" (
+    "id" TEXT NOT NULL,
+    "partId" TEXT NOT NULL,
+    "customerId" TEXT NOT NULL,
+    "orderItemId" TEXT,
+    "rating" INTEGER NOT NULL,
+    "title" TEXT,
+    "comment" TEXT,
+    "images" TEXT[],
+    "isVerifiedPurchase" BOOLEAN NOT NULL DEFAULT false,
+    "vendorReply" TEXT,
+    "vendorRepliedAt" TIMESTAMP(3),
+    "isHidden" BOOLEAN NOT NULL DEFAULT false,
+    "hiddenReason" TEXT,
+    "moderatedById" TEXT,
+    "moderatedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PartReview_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "PartReview_partId_isHidden_idx" ON "PartReview"("partId", "isHidden");
+
+-- CreateIndex
+CREATE INDEX "PartReview_customerId_idx" ON "PartReview"("customerId");
+
+-- CreateIndex
+CREATE INDEX "PartReview_orderItemId_idx" ON "PartReview"("orderItemId");
+
+-- CreateIndex
+CREATE INDEX "PartReview_rating_idx" ON "PartReview"("rating");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PartReview_partId_customerId_key" ON "PartReview"("partId", "customerId");
+
+-- AddForeignKey
+ALTER TABLE "PartReview" ADD CONSTRAINT "PartReview_partId_fkey" FOREIGN KEY ("partId") REFERENCES "Part"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PartReview" ADD CONSTRAINT "PartReview_customerId_fkey" FOREIGN KEY ("customerId") REFERENCES "Customer"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PartReview" ADD CONSTRAINT "PartReview_orderItemId_fkey" FOREIGN KEY ("orderItemId") REFERENCES "OrderItem"("id") ON DELETE SET NULL ON UPDATE CASCADE;
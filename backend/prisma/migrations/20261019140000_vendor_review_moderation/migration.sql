@@ -0,0 +1,27 @@
+-- AlterTable
+ALTER TABLE "Review" ADD COLUMN     "orderId" TEXT,
+ADD COLUMN     "hiddenReason" TEXT,
+ADD COLUMN     "moderatedById" TEXT,
+ADD COLUMN     "moderatedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Review_orderId_key" ON "Review"("orderId");
+
+-- CreateIndex
+CREATE INDEX "Review_moderatedAt_idx" ON "Review"("moderatedAt");
+
+-- AddForeignKey
+ALTER TABLE "Review" ADD CONSTRAINT "Review_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "Order"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Bring existing vendor aggregates in line with their visible reviews
+UPDATE "Vendor" v
+SET "rating" = COALESCE((
+        SELECT ROUND(AVG(r."rating")::numeric, 1)::double precision
+        FROM "Review" r
+        WHERE r."vendorId" = v."id" AND r."isHidden" = false
+    ), 0),
+    "totalRatings" = (
+        SELECT COUNT(*)::integer
+        FROM "Review" r
+        WHERE r."vendorId" = v."id" AND r."isHidden" = false
+    );
@@ -0,0 +1,26 @@
+-- CreateEnum
+CREATE TYPE "PriceChangeSource" AS ENUM ('CREATED', 'UPDATED', 'DISCOUNT_APPLIED', 'DISCOUNT_REMOVED', 'CSV_IMPORT');
+
+-- CreateTable
+CREATE TABLE "PartPriceHistory" (
+    "id" TEXT NOT NULL,
+    "partId" TEXT NOT NULL,
+    "price" DOUBLE PRECISION NOT NULL,
+    "discountedPrice" DOUBLE PRECISION,
+    "effectivePrice" DOUBLE PRECISION NOT NULL,
+    "source" "PriceChangeSource" NOT NULL,
+    "changedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PartPriceHistory_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "PartPriceHistory_partId_changedAt_idx" ON "PartPriceHistory"("partId", "changedAt");
+
+-- AddForeignKey
+ALTER TABLE "PartPriceHistory" ADD CONSTRAINT "PartPriceHistory_partId_fkey" FOREIGN KEY ("partId") REFERENCES "Part"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Seed every existing part with its current price as the starting point
+INSERT INTO "PartPriceHistory" ("id", "partId", "price", "discountedPrice", "effectivePrice", "source", "changedAt")
+SELECT gen_random_uuid()::text, "id", "price", "discountedPrice", COALESCE("discountedPrice", "price"), 'CREATED', "createdAt"
+FROM "Part";
@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "StockAlertSubscription" (
+    "id" TEXT NOT NULL,
+    "customerId" TEXT NOT NULL,
+    "partId" TEXT NOT NULL,
+    "lastNotifiedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "StockAlertSubscription_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "StockAlertSubscription_partId_idx" ON "StockAlertSubscription"("partId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "StockAlertSubscription_customerId_partId_key" ON "StockAlertSubscription"("customerId", "partId");
+
+-- AddForeignKey
+ALTER TABLE "StockAlertSubscription" ADD CONSTRAINT "StockAlertSubscription_customerId_fkey" FOREIGN KEY ("customerId") REFERENCES "Customer"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "StockAlertSubscription" ADD CONSTRAINT "StockAlertSubscription_partId_fkey" FOREIGN KEY ("partId") REFERENCES "Part"("id") ON DELETE CASCADE ON UPDATE CASCADE;
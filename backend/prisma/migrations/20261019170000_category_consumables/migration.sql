@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "Category" ADD COLUMN     "isConsumable" BOOLEAN NOT NULL DEFAULT false;
+
+-- Flag the standard wear-and-tear categories
+UPDATE "Category"
+SET "isConsumable" = true
+WHERE "name" IN ('Filters & Fluids', 'Brake Pads & Shoes', 'Ceramic Brake Pads', 'Metallic Brake Pads');
@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "PartCoPurchase" (
+    "id" TEXT NOT NULL,
+    "partId" TEXT NOT NULL,
+    "relatedPartId" TEXT NOT NULL,
+    "coPurchaseCount" INTEGER NOT NULL,
+    "score" DOUBLE PRECISION NOT NULL,
+    "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PartCoPurchase_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "PartCoPurchase_partId_score_idx" ON "PartCoPurchase"("partId", "score");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PartCoPurchase_partId_relatedPartId_key" ON "PartCoPurchase"("partId", "relatedPartId");
+
+-- AddForeignKey
+ALTER TABLE "PartCoPurchase" ADD CONSTRAINT "PartCoPurchase_partId_fkey" FOREIGN KEY ("partId") REFERENCES "Part"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PartCoPurchase" ADD CONSTRAINT "PartCoPurchase_relatedPartId_fkey" FOREIGN KEY ("relatedPartId") REFERENCES "Part"("id") ON DELETE CASCADE ON UPDATE CASCADE;
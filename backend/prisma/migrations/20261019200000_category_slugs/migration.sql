@@ -0,0 +1,24 @@
+-- AlterTable
+ALTER TABLE "Category" ADD COLUMN "slug" TEXT;
+
+-- Backfill slugs from names, numbering any that come out the same
+WITH base AS (
+    SELECT "id",
+           coalesce(nullif(trim(BOTH '-' FROM regexp_replace(lower("name"), '[^a-z0-9]+', '-', 'g')), ''), 'category') AS "slug",
+           "createdAt"
+    FROM "Category"
+),
+numbered AS (
+    SELECT "id", "slug",
+           row_number() OVER (PARTITION BY "slug" ORDER BY "createdAt", "id") AS "position"
+    FROM base
+)
+UPDATE "Category" c
+SET "slug" = CASE WHEN n."position" = 1 THEN n."slug" ELSE n."slug" || '-' || n."position" END
+FROM numbered n
+WHERE n."id" = c."id";
+
+ALTER TABLE "Category" ALTER COLUMN "slug" SET NOT NULL;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Category_slug_key" ON "Category"("slug");
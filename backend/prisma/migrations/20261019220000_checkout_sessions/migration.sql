@@ -0,0 +1,45 @@
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN "checkoutSessionId" TEXT;
+
+-- AlterTable
+ALTER TABLE "Transaction" ADD COLUMN "checkoutSessionId" TEXT;
+
+-- CreateTable
+CREATE TABLE "CheckoutSession" (
+    "id" TEXT NOT NULL,
+    "reference" TEXT NOT NULL,
+    "customerId" TEXT NOT NULL,
+    "subtotal" DOUBLE PRECISION NOT NULL,
+    "deliveryFee" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "tax" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "discount" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "total" DOUBLE PRECISION NOT NULL,
+    "paymentMethod" "PaymentType" NOT NULL,
+    "paymentStatus" "PaymentStatus" NOT NULL DEFAULT 'PENDING',
+    "paymentReference" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "CheckoutSession_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CheckoutSession_reference_key" ON "CheckoutSession"("reference");
+
+-- CreateIndex
+CREATE INDEX "CheckoutSession_customerId_idx" ON "CheckoutSession"("customerId");
+
+-- CreateIndex
+CREATE INDEX "Order_checkoutSessionId_idx" ON "Order"("checkoutSessionId");
+
+-- CreateIndex
+CREATE INDEX "Transaction_checkoutSessionId_idx" ON "Transaction"("checkoutSessionId");
+
+-- AddForeignKey
+ALTER TABLE "Order" ADD CONSTRAINT "Order_checkoutSessionId_fkey" FOREIGN KEY ("checkoutSessionId") REFERENCES "CheckoutSession"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CheckoutSession" ADD CONSTRAINT "CheckoutSession_customerId_fkey" FOREIGN KEY ("customerId") REFERENCES "Customer"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Transaction" ADD CONSTRAINT "Transaction_checkoutSessionId_fkey" FOREIGN KEY ("checkoutSessionId") REFERENCES "CheckoutSession"("id") ON DELETE SET NULL ON UPDATE CASCADE;
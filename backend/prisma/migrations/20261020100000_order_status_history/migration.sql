@@ -0,0 +1,26 @@
+-- CreateTable
+CREATE TABLE "OrderStatusHistory" (
+    "id" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "fromStatus" "OrderStatus",
+    "toStatus" "OrderStatus" NOT NULL,
+    "changedById" TEXT,
+    "note" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "OrderStatusHistory_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "OrderStatusHistory_orderId_createdAt_idx" ON "OrderStatusHistory"("orderId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "OrderStatusHistory" ADD CONSTRAINT "OrderStatusHistory_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "Order"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill existing orders: received when created, then their current status
+INSERT INTO "OrderStatusHistory" ("id", "orderId", "fromStatus", "toStatus", "createdAt")
+SELECT gen_random_uuid()::text, "id", NULL, 'RECEIVED', "createdAt" FROM "Order";
+
+INSERT INTO "OrderStatusHistory" ("id", "orderId", "fromStatus", "toStatus", "createdAt")
+SELECT gen_random_uuid()::text, "id", NULL, "orderStatus", "updatedAt" FROM "Order"
+WHERE "orderStatus" <> 'RECEIVED';
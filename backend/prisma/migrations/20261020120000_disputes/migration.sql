@@ -0,0 +1,113 @@
+-- CreateEnum
+CREATE TYPE "DisputeReason" AS ENUM ('WRONG_PART', 'COUNTERFEIT', 'DAMAGED', 'NOT_AS_DESCRIBED', 'MISSING_ITEMS', 'OTHER');
+
+-- CreateEnum
+CREATE TYPE "DisputeStatus" AS ENUM ('AWAITING_VENDOR', 'UNDER_REVIEW', 'RESOLVED', 'WITHDRAWN');
+
+-- CreateEnum
+CREATE TYPE "DisputeResolution" AS ENUM ('FULL_REFUND', 'PARTIAL_REFUND', 'REJECTED', 'REPLACEMENT');
+
+-- CreateTable
+CREATE TABLE "Dispute" (
+    "id" TEXT NOT NULL,
+    "caseNumber" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "orderItemId" TEXT,
+    "customerId" TEXT NOT NULL,
+    "vendorId" TEXT NOT NULL,
+    "reason" "DisputeReason" NOT NULL,
+    "description" TEXT NOT NULL,
+    "status" "DisputeStatus" NOT NULL DEFAULT 'AWAITING_VENDOR',
+    "previousOrderStatus" "OrderStatus" NOT NULL,
+    "vendorResponseDueAt" TIMESTAMP(3) NOT NULL,
+    "vendorRespondedAt" TIMESTAMP(3),
+    "vendorMissedDeadline" BOOLEAN NOT NULL DEFAULT false,
+    "resolution" "DisputeResolution",
+    "refundAmount" DOUBLE PRECISION,
+    "vendorAdjustment" DOUBLE PRECISION,
+    "rulingNote" TEXT,
+    "ruledById" TEXT,
+    "ruledAt" TIMESTAMP(3),
+    "refundId" TEXT,
+    "replacementOrderId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Dispute_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "DisputeEvidence" (
+    "id" TEXT NOT NULL,
+    "disputeId" TEXT NOT NULL,
+    "uploadedById" TEXT NOT NULL,
+    "fileUrl" TEXT NOT NULL,
+    "description" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "DisputeEvidence_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "DisputeMessage" (
+    "id" TEXT NOT NULL,
+    "disputeId" TEXT NOT NULL,
+    "senderId" TEXT NOT NULL,
+    "senderRole" "UserRole" NOT NULL,
+    "content" TEXT NOT NULL,
+    "attachments" TEXT[],
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "DisputeMessage_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Dispute_caseNumber_key" ON "Dispute"("caseNumber");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Dispute_refundId_key" ON "Dispute"("refundId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Dispute_replacementOrderId_key" ON "Dispute"("replacementOrderId");
+
+-- CreateIndex
+CREATE INDEX "Dispute_orderId_idx" ON "Dispute"("orderId");
+
+-- CreateIndex
+CREATE INDEX "Dispute_customerId_idx" ON "Dispute"("customerId");
+
+-- CreateIndex
+CREATE INDEX "Dispute_vendorId_idx" ON "Dispute"("vendorId");
+
+-- CreateIndex
+CREATE INDEX "Dispute_status_vendorResponseDueAt_idx" ON "Dispute"("status", "vendorResponseDueAt");
+
+-- CreateIndex
+CREATE INDEX "DisputeEvidence_disputeId_idx" ON "DisputeEvidence"("disputeId");
+
+-- CreateIndex
+CREATE INDEX "DisputeMessage_disputeId_createdAt_idx" ON "DisputeMessage"("disputeId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "Dispute" ADD CONSTRAINT "Dispute_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "Order"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Dispute" ADD CONSTRAINT "Dispute_orderItemId_fkey" FOREIGN KEY ("orderItemId") REFERENCES "OrderItem"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Dispute" ADD CONSTRAINT "Dispute_customerId_fkey" FOREIGN KEY ("customerId") REFERENCES "Customer"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Dispute" ADD CONSTRAINT "Dispute_vendorId_fkey" FOREIGN KEY ("vendorId") REFERENCES "Vendor"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Dispute" ADD CONSTRAINT "Dispute_refundId_fkey" FOREIGN KEY ("refundId") REFERENCES "Refund"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Dispute" ADD CONSTRAINT "Dispute_replacementOrderId_fkey" FOREIGN KEY ("replacementOrderId") REFERENCES "Order"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DisputeEvidence" ADD CONSTRAINT "DisputeEvidence_disputeId_fkey" FOREIGN KEY ("disputeId") REFERENCES "Dispute"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DisputeMessage" ADD CONSTRAINT "DisputeMessage_disputeId_fkey" FOREIGN KEY ("disputeId") REFERENCES "Dispute"("id") ON DELETE CASCADE ON UPDATE CASCADE;
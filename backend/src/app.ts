@@ -19,6 +19,14 @@ import deliveryRoutes from './routes/delivery.routes';
 import driverRoutes from './routes/driver.routes';
 import notificationRoutes from './routes/notification.routes';
 import messageRoutes from './routes/message.routes';
+import interchangeRoutes from './routes/interchange.routes';
+import vendorReviewRoutes from './routes/vendor-review.routes';
+import cartRoutes from './routes/cart.routes';
+import checkoutRoutes from './routes/checkout.routes';
+import returnRoutes from './routes/return.routes';
+import disputeRoutes from './routes/dispute.routes';
+import { serveUploads } from './utils/storage.util';
+import { LOCAL_UPLOADS_PATH } from './utils/local-storage.util';
 
 const cors = require('cors');
 const app = express();
@@ -27,6 +35,9 @@ export const prisma = new PrismaClient();
 app.use(cors());
 app.use(express.json());
 
+// Files kept by the local storage driver
+app.use(LOCAL_UPLOADS_PATH, serveUploads());
+
 app.use('/api/auth', authRoutes);
 app.use('/api/users', userRoutes);
 app.use('/api/addresses', addressRoutes);
@@ -46,5 +57,11 @@ app.use('/api/locations', locationRoutes);
 app.use('/api/drivers', driverRoutes);
 app.use('/api/notifications', notificationRoutes);
 app.use('/api/messages', messageRoutes);
+app.use('/api/interchanges', interchangeRoutes);
+app.use('/api/vendor-reviews', vendorReviewRoutes);
+app.use('/api/cart', cartRoutes);
+app.use('/api/checkout', checkoutRoutes);
+app.use('/api/returns', returnRoutes);
+app.use('/api/disputes', disputeRoutes);
 
 export default app;
\ No newline at end of file
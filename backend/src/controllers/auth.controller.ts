@@ -1,7 +1,8 @@
 import { Request, Response } from 'express';
 import { AuthService } from '../services/auth.service';
+import cartService from '../services/cart.service';
 import { UserRole } from '@prisma/client';
-import { uploadToCloudinary } from '../utils/cloudinary.util';
+import { getUploadedFileUrl } from '../utils/storage.util';
 
 export class AuthController {
   private authService: AuthService;
@@ -20,7 +21,7 @@ export class AuthController {
       // Check if file was uploaded
       if (req.file) {
         try {
-          // The file is already uploaded to Cloudinary by multer-storage-cloudinary
+          // The file is already stored by the upload middleware
           // The URL will be in file.path
           customerData.profileImage = req.file.path;
           console.log('Profile image uploaded to:', req.file.path);
@@ -152,12 +153,12 @@ export class AuthController {
         try {
           // Upload profile image
           if (files.profileImage?.[0]) {
-            driverData.profileImage = await uploadToCloudinary(files.profileImage[0]);
+            driverData.profileImage = await getUploadedFileUrl(files.profileImage[0]);
           }
           
           // Upload driving license (required)
           if (files.drivingLicense?.[0]) {
-            driverData.drivingLicense = await uploadToCloudinary(files.drivingLicense[0]);
+            driverData.drivingLicense = await getUploadedFileUrl(files.drivingLicense[0]);
           } else {
             res.status(400).json({ message: 'Driving license document is required' });
             return;
@@ -165,12 +166,12 @@ export class AuthController {
           
           // Upload insurance document (optional)
           if (files.insuranceDocument?.[0]) {
-            driverData.insuranceDocument = await uploadToCloudinary(files.insuranceDocument[0]);
+            driverData.insuranceDocument = await getUploadedFileUrl(files.insuranceDocument[0]);
           }
           
           // Upload identification document (required)
           if (files.identificationDoc?.[0]) {
-            driverData.identificationDoc = await uploadToCloudinary(files.identificationDoc[0]);
+            driverData.identificationDoc = await getUploadedFileUrl(files.identificationDoc[0]);
           } else {
             res.status(400).json({ message: 'Identification document is required' });
             return;
@@ -223,7 +224,7 @@ export class AuthController {
       // Handle profile image upload if file is present
       // if (req.file) {
       //   try {
-      //     const imageUrl = await uploadToCloudinary(req.file);
+      //     const imageUrl = await getUploadedFileUrl(req.file);
       //     adminData.profileImage = imageUrl;
       //   } catch (uploadError) {
       //     console.error('Profile image upload failed:', uploadError);
@@ -250,7 +251,7 @@ export class AuthController {
    */
   async login(req: Request, res: Response): Promise<void> {
     try {
-      const { email, phone, password, deviceInfo } = req.body;
+      const { email, phone, password, deviceInfo, guestCartToken } = req.body;
       
       if ((!email && !phone) || !password) {
         res.status(400).json({ message: 'Email/phone and password are required' });
@@ -265,6 +266,16 @@ export class AuthController {
         ipAddress,
         userAgent
       );
+
+      // Carry over anything the customer put in their cart before signing in
+      const cartToken = guestCartToken || req.header('X-Cart-Token');
+      if (cartToken && result.user.role === UserRole.CUSTOMER) {
+        try {
+          await cartService.mergeGuestCart(result.user.id, cartToken);
+        } catch (error) {
+          console.error('Failed to merge guest cart:', error);
+        }
+      }
       
       res.status(200).json({
         message: 'Login successful',
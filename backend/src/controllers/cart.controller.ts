@@ -0,0 +1,174 @@
+import { Request, Response } from 'express';
+import { UserRole } from '@prisma/client';
+import cartService, { CartOwner } from '../services/cart.service';
+import { ForbiddenException } from '../utils/exceptions.util';
+
+// Guests identify their cart with the token returned when it was created
+const CART_TOKEN_HEADER = 'X-Cart-Token';
+
+export class CartController {
+  /**
+   * Get the cart, revalidated against current prices and stock
+   * @route GET /api/cart
+   */
+  async getCart(req: Request, res: Response): Promise<void> {
+    try {
+      const cart = await cartService.getCart(this.getOwner(req));
+
+      res.status(200).json({
+        success: true,
+        data: cart
+      });
+    } catch (error: any) {
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message: error.message || 'Failed to fetch cart'
+      });
+    }
+  }
+
+  /**
+   * Add a part to the cart
+   * @route POST /api/cart/items
+   */
+  async addItem(req: Request, res: Response): Promise<void> {
+    try {
+      const { partId, quantity } = req.body;
+
+      const cart = await cartService.addItem(
+        this.getOwner(req),
+        partId,
+        quantity !== undefined ? Number(quantity) : 1
+      );
+
+      res.status(200).json({
+        success: true,
+        message: 'Item added to cart',
+        data: cart
+      });
+    } catch (error: any) {
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message: error.message || 'Failed to add item to cart'
+      });
+    }
+  }
+
+  /**
+   * Change the quantity of a part in the cart; 0 removes it
+   * @route PUT /api/cart/items/:partId
+   */
+  async updateItem(req: Request, res: Response): Promise<void> {
+    try {
+      const { partId } = req.params;
+      const { quantity } = req.body;
+
+      const cart = await cartService.updateItem(this.getOwner(req), partId, Number(quantity));
+
+      res.status(200).json({
+        success: true,
+        message: 'Cart updated',
+        data: cart
+      });
+    } catch (error: any) {
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message: error.message || 'Failed to update cart'
+      });
+    }
+  }
+
+  /**
+   * Remove a part from the cart
+   * @route DELETE /api/cart/items/:partId
+   */
+  async removeItem(req: Request, res: Response): Promise<void> {
+    try {
+      const { partId } = req.params;
+
+      const cart = await cartService.removeItem(this.getOwner(req), partId);
+
+      res.status(200).json({
+        success: true,
+        message: 'Item removed from cart',
+        data: cart
+      });
+    } catch (error: any) {
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message: error.message || 'Failed to remove item from cart'
+      });
+    }
+  }
+
+  /**
+   * Empty the cart
+   * @route DELETE /api/cart
+   */
+  async clearCart(req: Request, res: Response): Promise<void> {
+    try {
+      const cart = await cartService.clearCart(this.getOwner(req));
+
+      res.status(200).json({
+        success: true,
+        message: 'Cart cleared',
+        data: cart
+      });
+    } catch (error: any) {
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message: error.message || 'Failed to clear cart'
+      });
+    }
+  }
+
+  /**
+   * Merge a guest cart into the signed-in customer's cart. Login does this
+   * automatically when the guest token is sent with it.
+   * @route POST /api/cart/merge
+   */
+  async mergeGuestCart(req: Request, res: Response): Promise<void> {
+    try {
+      const { userId } = req.user!;
+      const guestToken = req.body.guestToken || req.header(CART_TOKEN_HEADER);
+
+      if (!guestToken) {
+        res.status(400).json({
+          success: false,
+          message: 'guestToken is required'
+        });
+        return;
+      }
+
+      const cart = await cartService.mergeGuestCart(userId, guestToken);
+
+      res.status(200).json({
+        success: true,
+        message: 'Guest cart merged',
+        data: cart
+      });
+    } catch (error: any) {
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message: error.message || 'Failed to merge cart'
+      });
+    }
+  }
+
+  /**
+   * Signed-in customers use their own cart; anyone else signed in has none
+   */
+  private getOwner(req: Request): CartOwner {
+    if (req.user) {
+      if (req.user.role !== UserRole.CUSTOMER) {
+        throw new ForbiddenException('Only customers have a cart');
+      }
+
+      return { userId: req.user.userId };
+    }
+
+    return { guestToken: req.header(CART_TOKEN_HEADER) || undefined };
+  }
+}
+
+export default new CartController();
@@ -0,0 +1,96 @@
+import { Request, Response } from 'express';
+import categoryAttributeService from '../services/category-attribute.service';
+
+export class CategoryAttributeController {
+  /**
+   * Get a category's specification schema, including inherited attributes
+   * @route GET /api/categories/:categoryId/attributes
+   */
+  async getAttributes(req: Request, res: Response): Promise<void> {
+    try {
+      const { categoryId } = req.params;
+
+      const attributes = await categoryAttributeService.getCategoryAttributes(categoryId);
+
+      res.status(200).json({
+        success: true,
+        data: attributes
+      });
+    } catch (error: any) {
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message: error.message || 'Failed to retrieve category attributes'
+      });
+    }
+  }
+
+  /**
+   * Add an attribute to a category's specification schema
+   * @route POST /api/categories/:categoryId/attributes
+   */
+  async createAttribute(req: Request, res: Response): Promise<void> {
+    try {
+      const { categoryId } = req.params;
+
+      const attribute = await categoryAttributeService.createAttribute(categoryId, req.body);
+
+      res.status(201).json({
+        success: true,
+        message: 'Attribute created successfully',
+        data: attribute
+      });
+    } catch (error: any) {
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message: error.message || 'Failed to create attribute'
+      });
+    }
+  }
+
+  /**
+   * Update a category attribute
+   * @route PUT /api/categories/:categoryId/attributes/:attributeId
+   */
+  async updateAttribute(req: Request, res: Response): Promise<void> {
+    try {
+      const { categoryId, attributeId } = req.params;
+
+      const attribute = await categoryAttributeService.updateAttribute(categoryId, attributeId, req.body);
+
+      res.status(200).json({
+        success: true,
+        message: 'Attribute updated successfully',
+        data: attribute
+      });
+    } catch (error: any) {
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message: error.message || 'Failed to update attribute'
+      });
+    }
+  }
+
+  /**
+   * Remove an attribute from a category's specification schema
+   * @route DELETE /api/categories/:categoryId/attributes/:attributeId
+   */
+  async deleteAttribute(req: Request, res: Response): Promise<void> {
+    try {
+      const { categoryId, attributeId } = req.params;
+
+      await categoryAttributeService.deleteAttribute(categoryId, attributeId);
+
+      res.status(200).json({
+        success: true,
+        message: 'Attribute deleted successfully'
+      });
+    } catch (error: any) {
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message: error.message || 'Failed to delete attribute'
+      });
+    }
+  }
+}
+
+export default new CategoryAttributeController();
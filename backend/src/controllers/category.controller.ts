@@ -85,6 +85,11 @@ export class CategoryController {
         categoryData.commissionRate = parseFloat(categoryData.commissionRate);
       }
       
+      // Multipart bodies send booleans as strings
+      if (typeof categoryData.isConsumable === 'string') {
+        categoryData.isConsumable = categoryData.isConsumable === 'true';
+      }
+      
       // Handle empty parentId
       if (categoryData.parentId === '') {
         categoryData.parentId = null;
@@ -101,6 +106,8 @@ export class CategoryController {
       console.error('Category creation error:', error);
       const statusCode = 
         error.message === 'Category name already exists' || 
+        error.message === 'Category slug already exists' ||
+        error.message === 'Category slug must contain letters or numbers' ||
         error.message === 'Parent category not found' ? 400 : 500;
       
       res.status(statusCode).json({
@@ -136,6 +143,11 @@ export class CategoryController {
         categoryData.commissionRate = parseFloat(categoryData.commissionRate);
       }
       
+      // Multipart bodies send booleans as strings
+      if (typeof categoryData.isConsumable === 'string') {
+        categoryData.isConsumable = categoryData.isConsumable === 'true';
+      }
+      
       // Handle empty parentId
       if (categoryData.parentId === '') {
         categoryData.parentId = null;
@@ -155,6 +167,8 @@ export class CategoryController {
         statusCode = 404;
       } else if (
         error.message === 'Category name already exists' || 
+        error.message === 'Category slug already exists' ||
+        error.message === 'Category slug must contain letters or numbers' ||
         error.message === 'A category cannot be its own parent' ||
         error.message === 'Cannot set a descendant as parent (circular reference)'
       ) {
@@ -168,6 +182,92 @@ export class CategoryController {
     }
   }
 
+  /**
+   * Move a category and its subtree under another parent (null for top level)
+   * @route PUT /api/categories/:categoryId/move
+   */
+  async moveCategory(req: Request, res: Response): Promise<void> {
+    try {
+      const { categoryId } = req.params;
+      const { parentId } = req.body;
+
+      if (parentId === undefined) {
+        res.status(400).json({
+          success: false,
+          message: 'Parent category ID is required (null for a top-level category)'
+        });
+        return;
+      }
+
+      const category = await categoryService.moveCategory(categoryId, parentId || null);
+
+      res.status(200).json({
+        success: true,
+        message: 'Category moved successfully',
+        data: category
+      });
+    } catch (error: any) {
+      let statusCode = 500;
+
+      if (error.message === 'Category not found' || error.message === 'Parent category not found') {
+        statusCode = 404;
+      } else if (
+        error.message === 'A category cannot be its own parent' ||
+        error.message === 'Cannot set a descendant as parent (circular reference)'
+      ) {
+        statusCode = 400;
+      }
+
+      res.status(statusCode).json({
+        success: false,
+        message: error.message || 'Failed to move category'
+      });
+    }
+  }
+
+  /**
+   * Merge a duplicate category into another, moving its parts and subcategories
+   * @route POST /api/categories/:categoryId/merge
+   */
+  async mergeCategories(req: Request, res: Response): Promise<void> {
+    try {
+      const { categoryId } = req.params;
+      const { targetCategoryId } = req.body;
+
+      if (!targetCategoryId) {
+        res.status(400).json({
+          success: false,
+          message: 'Target category ID is required'
+        });
+        return;
+      }
+
+      const result = await categoryService.mergeCategories(categoryId, targetCategoryId, req.user!.userId);
+
+      res.status(200).json({
+        success: true,
+        message: 'Categories merged successfully',
+        data: result
+      });
+    } catch (error: any) {
+      let statusCode = 500;
+
+      if (error.message === 'Category not found' || error.message === 'Target category not found') {
+        statusCode = 404;
+      } else if (
+        error.message === 'Cannot merge a category into itself' ||
+        error.message === 'Cannot merge a category into one of its subcategories'
+      ) {
+        statusCode = 400;
+      }
+
+      res.status(statusCode).json({
+        success: false,
+        message: error.message || 'Failed to merge categories'
+      });
+    }
+  }
+
   /**
    * Delete a category
    */
@@ -0,0 +1,68 @@
+import { Request, Response } from 'express';
+import { OrderType, PaymentType } from '@prisma/client';
+import checkoutService from '../services/checkout.service';
+
+export class CheckoutController {
+  /**
+   * Check out the cart, creating one order per vendor
+   * @route POST /api/checkout
+   */
+  async createCheckout(req: Request, res: Response): Promise<void> {
+    try {
+      const { userId } = req.user!;
+      const { orderType, paymentMethod, addressId, notes, promoCode } = req.body;
+
+      if (!Object.values(OrderType).includes(orderType) || !Object.values(PaymentType).includes(paymentMethod)) {
+        res.status(400).json({
+          success: false,
+          message: 'Valid orderType and paymentMethod are required'
+        });
+        return;
+      }
+
+      const checkout = await checkoutService.createCheckout(userId, {
+        orderType,
+        paymentMethod,
+        addressId,
+        notes,
+        promoCode
+      });
+
+      res.status(201).json({
+        success: true,
+        message: 'Checkout created successfully',
+        data: checkout
+      });
+    } catch (error: any) {
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message: error.message || 'Failed to check out'
+      });
+    }
+  }
+
+  /**
+   * Get a checkout and its orders
+   * @route GET /api/checkout/:checkoutId
+   */
+  async getCheckout(req: Request, res: Response): Promise<void> {
+    try {
+      const { userId } = req.user!;
+      const { checkoutId } = req.params;
+
+      const checkout = await checkoutService.getCheckout(userId, checkoutId);
+
+      res.status(200).json({
+        success: true,
+        data: checkout
+      });
+    } catch (error: any) {
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message: error.message || 'Failed to fetch checkout'
+      });
+    }
+  }
+}
+
+export default new CheckoutController();
@@ -34,7 +34,7 @@ export class CustomerController {
       // Handle profile image upload if file is present
       if (req.file) {
         try {
-          // The file is already uploaded to Cloudinary by multer-storage-cloudinary
+          // The file is already stored by the upload middleware
           // The URL will be in req.file.path
           profileData.profileImage = req.file.path;
           console.log('Profile image uploaded to:', req.file.path);
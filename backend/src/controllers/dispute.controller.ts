@@ -0,0 +1,290 @@
+import { Request, Response } from 'express';
+import { DisputeResolution, DisputeStatus } from '@prisma/client';
+import disputeService from '../services/dispute.service';
+
+export class DisputeController {
+  /**
+   * Open a dispute on an order, with optional evidence files
+   * @route POST /api/disputes
+   */
+  async openDispute(req: Request, res: Response): Promise<void> {
+    try {
+      const { userId } = req.user!;
+      const { orderId, orderItemId, reason, description } = req.body;
+
+      if (!orderId) {
+        res.status(400).json({
+          success: false,
+          message: 'Order ID is required'
+        });
+        return;
+      }
+
+      const dispute = await disputeService.openDispute(userId, orderId, {
+        orderItemId: orderItemId || undefined,
+        reason,
+        description,
+        evidence: this.getUploadedFiles(req)
+      });
+
+      res.status(201).json({
+        success: true,
+        message: 'Dispute opened successfully',
+        data: dispute
+      });
+    } catch (error: any) {
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message: error.message || 'Failed to open dispute'
+      });
+    }
+  }
+
+  /**
+   * Get the current customer's disputes
+   * @route GET /api/disputes/my-disputes
+   */
+  async getMyDisputes(req: Request, res: Response): Promise<void> {
+    try {
+      const { userId } = req.user!;
+
+      const disputes = await disputeService.getCustomerDisputes(userId);
+
+      res.status(200).json({
+        success: true,
+        data: disputes
+      });
+    } catch (error: any) {
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message: error.message || 'Failed to fetch disputes'
+      });
+    }
+  }
+
+  /**
+   * Get disputes against the current vendor's orders
+   * @route GET /api/disputes/vendor
+   */
+  async getVendorDisputes(req: Request, res: Response): Promise<void> {
+    try {
+      const { userId } = req.user!;
+      const status = this.parseStatus(req, res);
+      if (status === null) {
+        return;
+      }
+
+      const disputes = await disputeService.getVendorDisputes(userId, status);
+
+      res.status(200).json({
+        success: true,
+        data: disputes
+      });
+    } catch (error: any) {
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message: error.message || 'Failed to fetch disputes'
+      });
+    }
+  }
+
+  /**
+   * Get all disputes (admin)
+   * @route GET /api/disputes
+   */
+  async getDisputes(req: Request, res: Response): Promise<void> {
+    try {
+      const { page, limit } = req.query;
+      const status = this.parseStatus(req, res);
+      if (status === null) {
+        return;
+      }
+
+      const result = await disputeService.getDisputes({
+        status,
+        page: page ? parseInt(page as string) : 1,
+        limit: limit ? parseInt(limit as string) : 20
+      });
+
+      res.status(200).json({
+        success: true,
+        data: result
+      });
+    } catch (error: any) {
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message: error.message || 'Failed to fetch disputes'
+      });
+    }
+  }
+
+  /**
+   * Get a dispute with its evidence and messages
+   * @route GET /api/disputes/:disputeId
+   */
+  async getDispute(req: Request, res: Response): Promise<void> {
+    try {
+      const { userId, role } = req.user!;
+      const { disputeId } = req.params;
+
+      const dispute = await disputeService.getDispute({ userId, role }, disputeId);
+
+      res.status(200).json({
+        success: true,
+        data: dispute
+      });
+    } catch (error: any) {
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message: error.message || 'Failed to fetch dispute'
+      });
+    }
+  }
+
+  /**
+   * Post a message to the dispute thread
+   * @route POST /api/disputes/:disputeId/messages
+   */
+  async addMessage(req: Request, res: Response): Promise<void> {
+    try {
+      const { userId, role } = req.user!;
+      const { disputeId } = req.params;
+      const { content } = req.body;
+
+      const dispute = await disputeService.addMessage({ userId, role }, disputeId, {
+        content,
+        attachments: this.getUploadedFiles(req)
+      });
+
+      res.status(201).json({
+        success: true,
+        message: 'Message sent successfully',
+        data: dispute
+      });
+    } catch (error: any) {
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message: error.message || 'Failed to send message'
+      });
+    }
+  }
+
+  /**
+   * Upload evidence for a dispute
+   * @route POST /api/disputes/:disputeId/evidence
+   */
+  async addEvidence(req: Request, res: Response): Promise<void> {
+    try {
+      const { userId, role } = req.user!;
+      const { disputeId } = req.params;
+      const { description } = req.body;
+
+      const dispute = await disputeService.addEvidence({ userId, role }, disputeId, {
+        files: this.getUploadedFiles(req) || [],
+        description
+      });
+
+      res.status(201).json({
+        success: true,
+        message: 'Evidence added successfully',
+        data: dispute
+      });
+    } catch (error: any) {
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message: error.message || 'Failed to add evidence'
+      });
+    }
+  }
+
+  /**
+   * Withdraw a dispute
+   * @route POST /api/disputes/:disputeId/withdraw
+   */
+  async withdrawDispute(req: Request, res: Response): Promise<void> {
+    try {
+      const { userId } = req.user!;
+      const { disputeId } = req.params;
+
+      const dispute = await disputeService.withdrawDispute(userId, disputeId);
+
+      res.status(200).json({
+        success: true,
+        message: 'Dispute withdrawn successfully',
+        data: dispute
+      });
+    } catch (error: any) {
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message: error.message || 'Failed to withdraw dispute'
+      });
+    }
+  }
+
+  /**
+   * Rule on a dispute (admin)
+   * @route POST /api/disputes/:disputeId/ruling
+   */
+  async ruleOnDispute(req: Request, res: Response): Promise<void> {
+    try {
+      const { userId } = req.user!;
+      const { disputeId } = req.params;
+      const { resolution, refundAmount, note } = req.body;
+
+      if (!Object.values(DisputeResolution).includes(resolution)) {
+        res.status(400).json({
+          success: false,
+          message: `resolution must be one of ${Object.values(DisputeResolution).join(', ')}`
+        });
+        return;
+      }
+
+      const dispute = await disputeService.ruleOnDispute(userId, disputeId, {
+        resolution,
+        refundAmount: refundAmount !== undefined ? parseFloat(refundAmount) : undefined,
+        note
+      });
+
+      res.status(200).json({
+        success: true,
+        message: 'Dispute resolved successfully',
+        data: dispute
+      });
+    } catch (error: any) {
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message: error.message || 'Failed to rule on dispute'
+      });
+    }
+  }
+
+  /**
+   * The status filter from the query string; answers 400 and gives null when it's invalid
+   */
+  private parseStatus(req: Request, res: Response): DisputeStatus | undefined | null {
+    const status = req.query.status as DisputeStatus | undefined;
+
+    if (status && !Object.values(DisputeStatus).includes(status)) {
+      res.status(400).json({
+        success: false,
+        message: 'Invalid status value'
+      });
+      return null;
+    }
+
+    return status;
+  }
+
+  /**
+   * URLs of files uploaded with the request
+   */
+  private getUploadedFiles(req: Request): string[] | undefined {
+    if (!req.files || !Array.isArray(req.files) || req.files.length === 0) {
+      return undefined;
+    }
+
+    return (req.files as Express.Multer.File[]).map(file => file.path);
+  }
+}
+
+export default new DisputeController();
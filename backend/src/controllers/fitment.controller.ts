@@ -0,0 +1,132 @@
+import { Request, Response } from 'express';
+import fitmentService from '../services/fitment.service';
+
+export class FitmentController {
+  /**
+   * Get the vehicles a part fits
+   * @route GET /api/parts/:partId/fitments
+   */
+  async getPartFitments(req: Request, res: Response): Promise<void> {
+    try {
+      const { partId } = req.params;
+
+      const fitments = await fitmentService.getPartFitments(partId);
+
+      res.status(200).json({
+        success: true,
+        data: fitments
+      });
+    } catch (error: any) {
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message: error.message || 'Failed to fetch part fitments'
+      });
+    }
+  }
+
+  /**
+   * Add a fitment row to a part
+   * @route POST /api/parts/:partId/fitments
+   */
+  async createFitment(req: Request, res: Response): Promise<void> {
+    try {
+      const { userId, role } = req.user!;
+      const { partId } = req.params;
+
+      const fitment = await fitmentService.createFitment(userId, role, partId, req.body);
+
+      res.status(201).json({
+        success: true,
+        message: 'Fitment added successfully',
+        data: fitment
+      });
+    } catch (error: any) {
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message: error.message || 'Failed to add fitment'
+      });
+    }
+  }
+
+  /**
+   * Replace all fitment rows of a part
+   * @route PUT /api/parts/:partId/fitments
+   */
+  async replacePartFitments(req: Request, res: Response): Promise<void> {
+    try {
+      const { userId, role } = req.user!;
+      const { partId } = req.params;
+      const { fitments } = req.body;
+
+      if (!Array.isArray(fitments)) {
+        res.status(400).json({
+          success: false,
+          message: 'Fitments must be an array'
+        });
+        return;
+      }
+
+      const updatedFitments = await fitmentService.replacePartFitments(userId, role, partId, fitments);
+
+      res.status(200).json({
+        success: true,
+        message: 'Fitments updated successfully',
+        data: updatedFitments
+      });
+    } catch (error: any) {
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message: error.message || 'Failed to update fitments'
+      });
+    }
+  }
+
+  /**
+   * Update a single fitment row
+   * @route PUT /api/parts/:partId/fitments/:fitmentId
+   */
+  async updateFitment(req: Request, res: Response): Promise<void> {
+    try {
+      const { userId, role } = req.user!;
+      const { partId, fitmentId } = req.params;
+
+      const fitment = await fitmentService.updateFitment(userId, role, partId, fitmentId, req.body);
+
+      res.status(200).json({
+        success: true,
+        message: 'Fitment updated successfully',
+        data: fitment
+      });
+    } catch (error: any) {
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message: error.message || 'Failed to update fitment'
+      });
+    }
+  }
+
+  /**
+   * Delete a single fitment row
+   * @route DELETE /api/parts/:partId/fitments/:fitmentId
+   */
+  async deleteFitment(req: Request, res: Response): Promise<void> {
+    try {
+      const { userId, role } = req.user!;
+      const { partId, fitmentId } = req.params;
+
+      await fitmentService.deleteFitment(userId, role, partId, fitmentId);
+
+      res.status(200).json({
+        success: true,
+        message: 'Fitment deleted successfully'
+      });
+    } catch (error: any) {
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message: error.message || 'Failed to delete fitment'
+      });
+    }
+  }
+}
+
+export default new FitmentController();
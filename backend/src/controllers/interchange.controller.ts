@@ -0,0 +1,138 @@
+import { Request, Response } from 'express';
+import { InterchangeType, UserRole } from '@prisma/client';
+import interchangeService from '../services/interchange.service';
+
+export class InterchangeController {
+  /**
+   * Look up the verified interchange numbers for a part number
+   * @route GET /api/interchanges/lookup/:partNumber
+   */
+  async lookup(req: Request, res: Response): Promise<void> {
+    try {
+      const { partNumber } = req.params;
+
+      const interchanges = await interchangeService.lookup(partNumber);
+
+      res.status(200).json({
+        success: true,
+        data: interchanges
+      });
+    } catch (error: any) {
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message: error.message || 'Failed to look up interchanges'
+      });
+    }
+  }
+
+  /**
+   * List interchange links for curation (vendors only see their own submissions)
+   * @route GET /api/interchanges
+   */
+  async getInterchanges(req: Request, res: Response): Promise<void> {
+    try {
+      const { userId, role } = req.user!;
+      const { partNumber, type, isVerified, limit, offset } = req.query;
+
+      const options = {
+        partNumber: partNumber as string | undefined,
+        type: type as InterchangeType | undefined,
+        isVerified: isVerified !== undefined ? isVerified === 'true' : undefined,
+        createdById: role === UserRole.ADMIN ? undefined : userId,
+        limit: limit ? parseInt(limit as string) : 20,
+        offset: offset ? parseInt(offset as string) : 0
+      };
+
+      const { interchanges, total } = await interchangeService.getInterchanges(options);
+
+      res.status(200).json({
+        success: true,
+        data: {
+          interchanges,
+          total,
+          limit: options.limit,
+          offset: options.offset
+        }
+      });
+    } catch (error: any) {
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message: error.message || 'Failed to fetch interchanges'
+      });
+    }
+  }
+
+  /**
+   * Add an interchange link (vendor submissions await admin verification)
+   * @route POST /api/interchanges
+   */
+  async createInterchange(req: Request, res: Response): Promise<void> {
+    try {
+      const { userId, role } = req.user!;
+
+      const interchange = await interchangeService.createInterchange(userId, role, req.body);
+
+      res.status(201).json({
+        success: true,
+        message: interchange.isVerified
+          ? 'Interchange created successfully'
+          : 'Interchange submitted for verification',
+        data: interchange
+      });
+    } catch (error: any) {
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message: error.message || 'Failed to create interchange'
+      });
+    }
+  }
+
+  /**
+   * Verify a vendor-submitted interchange link
+   * @route PATCH /api/interchanges/:interchangeId/verify
+   */
+  async verifyInterchange(req: Request, res: Response): Promise<void> {
+    try {
+      const { userId, role } = req.user!;
+      const { interchangeId } = req.params;
+
+      const interchange = await interchangeService.verifyInterchange(userId, role, interchangeId);
+
+      res.status(200).json({
+        success: true,
+        message: 'Interchange verified successfully',
+        data: interchange
+      });
+    } catch (error: any) {
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message: error.message || 'Failed to verify interchange'
+      });
+    }
+  }
+
+  /**
+   * Delete an interchange link
+   * @route DELETE /api/interchanges/:interchangeId
+   */
+  async deleteInterchange(req: Request, res: Response): Promise<void> {
+    try {
+      const { userId, role } = req.user!;
+      const { interchangeId } = req.params;
+
+      await interchangeService.deleteInterchange(userId, role, interchangeId);
+
+      res.status(200).json({
+        success: true,
+        message: 'Interchange deleted successfully'
+      });
+    } catch (error: any) {
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message: error.message || 'Failed to delete interchange'
+      });
+    }
+  }
+}
+
+export default new InterchangeController();
@@ -189,16 +189,13 @@ export class MessageController {
         return;
       }
 
-      // The file has already been uploaded to Cloudinary by the middleware
-      // The Cloudinary URL is available in req.file.path
-      const cloudinaryUrl = req.file.path;
-      
-      // Store the Cloudinary URL as the file path
+      // The file has already been stored by the upload middleware;
+      // its URL is available in req.file.path
       const filePath = await messageService.saveAttachment(req.file, userId);
       
       res.status(201).json({ 
         filePath,
-        message: 'File uploaded successfully to Cloudinary'
+        message: 'File uploaded successfully'
       });
     } catch (error) {
       console.error('Error uploading attachment:', error);
@@ -1,6 +1,7 @@
 import { Request, Response } from 'express';
 import { OrderStatus, PaymentStatus, OrderType, PrismaClient } from '@prisma/client';
 import orderService from '../services/order.service';
+import invoiceService, { InvoiceFile } from '../services/invoice.service';
 
 const prisma = new PrismaClient();
 
@@ -223,7 +224,8 @@ export class OrderController {
       const updatedOrder = await orderService.updateOrderStatus({
         orderId,
         status,
-        notes
+        notes,
+        changedById: req.user?.userId
       });
       
       res.status(200).json({
@@ -309,6 +311,46 @@ export class OrderController {
     }
   }
 
+  /**
+   * Download the order's tax invoice
+   * @route GET /api/orders/:orderId/invoice.pdf
+   */
+  async getInvoicePdf(req: Request, res: Response): Promise<void> {
+    try {
+      const { userId, role } = req.user!;
+      const { orderId } = req.params;
+
+      const invoice = await invoiceService.getInvoicePdf({ userId, role }, orderId);
+
+      sendPdf(res, invoice);
+    } catch (error: any) {
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message: error.message || 'An error occurred while generating the invoice'
+      });
+    }
+  }
+
+  /**
+   * Download a credit note issued against the order's invoice
+   * @route GET /api/orders/:orderId/credit-notes/:creditNoteId.pdf
+   */
+  async getCreditNotePdf(req: Request, res: Response): Promise<void> {
+    try {
+      const { userId, role } = req.user!;
+      const { orderId, creditNoteId } = req.params;
+
+      const creditNote = await invoiceService.getCreditNotePdf({ userId, role }, orderId, creditNoteId);
+
+      sendPdf(res, creditNote);
+    } catch (error: any) {
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message: error.message || 'An error occurred while generating the credit note'
+      });
+    }
+  }
+
   /**
    * Generate order report for vendor
    * @route GET /api/orders/reports/:vendorId
@@ -474,4 +516,11 @@ export class OrderController {
   }
 }
 
+// A module function rather than a method: the routes pass handlers unbound
+function sendPdf(res: Response, file: InvoiceFile): void {
+  res.setHeader('Content-Type', 'application/pdf');
+  res.setHeader('Content-Disposition', `attachment; filename="${file.filename}"`);
+  res.status(200).send(file.content);
+}
+
 export default new OrderController();
\ No newline at end of file
@@ -0,0 +1,179 @@
+import { Request, Response } from 'express';
+import partReviewService from '../services/part-review.service';
+
+export class PartReviewController {
+  /**
+   * Get the visible reviews of a part with its rating summary
+   * @route GET /api/parts/:partId/reviews
+   */
+  async getPartReviews(req: Request, res: Response): Promise<void> {
+    try {
+      const { partId } = req.params;
+      const { page, limit, rating, verifiedOnly, sortBy } = req.query;
+
+      const result = await partReviewService.getPartReviews(partId, {
+        page: page ? parseInt(page as string) : 1,
+        limit: limit ? parseInt(limit as string) : 10,
+        rating: rating ? parseInt(rating as string) : undefined,
+        verifiedOnly: verifiedOnly === 'true',
+        sortBy: sortBy as 'recent' | 'rating_high' | 'rating_low' | undefined
+      });
+
+      res.status(200).json({
+        success: true,
+        data: result
+      });
+    } catch (error: any) {
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message: error.message || 'Failed to fetch reviews'
+      });
+    }
+  }
+
+  /**
+   * Review a part
+   * @route POST /api/parts/:partId/reviews
+   */
+  async createReview(req: Request, res: Response): Promise<void> {
+    try {
+      const { userId } = req.user!;
+      const { partId } = req.params;
+      const { rating, title, comment } = req.body;
+
+      const review = await partReviewService.createReview(userId, partId, {
+        rating: parseInt(rating),
+        title,
+        comment,
+        images: this.getUploadedImages(req)
+      });
+
+      res.status(201).json({
+        success: true,
+        message: 'Review submitted successfully',
+        data: review
+      });
+    } catch (error: any) {
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message: error.message || 'Failed to submit review'
+      });
+    }
+  }
+
+  /**
+   * Edit your own review
+   * @route PUT /api/parts/:partId/reviews/:reviewId
+   */
+  async updateReview(req: Request, res: Response): Promise<void> {
+    try {
+      const { userId } = req.user!;
+      const { partId, reviewId } = req.params;
+      const { rating, title, comment } = req.body;
+
+      const review = await partReviewService.updateReview(userId, partId, reviewId, {
+        rating: rating !== undefined ? parseInt(rating) : undefined,
+        title,
+        comment,
+        images: this.getUploadedImages(req)
+      });
+
+      res.status(200).json({
+        success: true,
+        message: 'Review updated successfully',
+        data: review
+      });
+    } catch (error: any) {
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message: error.message || 'Failed to update review'
+      });
+    }
+  }
+
+  /**
+   * Delete a review
+   * @route DELETE /api/parts/:partId/reviews/:reviewId
+   */
+  async deleteReview(req: Request, res: Response): Promise<void> {
+    try {
+      const { userId, role } = req.user!;
+      const { partId, reviewId } = req.params;
+
+      await partReviewService.deleteReview(userId, role, partId, reviewId);
+
+      res.status(200).json({
+        success: true,
+        message: 'Review deleted successfully'
+      });
+    } catch (error: any) {
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message: error.message || 'Failed to delete review'
+      });
+    }
+  }
+
+  /**
+   * Reply to a review of one of your parts
+   * @route PUT /api/parts/:partId/reviews/:reviewId/reply
+   */
+  async replyToReview(req: Request, res: Response): Promise<void> {
+    try {
+      const { userId } = req.user!;
+      const { partId, reviewId } = req.params;
+      const { reply } = req.body;
+
+      const review = await partReviewService.replyToReview(userId, partId, reviewId, reply);
+
+      res.status(200).json({
+        success: true,
+        message: 'Reply saved successfully',
+        data: review
+      });
+    } catch (error: any) {
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message: error.message || 'Failed to reply to review'
+      });
+    }
+  }
+
+  /**
+   * Hide or restore a review
+   * @route PATCH /api/parts/:partId/reviews/:reviewId/moderate
+   */
+  async moderateReview(req: Request, res: Response): Promise<void> {
+    try {
+      const { userId, role } = req.user!;
+      const { partId, reviewId } = req.params;
+      const { isHidden, reason } = req.body;
+
+      const review = await partReviewService.moderateReview(userId, role, partId, reviewId, { isHidden, reason });
+
+      res.status(200).json({
+        success: true,
+        message: review.isHidden ? 'Review hidden' : 'Review restored',
+        data: review
+      });
+    } catch (error: any) {
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message: error.message || 'Failed to moderate review'
+      });
+    }
+  }
+
+  /**
+   * URLs of images uploaded with the request
+   */
+  private getUploadedImages(req: Request): string[] | undefined {
+    if (!req.files || !Array.isArray(req.files) || req.files.length === 0) {
+      return undefined;
+    }
+
+    return (req.files as Express.Multer.File[]).map(file => file.path);
+  }
+}
+
+export default new PartReviewController();
@@ -1,6 +1,9 @@
 import { Request, Response } from 'express';
-import { PartCondition } from '@prisma/client';
-import partService from '../services/part.service';
+import { PartCondition, UserRole } from '@prisma/client';
+import partService, { MAX_COMPARE_PARTS } from '../services/part.service';
+import priceHistoryService from '../services/price-history.service';
+import boughtTogetherService from '../services/bought-together.service';
+import offerService, { OfferSort } from '../services/offer.service';
 
 export class PartController {
   /**
@@ -16,19 +19,19 @@ export class PartController {
         options.search = req.query.search as string;
       }
       
-      // Category filter
+      // Category filter (single value or comma-separated multi-select)
       if (req.query.categoryId) {
-        options.categoryId = req.query.categoryId as string;
+        options.categoryId = this.parseListParam(req.query.categoryId);
       }
       
       // Vendor filter
       if (req.query.vendorId) {
-        options.vendorId = req.query.vendorId as string;
+        options.vendorId = this.parseListParam(req.query.vendorId);
       }
       
       // Condition filter
       if (req.query.condition) {
-        options.condition = req.query.condition as PartCondition;
+        options.condition = this.parseListParam(req.query.condition) as PartCondition[];
       }
       
       // Price range filter
@@ -42,7 +45,7 @@ export class PartController {
       
       // Brand filter
       if (req.query.brand) {
-        options.brand = req.query.brand as string;
+        options.brand = this.parseListParam(req.query.brand);
       }
       
       // Tags filter (comma-separated list)
@@ -78,7 +81,13 @@ export class PartController {
         options.sortOrder = req.query.sortOrder as 'asc' | 'desc';
       }
       
-      const { parts, total } = await partService.getAllParts(options);
+      // Specification filters, e.g. spec.voltage=12 or spec.voltage.min=12
+      this.applySpecFilters(req, options);
+      
+      // Facet counts (optional)
+      this.applyFacetOptions(req, options);
+      
+      const { parts, total, facets, specFilters } = await partService.getAllParts(options);
       
       res.status(200).json({
         success: true,
@@ -86,7 +95,9 @@ export class PartController {
           parts,
           total,
           limit: options.limit || 10,
-          offset: options.offset || 0
+          offset: options.offset || 0,
+          ...(facets && { facets }),
+          ...(specFilters && { specFilters })
         }
       });
     } catch (error: any) {
@@ -121,10 +132,13 @@ export class PartController {
         });
         return;
       }
+
+      // Every seller of the same product, this listing included
+      const offers = await offerService.getOffers(partId, { userId: this.getCustomerUserId(req) });
       
       res.status(200).json({
         success: true,
-        data: part
+        data: { ...part, offers }
       });
     } catch (error: any) {
       res.status(500).json({
@@ -134,6 +148,43 @@ export class PartController {
     }
   }
 
+  /**
+   * Get the active listings for a scanned barcode
+   */
+  async getPartsByBarcode(req: Request, res: Response): Promise<void> {
+    try {
+      const { code } = req.params;
+      
+      if (!code || !code.trim()) {
+        res.status(400).json({
+          success: false,
+          message: 'Barcode is required'
+        });
+        return;
+      }
+
+      const parts = await partService.getPartsByBarcode(code);
+      
+      if (parts.length === 0) {
+        res.status(404).json({
+          success: false,
+          message: 'No part found for this barcode'
+        });
+        return;
+      }
+      
+      res.status(200).json({
+        success: true,
+        data: parts
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        message: error.message || 'Failed to look up barcode'
+      });
+    }
+  }
+
   /**
    * Create a new part with image uploads
    */
@@ -170,7 +221,7 @@ export class PartController {
 
       // Handle uploaded files
       if (req.files && Array.isArray(req.files)) {
-        // Convert uploaded files to an array of Cloudinary URLs
+        // Convert uploaded files to an array of stored file URLs
         partData.images = req.files.map(file => file.path);
         console.log('Part images uploaded:', partData.images);
       }
@@ -184,6 +235,14 @@ export class PartController {
         }
       }
       
+      if (partData.fitments && typeof partData.fitments === 'string') {
+        try {
+          partData.fitments = JSON.parse(partData.fitments);
+        } catch (e) {
+          console.error('Failed to parse fitments JSON', e);
+        }
+      }
+      
       if (partData.compatibleVehicles && typeof partData.compatibleVehicles === 'string') {
         try {
           partData.compatibleVehicles = JSON.parse(partData.compatibleVehicles);
@@ -212,7 +271,9 @@ export class PartController {
       console.error('Part creation error:', error);
       let statusCode = 500;
       
-      if (error.message === 'Category not found' || error.message === 'Vendor not found') {
+      if (error.statusCode) {
+        statusCode = error.statusCode;
+      } else if (error.message === 'Category not found' || error.message === 'Vendor not found') {
         statusCode = 400;
       }
       
@@ -287,6 +348,14 @@ export class PartController {
         }
       }
       
+      if (partData.fitments && typeof partData.fitments === 'string') {
+        try {
+          partData.fitments = JSON.parse(partData.fitments);
+        } catch (e) {
+          console.error('Failed to parse fitments JSON', e);
+        }
+      }
+      
       if (partData.compatibleVehicles && typeof partData.compatibleVehicles === 'string') {
         try {
           partData.compatibleVehicles = JSON.parse(partData.compatibleVehicles);
@@ -315,7 +384,9 @@ export class PartController {
       console.error('Part update error:', error);
       let statusCode = 500;
       
-      if (error.message === 'Part not found') {
+      if (error.statusCode) {
+        statusCode = error.statusCode;
+      } else if (error.message === 'Part not found') {
         statusCode = 404;
       } else if (error.message === 'Category not found' || error.message === 'Vendor not found') {
         statusCode = 400;
@@ -528,7 +599,10 @@ export class PartController {
       const vehicle = {
         make: make as string,
         model: model as string,
-        year: parsedYear
+        year: parsedYear,
+        ...(req.query.engineType && { engineType: req.query.engineType as string }),
+        ...(req.query.transmissionType && { transmissionType: req.query.transmissionType as string }),
+        ...(req.query.trim && { trim: req.query.trim as string })
       };
 
       // Parse filter options
@@ -717,11 +791,17 @@ export class PartController {
         return;
       }
 
-      const parts = await partService.getRelatedParts(partId, limit);
+      const [parts, boughtTogether] = await Promise.all([
+        partService.getRelatedParts(partId, limit),
+        req.query.includeBoughtTogether === 'true'
+          ? boughtTogetherService.getBoughtTogether(partId, limit)
+          : Promise.resolve(undefined)
+      ]);
       
       res.status(200).json({
         success: true,
-        data: parts
+        data: parts,
+        ...(boughtTogether && { boughtTogether })
       });
     } catch (error: any) {
       const statusCode = error.message === 'Part not found' ? 404 : 500;
@@ -733,6 +813,167 @@ export class PartController {
     }
   }
 
+  /**
+   * Get parts frequently bought in the same order as this one
+   */
+  async getBoughtTogether(req: Request, res: Response): Promise<void> {
+    try {
+      const { partId } = req.params;
+      const limit = req.query.limit ? parseInt(req.query.limit as string) : 5;
+
+      if (isNaN(limit) || limit <= 0) {
+        res.status(400).json({
+          success: false,
+          message: 'Limit must be a positive number'
+        });
+        return;
+      }
+
+      const items = await boughtTogetherService.getBoughtTogether(partId, limit);
+
+      res.status(200).json({
+        success: true,
+        data: items
+      });
+    } catch (error: any) {
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message: error.message || 'Failed to retrieve frequently bought together parts'
+      });
+    }
+  }
+
+  /**
+   * Rebuild the frequently-bought-together index now instead of waiting for the schedule
+   */
+  async rebuildBoughtTogether(req: Request, res: Response): Promise<void> {
+    try {
+      const pairs = await boughtTogetherService.rebuildIndex();
+
+      if (pairs === null) {
+        res.status(409).json({
+          success: false,
+          message: 'A rebuild is already running'
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        message: 'Bought-together index rebuilt',
+        data: { pairs }
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        message: error.message || 'Failed to rebuild bought-together index'
+      });
+    }
+  }
+
+  /**
+   * Compare parts side by side
+   */
+  async compareParts(req: Request, res: Response): Promise<void> {
+    try {
+      const ids = typeof req.query.ids === 'string'
+        ? req.query.ids.split(',').map(id => id.trim()).filter(Boolean)
+        : [];
+
+      if (ids.length < 2 || ids.length > MAX_COMPARE_PARTS) {
+        res.status(400).json({
+          success: false,
+          message: `Provide between 2 and ${MAX_COMPARE_PARTS} part IDs in ids, separated by commas`
+        });
+        return;
+      }
+
+      // Fitment is only checked against a signed-in customer's default vehicle
+      const comparison = await partService.compareParts(ids, this.getCustomerUserId(req));
+
+      res.status(200).json({
+        success: true,
+        data: comparison
+      });
+    } catch (error: any) {
+      let statusCode = 500;
+
+      if (error.message === 'Part not found') {
+        statusCode = 404;
+      } else if (error.message.startsWith('Select between')) {
+        statusCode = 400;
+      }
+
+      res.status(statusCode).json({
+        success: false,
+        message: error.message || 'Failed to compare parts'
+      });
+    }
+  }
+
+  /**
+   * Get the offers from every vendor selling the same product
+   */
+  async getOffers(req: Request, res: Response): Promise<void> {
+    try {
+      const { partId } = req.params;
+      const sortBy = req.query.sortBy as OfferSort | undefined;
+
+      if (sortBy && !['price', 'condition', 'rating', 'distance'].includes(sortBy)) {
+        res.status(400).json({
+          success: false,
+          message: 'sortBy must be one of: price, condition, rating, distance'
+        });
+        return;
+      }
+
+      const offers = await offerService.getOffers(partId, {
+        userId: this.getCustomerUserId(req),
+        sortBy
+      });
+
+      res.status(200).json({
+        success: true,
+        data: offers
+      });
+    } catch (error: any) {
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message: error.message || 'Failed to retrieve offers'
+      });
+    }
+  }
+
+  /**
+   * Get a part's price history for charting
+   */
+  async getPriceHistory(req: Request, res: Response): Promise<void> {
+    try {
+      const { partId } = req.params;
+      const days = req.query.days ? parseInt(req.query.days as string) : undefined;
+
+      if (days !== undefined && (isNaN(days) || days <= 0)) {
+        res.status(400).json({
+          success: false,
+          message: 'Days must be a positive number'
+        });
+        return;
+      }
+
+      const history = await priceHistoryService.getPriceHistory(partId, { days });
+
+      res.status(200).json({
+        success: true,
+        data: history
+      });
+    } catch (error: any) {
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message: error.message || 'Failed to retrieve price history'
+      });
+    }
+  }
+
   /**
    * Search parts by keyword
    */
@@ -752,15 +993,15 @@ export class PartController {
       const options: any = {};
       
       if (req.query.categoryId) {
-        options.categoryId = req.query.categoryId as string;
+        options.categoryId = this.parseListParam(req.query.categoryId);
       }
       
       if (req.query.vendorId) {
-        options.vendorId = req.query.vendorId as string;
+        options.vendorId = this.parseListParam(req.query.vendorId);
       }
       
       if (req.query.condition) {
-        options.condition = req.query.condition as PartCondition;
+        options.condition = this.parseListParam(req.query.condition) as PartCondition[];
       }
       
       if (req.query.minPrice) {
@@ -772,7 +1013,7 @@ export class PartController {
       }
       
       if (req.query.brand) {
-        options.brand = req.query.brand as string;
+        options.brand = this.parseListParam(req.query.brand);
       }
       
       if (req.query.inStock !== undefined) {
@@ -795,7 +1036,10 @@ export class PartController {
         options.sortOrder = req.query.sortOrder as 'asc' | 'desc';
       }
 
-      const { parts, total } = await partService.searchParts(keyword as string, options);
+      this.applySpecFilters(req, options);
+      this.applyFacetOptions(req, options);
+
+      const { parts, total, facets } = await partService.searchParts(keyword as string, options);
       
       res.status(200).json({
         success: true,
@@ -804,7 +1048,8 @@ export class PartController {
           total,
           keyword,
           limit: options.limit || 10,
-          offset: options.offset || 0
+          offset: options.offset || 0,
+          ...(facets && { facets })
         }
       });
     } catch (error: any) {
@@ -843,6 +1088,85 @@ export class PartController {
       });
     }
   }
+
+  /**
+   * Parse a query param that may be repeated (?brand=a&brand=b) or comma-separated (?brand=a,b)
+   */
+  private parseListParam(value: any): string[] {
+    const values = Array.isArray(value) ? value : [value];
+
+    return values
+      .flatMap((item: any) => String(item).split(','))
+      .map((item: string) => item.trim())
+      .filter((item: string) => item.length > 0);
+  }
+
+  /**
+   * Read `facets` and `priceRanges` (e.g. "0-5000,5000-20000,20000-") from the query
+   */
+  private applyFacetOptions(req: Request, options: any): void {
+    if (req.query.facets !== 'true') {
+      return;
+    }
+
+    options.facets = true;
+
+    if (req.query.priceRanges) {
+      options.priceRanges = this.parseListParam(req.query.priceRanges)
+        .map(range => {
+          const [min, max] = range.split('-').map(bound => bound.trim());
+          return {
+            ...(min && { min: parseFloat(min) }),
+            ...(max && { max: parseFloat(max) })
+          };
+        })
+        .filter(range =>
+          (range.min === undefined || !isNaN(range.min)) &&
+          (range.max === undefined || !isNaN(range.max))
+        );
+    }
+  }
+
+  /**
+   * Read `spec.<key>=value` (comma-separated for several values) and
+   * `spec.<key>.min` / `spec.<key>.max` from the query
+   */
+  private applySpecFilters(req: Request, options: any): void {
+    const filters = new Map<string, { key: string; values?: string[]; min?: number; max?: number }>();
+
+    Object.entries(req.query).forEach(([param, value]) => {
+      const match = param.match(/^spec\.(.+?)(?:\.(min|max))?$/);
+
+      if (!match || value === undefined) {
+        return;
+      }
+
+      const [, key, bound] = match;
+      const filter = filters.get(key) ?? { key };
+
+      if (bound) {
+        const number = parseFloat(String(value));
+        if (!isNaN(number)) {
+          filter[bound as 'min' | 'max'] = number;
+        }
+      } else {
+        filter.values = this.parseListParam(value);
+      }
+
+      filters.set(key, filter);
+    });
+
+    if (filters.size > 0) {
+      options.specFilters = [...filters.values()];
+    }
+  }
+
+  /**
+   * The user ID when the request comes from a signed-in customer
+   */
+  private getCustomerUserId(req: Request): string | undefined {
+    return req.user?.role === UserRole.CUSTOMER ? req.user.userId : undefined;
+  }
 }
 
 export default new PartController();
\ No newline at end of file
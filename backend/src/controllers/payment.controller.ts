@@ -188,12 +188,37 @@ export class PaymentController {
   }
 
   /**
-   * Initialize payment for an order
+   * Initialize payment for an order, or for every order of a checkout when checkoutId is given
    */
   async initializePayment(req: Request, res: Response): Promise<void> {
     try {
-      const { orderId, customerId, vendorId, amount, paymentMethod, redirectUrl, currency } = req.body;
+      const { orderId, checkoutId, customerId, vendorId, amount, paymentMethod, redirectUrl, currency } = req.body;
       const userId = req.user!.userId;
+
+      // A multi-vendor checkout is paid in one go; amount and method come from the checkout
+      if (checkoutId) {
+        if (req.user?.role !== UserRole.CUSTOMER) {
+          res.status(403).json({
+            success: false,
+            message: 'Only customers can pay for a checkout'
+          });
+          return;
+        }
+
+        const { profile } = await userService.getUserProfile(userId);
+        const result = await paymentService.initializeCheckoutPayment({
+          checkoutId,
+          customerId: profile.id,
+          redirectUrl,
+          currency
+        });
+
+        res.status(200).json({
+          success: true,
+          data: result
+        });
+        return;
+      }
       
       // Basic validation
       if (!orderId || !customerId || !vendorId || !amount || !paymentMethod) {
@@ -0,0 +1,37 @@
+import { Request, Response } from 'express';
+import recommendationService from '../services/recommendation.service';
+
+export class RecommendationController {
+  /**
+   * Personalised part recommendations with a reason for each
+   * @route GET /api/parts/recommendations
+   */
+  async getRecommendations(req: Request, res: Response): Promise<void> {
+    try {
+      const { userId } = req.user!;
+      const limit = req.query.limit ? parseInt(req.query.limit as string) : 20;
+
+      if (isNaN(limit) || limit <= 0 || limit > 50) {
+        res.status(400).json({
+          success: false,
+          message: 'Limit must be a number from 1 to 50'
+        });
+        return;
+      }
+
+      const recommendations = await recommendationService.getRecommendations(userId, limit);
+
+      res.status(200).json({
+        success: true,
+        data: recommendations
+      });
+    } catch (error: any) {
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message: error.message || 'Failed to get recommendations'
+      });
+    }
+  }
+}
+
+export default new RecommendationController();
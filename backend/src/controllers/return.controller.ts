@@ -0,0 +1,221 @@
+import { Request, Response } from 'express';
+import { ReturnStatus } from '@prisma/client';
+import returnService from '../services/return.service';
+
+export class ReturnController {
+  /**
+   * Request a return for an order item
+   * @route POST /api/returns
+   */
+  async createReturn(req: Request, res: Response): Promise<void> {
+    try {
+      const { userId } = req.user!;
+      const { orderId, orderItemId, quantity, reason } = req.body;
+
+      if (!orderId || !orderItemId) {
+        res.status(400).json({
+          success: false,
+          message: 'Order ID and order item ID are required'
+        });
+        return;
+      }
+
+      const returnRequest = await returnService.createReturn(userId, orderId, {
+        orderItemId,
+        quantity: parseInt(quantity),
+        reason,
+        images: this.getUploadedImages(req)
+      });
+
+      res.status(201).json({
+        success: true,
+        message: 'Return requested successfully',
+        data: returnRequest
+      });
+    } catch (error: any) {
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message: error.message || 'Failed to request return'
+      });
+    }
+  }
+
+  /**
+   * Get the current customer's returns
+   * @route GET /api/returns/my-returns
+   */
+  async getMyReturns(req: Request, res: Response): Promise<void> {
+    try {
+      const { userId } = req.user!;
+
+      const returns = await returnService.getCustomerReturns(userId);
+
+      res.status(200).json({
+        success: true,
+        data: returns
+      });
+    } catch (error: any) {
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message: error.message || 'Failed to fetch returns'
+      });
+    }
+  }
+
+  /**
+   * Get returns against the current vendor's orders
+   * @route GET /api/returns/vendor
+   */
+  async getVendorReturns(req: Request, res: Response): Promise<void> {
+    try {
+      const { userId } = req.user!;
+      const status = req.query.status as ReturnStatus | undefined;
+
+      if (status && !Object.values(ReturnStatus).includes(status)) {
+        res.status(400).json({
+          success: false,
+          message: 'Invalid status value'
+        });
+        return;
+      }
+
+      const returns = await returnService.getVendorReturns(userId, status);
+
+      res.status(200).json({
+        success: true,
+        data: returns
+      });
+    } catch (error: any) {
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message: error.message || 'Failed to fetch returns'
+      });
+    }
+  }
+
+  /**
+   * Get a return
+   * @route GET /api/returns/:returnId
+   */
+  async getReturn(req: Request, res: Response): Promise<void> {
+    try {
+      const { userId, role } = req.user!;
+      const { returnId } = req.params;
+
+      const returnRequest = await returnService.getReturn({ userId, role }, returnId);
+
+      res.status(200).json({
+        success: true,
+        data: returnRequest
+      });
+    } catch (error: any) {
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message: error.message || 'Failed to fetch return'
+      });
+    }
+  }
+
+  /**
+   * Withdraw a return the vendor hasn't answered yet
+   * @route POST /api/returns/:returnId/cancel
+   */
+  async cancelReturn(req: Request, res: Response): Promise<void> {
+    try {
+      const { userId } = req.user!;
+      const { returnId } = req.params;
+
+      const returnRequest = await returnService.cancelReturn(userId, returnId);
+
+      res.status(200).json({
+        success: true,
+        message: 'Return cancelled successfully',
+        data: returnRequest
+      });
+    } catch (error: any) {
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message: error.message || 'Failed to cancel return'
+      });
+    }
+  }
+
+  /**
+   * Approve or reject a return
+   * @route PATCH /api/returns/:returnId/review
+   */
+  async reviewReturn(req: Request, res: Response): Promise<void> {
+    try {
+      const { userId, role } = req.user!;
+      const { returnId } = req.params;
+      const { approve, note } = req.body;
+
+      if (typeof approve !== 'boolean') {
+        res.status(400).json({
+          success: false,
+          message: 'approve must be true or false'
+        });
+        return;
+      }
+
+      const returnRequest = await returnService.reviewReturn({ userId, role }, returnId, { approve, note });
+
+      res.status(200).json({
+        success: true,
+        message: approve ? 'Return approved' : 'Return rejected',
+        data: returnRequest
+      });
+    } catch (error: any) {
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message: error.message || 'Failed to review return'
+      });
+    }
+  }
+
+  /**
+   * Confirm a returned item arrived, restocking it if resellable and refunding the customer
+   * @route POST /api/returns/:returnId/receive
+   */
+  async receiveReturn(req: Request, res: Response): Promise<void> {
+    try {
+      const { userId, role } = req.user!;
+      const { returnId } = req.params;
+      const { resellable, note } = req.body;
+
+      if (typeof resellable !== 'boolean') {
+        res.status(400).json({
+          success: false,
+          message: 'resellable must be true or false'
+        });
+        return;
+      }
+
+      const returnRequest = await returnService.receiveReturn({ userId, role }, returnId, { resellable, note });
+
+      res.status(200).json({
+        success: true,
+        message: 'Return received successfully',
+        data: returnRequest
+      });
+    } catch (error: any) {
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message: error.message || 'Failed to receive return'
+      });
+    }
+  }
+
+  /**
+   * URLs of images uploaded with the request
+   */
+  private getUploadedImages(req: Request): string[] | undefined {
+    if (!req.files || !Array.isArray(req.files) || req.files.length === 0) {
+      return undefined;
+    }
+
+    return (req.files as Express.Multer.File[]).map(file => file.path);
+  }
+}
+
+export default new ReturnController();
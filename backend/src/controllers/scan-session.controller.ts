@@ -0,0 +1,184 @@
+import { Request, Response } from 'express';
+import { ScanSessionStatus } from '@prisma/client';
+import scanSessionService from '../services/scan-session.service';
+
+export class ScanSessionController {
+  /**
+   * Start a scanning session
+   * @route POST /api/inventory/scan-sessions
+   */
+  async createSession(req: Request, res: Response): Promise<void> {
+    try {
+      const { userId, role } = req.user!;
+      const { mode, orderId, notes, vendorId } = req.body;
+
+      const session = await scanSessionService.createSession(userId, role, { mode, orderId, notes, vendorId });
+
+      res.status(201).json({
+        success: true,
+        message: 'Scan session started',
+        data: session
+      });
+    } catch (error: any) {
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message: error.message || 'Failed to start scan session'
+      });
+    }
+  }
+
+  /**
+   * List scanning sessions
+   * @route GET /api/inventory/scan-sessions
+   */
+  async getSessions(req: Request, res: Response): Promise<void> {
+    try {
+      const { userId, role } = req.user!;
+      const { status, limit, offset } = req.query;
+
+      const options = {
+        status: status as ScanSessionStatus | undefined,
+        limit: limit ? parseInt(limit as string) : 20,
+        offset: offset ? parseInt(offset as string) : 0
+      };
+
+      const { sessions, total } = await scanSessionService.getSessions(userId, role, options);
+
+      res.status(200).json({
+        success: true,
+        data: {
+          sessions,
+          total,
+          limit: options.limit,
+          offset: options.offset
+        }
+      });
+    } catch (error: any) {
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message: error.message || 'Failed to fetch scan sessions'
+      });
+    }
+  }
+
+  /**
+   * Get a session with per-part totals and unknown codes
+   * @route GET /api/inventory/scan-sessions/:sessionId
+   */
+  async getSession(req: Request, res: Response): Promise<void> {
+    try {
+      const { userId, role } = req.user!;
+      const { sessionId } = req.params;
+
+      const session = await scanSessionService.getSession(userId, role, sessionId);
+
+      res.status(200).json({
+        success: true,
+        data: session
+      });
+    } catch (error: any) {
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message: error.message || 'Failed to fetch scan session'
+      });
+    }
+  }
+
+  /**
+   * Record a scanned barcode
+   * @route POST /api/inventory/scan-sessions/:sessionId/scans
+   */
+  async recordScan(req: Request, res: Response): Promise<void> {
+    try {
+      const { userId, role } = req.user!;
+      const { sessionId } = req.params;
+      const { code, quantity } = req.body;
+
+      const result = await scanSessionService.recordScan(userId, role, sessionId, { code, quantity });
+
+      res.status(201).json({
+        success: true,
+        message: result.isKnown ? 'Scan recorded' : 'Unknown code recorded',
+        data: result
+      });
+    } catch (error: any) {
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message: error.message || 'Failed to record scan'
+      });
+    }
+  }
+
+  /**
+   * Undo a scan
+   * @route DELETE /api/inventory/scan-sessions/:sessionId/scans/:scanId
+   */
+  async removeScan(req: Request, res: Response): Promise<void> {
+    try {
+      const { userId, role } = req.user!;
+      const { sessionId, scanId } = req.params;
+
+      await scanSessionService.removeScan(userId, role, sessionId, scanId);
+
+      res.status(200).json({
+        success: true,
+        message: 'Scan removed'
+      });
+    } catch (error: any) {
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message: error.message || 'Failed to remove scan'
+      });
+    }
+  }
+
+  /**
+   * Apply the session's scans to stock
+   * @route POST /api/inventory/scan-sessions/:sessionId/commit
+   */
+  async commitSession(req: Request, res: Response): Promise<void> {
+    try {
+      const { userId, role } = req.user!;
+      const { sessionId } = req.params;
+
+      const result = await scanSessionService.commitSession(userId, role, sessionId);
+
+      res.status(200).json({
+        success: true,
+        message: 'Scan session committed',
+        data: result
+      });
+    } catch (error: any) {
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message: error.message || 'Failed to commit scan session'
+      });
+    }
+  }
+
+  /**
+   * Cancel a session without changing stock
+   * @route POST /api/inventory/scan-sessions/:sessionId/cancel
+   */
+  async cancelSession(req: Request, res: Response): Promise<void> {
+    try {
+      const { userId, role } = req.user!;
+      const { sessionId } = req.params;
+
+      const session = await scanSessionService.cancelSession(userId, role, sessionId);
+
+      res.status(200).json({
+        success: true,
+        message: 'Scan session cancelled',
+        data: session
+      });
+    } catch (error: any) {
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message: error.message || 'Failed to cancel scan session'
+      });
+    }
+  }
+}
+
+export default new ScanSessionController();
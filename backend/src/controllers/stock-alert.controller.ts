@@ -0,0 +1,75 @@
+import { Request, Response } from 'express';
+import stockAlertService from '../services/stock-alert.service';
+
+export class StockAlertController {
+  /**
+   * Subscribe to a back-in-stock alert for a part
+   * @route POST /api/parts/:partId/stock-alerts
+   */
+  async subscribe(req: Request, res: Response): Promise<void> {
+    try {
+      const { userId } = req.user!;
+      const { partId } = req.params;
+
+      const subscription = await stockAlertService.subscribe(userId, partId);
+
+      res.status(201).json({
+        success: true,
+        message: "We'll let you know when this part is back in stock",
+        data: subscription
+      });
+    } catch (error: any) {
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message: error.message || 'Failed to subscribe to stock alerts'
+      });
+    }
+  }
+
+  /**
+   * Unsubscribe from a part's back-in-stock alert
+   * @route DELETE /api/parts/:partId/stock-alerts
+   */
+  async unsubscribe(req: Request, res: Response): Promise<void> {
+    try {
+      const { userId } = req.user!;
+      const { partId } = req.params;
+
+      await stockAlertService.unsubscribe(userId, partId);
+
+      res.status(200).json({
+        success: true,
+        message: 'Unsubscribed from stock alerts'
+      });
+    } catch (error: any) {
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message: error.message || 'Failed to unsubscribe from stock alerts'
+      });
+    }
+  }
+
+  /**
+   * List your back-in-stock subscriptions
+   * @route GET /api/customers/stock-alerts
+   */
+  async getSubscriptions(req: Request, res: Response): Promise<void> {
+    try {
+      const { userId } = req.user!;
+
+      const subscriptions = await stockAlertService.getSubscriptions(userId);
+
+      res.status(200).json({
+        success: true,
+        data: subscriptions
+      });
+    } catch (error: any) {
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message: error.message || 'Failed to fetch stock alerts'
+      });
+    }
+  }
+}
+
+export default new StockAlertController();
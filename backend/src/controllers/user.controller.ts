@@ -53,7 +53,7 @@ export class UserController {
       // Handle file upload if image is present
       if (req.file) {
         try {
-          // The Cloudinary URL is already in req.file.path
+          // The stored file's URL is already in req.file.path
           const imageUrl = req.file.path;
           console.log(`Upload successful: ${imageUrl}`);
           
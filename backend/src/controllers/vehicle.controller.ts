@@ -63,8 +63,8 @@ export class VehicleController {
       const userId = req.user!.userId;
       const vehicleData = req.body;
       
-      // Validate required fields
-      if (!vehicleData.make || !vehicleData.model || !vehicleData.year) {
+      // Validate required fields (make and year can be decoded from the VIN)
+      if (!vehicleData.model || (!vehicleData.vin && (!vehicleData.make || !vehicleData.year))) {
         res.status(400).json({
           success: false,
           message: 'Make, model, and year are required'
@@ -80,13 +80,50 @@ export class VehicleController {
         data: newVehicle
       });
     } catch (error: any) {
-      res.status(error.message === 'Customer profile not found' ? 404 : 500).json({
+      let statusCode = error.statusCode || 500;
+
+      if (error.message === 'Customer profile not found') {
+        statusCode = 404;
+      } else if (error.message === 'Make, model, and year are required') {
+        statusCode = 400;
+      }
+
+      res.status(statusCode).json({
         success: false,
         message: error.message || 'Failed to create vehicle'
       });
     }
   }
 
+  /**
+   * Decode a VIN to pre-fill the add vehicle form
+   */
+  async decodeVin(req: Request, res: Response): Promise<void> {
+    try {
+      const { vin } = req.body;
+
+      if (!vin || typeof vin !== 'string') {
+        res.status(400).json({
+          success: false,
+          message: 'VIN is required'
+        });
+        return;
+      }
+
+      const decodedVin = vehicleService.decodeVin(vin);
+
+      res.status(200).json({
+        success: true,
+        data: decodedVin
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        message: error.message || 'Failed to decode VIN'
+      });
+    }
+  }
+
   /**
    * Update an existing vehicle
    */
@@ -113,7 +150,7 @@ export class VehicleController {
       });
     } catch (error: any) {
       const statusCode = error.message === 'Vehicle not found' || 
-                         error.message === 'Customer profile not found' ? 404 : 500;
+                         error.message === 'Customer profile not found' ? 404 : error.statusCode || 500;
       
       res.status(statusCode).json({
         success: false,
@@ -0,0 +1,150 @@
+import { Request, Response } from 'express';
+import vendorReviewService from '../services/vendor-review.service';
+
+export class VendorReviewController {
+  /**
+   * Review the vendor of a completed order
+   * @route POST /api/vendor-reviews
+   */
+  async createReview(req: Request, res: Response): Promise<void> {
+    try {
+      const { userId } = req.user!;
+      const { orderId, rating, comment } = req.body;
+
+      const review = await vendorReviewService.createReview(userId, {
+        orderId,
+        rating: parseInt(rating),
+        comment,
+        images: this.getUploadedImages(req)
+      });
+
+      res.status(201).json({
+        success: true,
+        message: 'Review submitted successfully',
+        data: review
+      });
+    } catch (error: any) {
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message: error.message || 'Failed to submit review'
+      });
+    }
+  }
+
+  /**
+   * Edit your own vendor review
+   * @route PUT /api/vendor-reviews/:reviewId
+   */
+  async updateReview(req: Request, res: Response): Promise<void> {
+    try {
+      const { userId } = req.user!;
+      const { reviewId } = req.params;
+      const { rating, comment } = req.body;
+
+      const review = await vendorReviewService.updateReview(userId, reviewId, {
+        rating: rating !== undefined ? parseInt(rating) : undefined,
+        comment,
+        images: this.getUploadedImages(req)
+      });
+
+      res.status(200).json({
+        success: true,
+        message: 'Review updated successfully',
+        data: review
+      });
+    } catch (error: any) {
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message: error.message || 'Failed to update review'
+      });
+    }
+  }
+
+  /**
+   * List your own vendor reviews
+   * @route GET /api/vendor-reviews/mine
+   */
+  async getMyReviews(req: Request, res: Response): Promise<void> {
+    try {
+      const { userId } = req.user!;
+
+      const reviews = await vendorReviewService.getCustomerReviews(userId);
+
+      res.status(200).json({
+        success: true,
+        data: reviews
+      });
+    } catch (error: any) {
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message: error.message || 'Failed to fetch reviews'
+      });
+    }
+  }
+
+  /**
+   * Reviews awaiting moderation (or hidden / all with ?status=)
+   * @route GET /api/vendor-reviews/moderation
+   */
+  async getModerationQueue(req: Request, res: Response): Promise<void> {
+    try {
+      const { role } = req.user!;
+      const { status, vendorId, page, limit } = req.query;
+
+      const result = await vendorReviewService.getModerationQueue(role, {
+        status: status as 'pending' | 'hidden' | 'all' | undefined,
+        vendorId: vendorId as string | undefined,
+        page: page ? parseInt(page as string) : 1,
+        limit: limit ? parseInt(limit as string) : 20
+      });
+
+      res.status(200).json({
+        success: true,
+        data: result
+      });
+    } catch (error: any) {
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message: error.message || 'Failed to fetch moderation queue'
+      });
+    }
+  }
+
+  /**
+   * Approve, hide or restore a review
+   * @route PATCH /api/vendor-reviews/:reviewId/moderate
+   */
+  async moderateReview(req: Request, res: Response): Promise<void> {
+    try {
+      const { userId, role } = req.user!;
+      const { reviewId } = req.params;
+      const { isHidden, reason } = req.body;
+
+      const review = await vendorReviewService.moderateReview(userId, role, reviewId, { isHidden, reason });
+
+      res.status(200).json({
+        success: true,
+        message: review.isHidden ? 'Review hidden' : 'Review approved',
+        data: review
+      });
+    } catch (error: any) {
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message: error.message || 'Failed to moderate review'
+      });
+    }
+  }
+
+  /**
+   * URLs of images uploaded with the request
+   */
+  private getUploadedImages(req: Request): string[] | undefined {
+    if (!req.files || !Array.isArray(req.files) || req.files.length === 0) {
+      return undefined;
+    }
+
+    return (req.files as Express.Multer.File[]).map(file => file.path);
+  }
+}
+
+export default new VendorReviewController();
@@ -28,4 +28,29 @@ export const authMiddleware = async (req: Request, res: Response, next: NextFunc
   } catch (error) {
      res.status(401).json({ message: 'Invalid or expired token' });
   }
-};
\ No newline at end of file
+};
+
+/**
+ * Attach the user when a valid bearer token is sent, but let guests through.
+ * For public routes that personalise their response for signed-in users.
+ */
+export const optionalAuthMiddleware = async (req: Request, res: Response, next: NextFunction) => {
+  const authHeader = req.headers.authorization;
+
+  if (authHeader && authHeader.startsWith('Bearer ')) {
+    try {
+      const authService = new AuthService();
+      const payload = await authService.validateToken(authHeader.split(' ')[1]);
+
+      req.user = {
+        userId: payload.userId,
+        role: payload.role,
+        sessionId: payload.sessionId
+      };
+    } catch (error) {
+      // Treat an invalid or expired token as a guest request
+    }
+  }
+
+  next();
+};
@@ -0,0 +1,93 @@
+import { Request, Response, NextFunction } from 'express';
+import * as crypto from 'crypto';
+import idempotencyService from '../services/idempotency.service';
+
+const IDEMPOTENCY_HEADER = 'Idempotency-Key';
+const MAX_KEY_LENGTH = 255;
+
+/**
+ * JSON with object keys sorted, so the same body always hashes the same
+ */
+const canonicalJson = (value: unknown): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+
+  return JSON.stringify(value) ?? 'null';
+};
+
+/**
+ * Make a POST safe to retry. When the client sends an Idempotency-Key header,
+ * the first response is stored and replayed for retries of the same request;
+ * reusing the key for a different request is rejected with 409. Requests
+ * without the header run as normal. Must come after authMiddleware.
+ */
+export const idempotencyMiddleware = async (req: Request, res: Response, next: NextFunction) => {
+  const key = req.header(IDEMPOTENCY_HEADER);
+
+  if (!key || !req.user) {
+    return next();
+  }
+
+  if (key.length > MAX_KEY_LENGTH) {
+    res.status(400).json({
+      success: false,
+      message: `${IDEMPOTENCY_HEADER} must be at most ${MAX_KEY_LENGTH} characters`
+    });
+    return;
+  }
+
+  const requestHash = crypto
+    .createHash('sha256')
+    .update(`${req.method} ${req.baseUrl}${req.path}\n${canonicalJson(req.body ?? {})}`)
+    .digest('hex');
+
+  try {
+    const start = await idempotencyService.begin(req.user.userId, key, requestHash);
+
+    if (start.replay) {
+      res.setHeader('Idempotent-Replayed', 'true');
+      res.status(start.replay.status).json(start.replay.body);
+      return;
+    }
+
+    const recordId = start.recordId;
+    const json = res.json.bind(res);
+    let answered = false;
+
+    // Store whatever the handler answers; server errors free the key for a real retry
+    res.json = (body?: any) => {
+      answered = true;
+      const stored = res.statusCode >= 500
+        ? idempotencyService.abandon(recordId)
+        : idempotencyService.complete(recordId, { status: res.statusCode, body });
+
+      stored.catch(error => console.error(`Failed to store idempotent response for key ${key}:`, error));
+
+      return json(body);
+    };
+
+    // A response sent without res.json can't be replayed, so free the key. A client
+    // that hangs up early keeps it claimed until the handler answers.
+    res.on('close', () => {
+      if (!answered && res.writableFinished) {
+        idempotencyService.abandon(recordId)
+          .catch(error => console.error(`Failed to release idempotency key ${key}:`, error));
+      }
+    });
+
+    next();
+  } catch (error: any) {
+    res.status(error.statusCode || 500).json({
+      success: false,
+      message: error.message || 'Failed to process Idempotency-Key'
+    });
+  }
+};
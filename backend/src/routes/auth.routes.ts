@@ -1,5 +1,5 @@
 import express from 'express';
-import { upload } from '../utils/cloudinary.util';
+import { upload } from '../utils/storage.util';
 import { authController } from '../controllers/auth.controller';
 import { authMiddleware } from '../middlewares/auth.middleware';
 import { roleGuard } from '../middlewares/role.guard';
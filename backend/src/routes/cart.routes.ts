@@ -0,0 +1,23 @@
+import express from 'express';
+import { UserRole } from '@prisma/client';
+import cartController from '../controllers/cart.controller';
+import { authMiddleware, optionalAuthMiddleware } from '../middlewares/auth.middleware';
+import { roleGuard } from '../middlewares/role.guard';
+
+const router = express.Router();
+
+// Signed-in customers get their own cart; guests send the X-Cart-Token header
+router.get('/', optionalAuthMiddleware, cartController.getCart.bind(cartController));
+router.post('/items', optionalAuthMiddleware, cartController.addItem.bind(cartController));
+router.put('/items/:partId', optionalAuthMiddleware, cartController.updateItem.bind(cartController));
+router.delete('/items/:partId', optionalAuthMiddleware, cartController.removeItem.bind(cartController));
+router.delete('/', optionalAuthMiddleware, cartController.clearCart.bind(cartController));
+
+router.post(
+  '/merge',
+  authMiddleware,
+  roleGuard([UserRole.CUSTOMER]),
+  cartController.mergeGuestCart.bind(cartController)
+);
+
+export default router;
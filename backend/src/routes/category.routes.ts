@@ -1,9 +1,10 @@
 import express from 'express';
 import { UserRole } from '@prisma/client';
 import categoryController from '../controllers/category.controller';
+import categoryAttributeController from '../controllers/category-attribute.controller';
 import { authMiddleware } from '../middlewares/auth.middleware';
 import { roleGuard } from '../middlewares/role.guard';
-import { upload } from '../utils/cloudinary.util';
+import { upload } from '../utils/storage.util';
 
 const router = express.Router();
 
@@ -16,6 +17,7 @@ router.get('/popular', categoryController.getPopularCategories.bind(categoryCont
 router.get('/:categoryId', categoryController.getCategoryById.bind(categoryController));
 router.get('/:categoryId/subcategories', categoryController.getSubcategories.bind(categoryController));
 router.get('/:categoryId/breadcrumb', categoryController.getCategoryBreadcrumb.bind(categoryController));
+router.get('/:categoryId/attributes', categoryAttributeController.getAttributes.bind(categoryAttributeController));
 
 // Admin-only routes
 router.use(authMiddleware);
@@ -26,5 +28,12 @@ router.post('/', upload.single('image'), categoryController.createCategory.bind(
 router.put('/:categoryId', upload.single('image'), categoryController.updateCategory.bind(categoryController));
 router.delete('/:categoryId', categoryController.deleteCategory.bind(categoryController));
 router.put('/:categoryId/commission', categoryController.updateCommissionRate.bind(categoryController));
+router.put('/:categoryId/move', categoryController.moveCategory.bind(categoryController));
+router.post('/:categoryId/merge', categoryController.mergeCategories.bind(categoryController));
+
+// Specification schema
+router.post('/:categoryId/attributes', categoryAttributeController.createAttribute.bind(categoryAttributeController));
+router.put('/:categoryId/attributes/:attributeId', categoryAttributeController.updateAttribute.bind(categoryAttributeController));
+router.delete('/:categoryId/attributes/:attributeId', categoryAttributeController.deleteAttribute.bind(categoryAttributeController));
 
 export default router;
\ No newline at end of file
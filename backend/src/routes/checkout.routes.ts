@@ -0,0 +1,16 @@
+import express from 'express';
+import { UserRole } from '@prisma/client';
+import checkoutController from '../controllers/checkout.controller';
+import { authMiddleware } from '../middlewares/auth.middleware';
+import { roleGuard } from '../middlewares/role.guard';
+import { idempotencyMiddleware } from '../middlewares/idempotency.middleware';
+
+const router = express.Router();
+
+// Checkouts are paid through POST /api/payments/initialize with their checkoutId
+router.use(authMiddleware, roleGuard([UserRole.CUSTOMER]));
+
+router.post('/', idempotencyMiddleware, checkoutController.createCheckout.bind(checkoutController));
+router.get('/:checkoutId', checkoutController.getCheckout.bind(checkoutController));
+
+export default router;
@@ -1,9 +1,10 @@
 import express from 'express';
 import { UserRole } from '@prisma/client';
 import customerController from '../controllers/customer.controller';
+import stockAlertController from '../controllers/stock-alert.controller';
 import { authMiddleware } from '../middlewares/auth.middleware';
 import { roleGuard } from '../middlewares/role.guard';
-import { upload } from '../utils/cloudinary.util';
+import { upload } from '../utils/storage.util';
 
 const router = express.Router();
 
@@ -29,6 +30,9 @@ router.delete('/wishlist/:wishlistItemId', customerController.removeFromWishlist
 router.delete('/wishlist', customerController.clearWishlist.bind(customerController));
 router.get('/wishlist/check/:partId', customerController.isInWishlist.bind(customerController));
 
+// Back-in-stock alerts
+router.get('/stock-alerts', stockAlertController.getSubscriptions.bind(stockAlertController));
+
 // Recently viewed items
 router.get('/recently-viewed', customerController.getRecentlyViewed.bind(customerController));
 router.post('/recently-viewed', customerController.trackRecentlyViewed.bind(customerController));
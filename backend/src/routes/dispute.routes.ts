@@ -0,0 +1,41 @@
+import express from 'express';
+import { UserRole } from '@prisma/client';
+import disputeController from '../controllers/dispute.controller';
+import { authMiddleware } from '../middlewares/auth.middleware';
+import { roleGuard } from '../middlewares/role.guard';
+import { upload } from '../utils/storage.util';
+
+const router = express.Router();
+
+router.use(authMiddleware);
+
+// Customers open disputes, with up to 5 evidence files
+router.post(
+  '/',
+  roleGuard([UserRole.CUSTOMER]),
+  upload.array('evidence', 5),
+  disputeController.openDispute.bind(disputeController)
+);
+router.get('/', roleGuard([UserRole.ADMIN]), disputeController.getDisputes.bind(disputeController));
+router.get('/my-disputes', roleGuard([UserRole.CUSTOMER]), disputeController.getMyDisputes.bind(disputeController));
+router.get('/vendor', roleGuard([UserRole.VENDOR]), disputeController.getVendorDisputes.bind(disputeController));
+router.get('/:disputeId', disputeController.getDispute.bind(disputeController));
+
+// The thread and evidence are open to the customer, the vendor and admins
+router.post(
+  '/:disputeId/messages',
+  roleGuard([UserRole.CUSTOMER, UserRole.VENDOR, UserRole.ADMIN]),
+  upload.array('attachments', 5),
+  disputeController.addMessage.bind(disputeController)
+);
+router.post(
+  '/:disputeId/evidence',
+  roleGuard([UserRole.CUSTOMER, UserRole.VENDOR, UserRole.ADMIN]),
+  upload.array('evidence', 5),
+  disputeController.addEvidence.bind(disputeController)
+);
+
+router.post('/:disputeId/withdraw', roleGuard([UserRole.CUSTOMER]), disputeController.withdrawDispute.bind(disputeController));
+router.post('/:disputeId/ruling', roleGuard([UserRole.ADMIN]), disputeController.ruleOnDispute.bind(disputeController));
+
+export default router;
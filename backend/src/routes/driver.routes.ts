@@ -3,7 +3,7 @@ import { authMiddleware } from '../middlewares/auth.middleware';
 import { roleGuard } from '../middlewares/role.guard';
 import { UserRole } from '@prisma/client';
 import driverController from '../controllers/driver.controller';
-import { upload } from '../utils/cloudinary.util';
+import { upload } from '../utils/storage.util';
 
 const router = express.Router();
 
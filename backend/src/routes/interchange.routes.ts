@@ -0,0 +1,27 @@
+import express from 'express';
+import { UserRole } from '@prisma/client';
+import interchangeController from '../controllers/interchange.controller';
+import { authMiddleware } from '../middlewares/auth.middleware';
+import { roleGuard } from '../middlewares/role.guard';
+
+const router = express.Router();
+
+// Public lookup of verified interchange numbers
+router.get('/lookup/:partNumber', interchangeController.lookup.bind(interchangeController));
+
+// Curation routes (vendors submit, admins verify)
+router.use(authMiddleware);
+router.use(roleGuard([UserRole.ADMIN, UserRole.VENDOR]));
+
+router.get('/', interchangeController.getInterchanges.bind(interchangeController));
+router.post('/', interchangeController.createInterchange.bind(interchangeController));
+router.delete('/:interchangeId', interchangeController.deleteInterchange.bind(interchangeController));
+
+// Admin-only verification
+router.patch(
+  '/:interchangeId/verify',
+  roleGuard([UserRole.ADMIN]),
+  interchangeController.verifyInterchange.bind(interchangeController)
+);
+
+export default router;
@@ -2,7 +2,8 @@ import express from 'express';
 import { authMiddleware } from '../middlewares/auth.middleware';
 import { roleGuard } from '../middlewares/role.guard';
 import inventoryController from '../controllers/inventory.controller';
-import { upload } from '../utils/cloudinary.util';
+import scanSessionController from '../controllers/scan-session.controller';
+import { upload } from '../utils/storage.util';
 import multer from 'multer';
 import { UserRole } from '@prisma/client';
 
@@ -59,4 +60,13 @@ router.get('/export', inventoryController.exportToCsv);
 // Inventory reporting
 router.get('/valuation', inventoryController.getInventoryValuation);
 
+// Barcode scanning sessions (receive, count or pick)
+router.post('/scan-sessions', scanSessionController.createSession);
+router.get('/scan-sessions', scanSessionController.getSessions);
+router.get('/scan-sessions/:sessionId', scanSessionController.getSession);
+router.post('/scan-sessions/:sessionId/scans', scanSessionController.recordScan);
+router.delete('/scan-sessions/:sessionId/scans/:scanId', scanSessionController.removeScan);
+router.post('/scan-sessions/:sessionId/commit', scanSessionController.commitSession);
+router.post('/scan-sessions/:sessionId/cancel', scanSessionController.cancelSession);
+
 export default router;
\ No newline at end of file
@@ -1,7 +1,7 @@
 import express from 'express';
 import { authMiddleware } from '../middlewares/auth.middleware';
 import messageController from '../controllers/message.controller';
-import { upload } from '../utils/cloudinary.util';
+import { upload } from '../utils/storage.util';
 
 const router = express.Router();
 
@@ -14,7 +14,7 @@ router.get('/conversations', messageController.getConversations);
 router.get('/unread/count', messageController.getUnreadCount);
 router.get('/search', messageController.searchMessages);
 
-// Update to use Cloudinary upload middleware instead of multer directly
+// Attachments go through the shared upload middleware and storage driver
 router.post('/attachments', upload.single('file'), messageController.uploadAttachment);
 
 router.get('/:userId', messageController.getMessages);
@@ -1,6 +1,7 @@
 import { Router } from 'express';
 import { authMiddleware } from '../middlewares/auth.middleware';
 import { roleGuard } from '../middlewares/role.guard';
+import { idempotencyMiddleware } from '../middlewares/idempotency.middleware';
 import { UserRole } from '@prisma/client';
 import orderController from '../controllers/order.controller';
 
@@ -23,11 +24,15 @@ router.get('/customer/:customerId', authMiddleware, orderController.getCustomerO
 router.get('/vendor/:vendorId', authMiddleware, orderController.getVendorOrders);
 
 // Create a new order - customer only
-router.post('/', authMiddleware, roleGuard([UserRole.CUSTOMER]), orderController.createOrder);
+router.post('/', authMiddleware, roleGuard([UserRole.CUSTOMER]), idempotencyMiddleware, orderController.createOrder);
 
 // Get order tracking information
 router.get('/:orderId/tracking', authMiddleware, orderController.getOrderTracking);
 
+// Download the tax invoice, or a credit note against it
+router.get('/:orderId/invoice.pdf', authMiddleware, orderController.getInvoicePdf);
+router.get('/:orderId/credit-notes/:creditNoteId.pdf', authMiddleware, orderController.getCreditNotePdf);
+
 // Cancel order
 router.post('/:orderId/cancel', authMiddleware, orderController.cancelOrder);
 
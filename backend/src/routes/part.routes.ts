@@ -1,9 +1,13 @@
 import express from 'express';
 import { UserRole } from '@prisma/client';
 import partController from '../controllers/part.controller';
-import { authMiddleware } from '../middlewares/auth.middleware';
+import fitmentController from '../controllers/fitment.controller';
+import partReviewController from '../controllers/part-review.controller';
+import stockAlertController from '../controllers/stock-alert.controller';
+import recommendationController from '../controllers/recommendation.controller';
+import { authMiddleware, optionalAuthMiddleware } from '../middlewares/auth.middleware';
 import { roleGuard } from '../middlewares/role.guard';
-import { upload } from '../utils/cloudinary.util';
+import { upload } from '../utils/storage.util';
 
 const router = express.Router();
 
@@ -13,8 +17,22 @@ router.get('/search', partController.searchParts.bind(partController));
 router.get('/compatible', partController.findCompatibleParts.bind(partController));
 router.get('/popular', partController.getPopularParts.bind(partController));
 router.get('/brands', partController.getTopBrands.bind(partController));
-router.get('/:partId', partController.getPartById.bind(partController));
+router.get('/barcode/:code', partController.getPartsByBarcode.bind(partController));
+router.get('/compare', optionalAuthMiddleware, partController.compareParts.bind(partController));
+// Customer recommendations, registered ahead of /:partId so the path isn't read as an ID
+router.get(
+  '/recommendations',
+  authMiddleware,
+  roleGuard([UserRole.CUSTOMER]),
+  recommendationController.getRecommendations.bind(recommendationController)
+);
+router.get('/:partId', optionalAuthMiddleware, partController.getPartById.bind(partController));
+router.get('/:partId/offers', optionalAuthMiddleware, partController.getOffers.bind(partController));
 router.get('/:partId/related', partController.getRelatedParts.bind(partController));
+router.get('/:partId/price-history', partController.getPriceHistory.bind(partController));
+router.get('/:partId/bought-together', partController.getBoughtTogether.bind(partController));
+router.get('/:partId/fitments', fitmentController.getPartFitments.bind(fitmentController));
+router.get('/:partId/reviews', partReviewController.getPartReviews.bind(partReviewController));
 
 // Customer-only routes
 router.use('/recently-viewed', authMiddleware);
@@ -32,6 +50,88 @@ router.put('/:partId', upload.array('images', 10), partController.updatePart.bin
 router.delete('/:partId', partController.deletePart.bind(partController));
 router.put('/:partId/stock', partController.updateStock.bind(partController));
 
+// Vehicle fitment management (vendors can only manage their own parts)
+router.post(
+  '/:partId/fitments',
+  authMiddleware,
+  roleGuard([UserRole.ADMIN, UserRole.VENDOR]),
+  fitmentController.createFitment.bind(fitmentController)
+);
+router.put(
+  '/:partId/fitments',
+  authMiddleware,
+  roleGuard([UserRole.ADMIN, UserRole.VENDOR]),
+  fitmentController.replacePartFitments.bind(fitmentController)
+);
+router.put(
+  '/:partId/fitments/:fitmentId',
+  authMiddleware,
+  roleGuard([UserRole.ADMIN, UserRole.VENDOR]),
+  fitmentController.updateFitment.bind(fitmentController)
+);
+router.delete(
+  '/:partId/fitments/:fitmentId',
+  authMiddleware,
+  roleGuard([UserRole.ADMIN, UserRole.VENDOR]),
+  fitmentController.deleteFitment.bind(fitmentController)
+);
+
+// Back-in-stock alerts
+router.post(
+  '/:partId/stock-alerts',
+  authMiddleware,
+  roleGuard([UserRole.CUSTOMER]),
+  stockAlertController.subscribe.bind(stockAlertController)
+);
+router.delete(
+  '/:partId/stock-alerts',
+  authMiddleware,
+  roleGuard([UserRole.CUSTOMER]),
+  stockAlertController.unsubscribe.bind(stockAlertController)
+);
+
+// Part reviews (customers review, vendors reply, admins moderate)
+router.post(
+  '/:partId/reviews',
+  authMiddleware,
+  roleGuard([UserRole.CUSTOMER]),
+  upload.array('images', 5),
+  partReviewController.createReview.bind(partReviewController)
+);
+router.put(
+  '/:partId/reviews/:reviewId',
+  authMiddleware,
+  roleGuard([UserRole.CUSTOMER]),
+  upload.array('images', 5),
+  partReviewController.updateReview.bind(partReviewController)
+);
+router.delete(
+  '/:partId/reviews/:reviewId',
+  authMiddleware,
+  roleGuard([UserRole.CUSTOMER, UserRole.ADMIN]),
+  partReviewController.deleteReview.bind(partReviewController)
+);
+router.put(
+  '/:partId/reviews/:reviewId/reply',
+  authMiddleware,
+  roleGuard([UserRole.VENDOR]),
+  partReviewController.replyToReview.bind(partReviewController)
+);
+router.patch(
+  '/:partId/reviews/:reviewId/moderate',
+  authMiddleware,
+  roleGuard([UserRole.ADMIN]),
+  partReviewController.moderateReview.bind(partReviewController)
+);
+
+// Manual rebuild of the frequently-bought-together index (it also rebuilds on a schedule)
+router.post(
+  '/bought-together/rebuild',
+  authMiddleware,
+  roleGuard([UserRole.ADMIN]),
+  partController.rebuildBoughtTogether.bind(partController)
+);
+
 // Pricing management
 router.put('/:partId/discount', partController.applyDiscount.bind(partController));
 router.delete('/:partId/discount', partController.removeDiscount.bind(partController));
@@ -2,6 +2,7 @@ import express from 'express';
 import paymentController from '../controllers/payment.controller';
 import { authMiddleware } from '../middlewares/auth.middleware';
 import { roleGuard } from '../middlewares/role.guard';
+import { idempotencyMiddleware } from '../middlewares/idempotency.middleware';
 import { UserRole } from '@prisma/client';
 
 const router = express.Router();
@@ -19,7 +20,7 @@ router.put('/methods/default', paymentController.setDefaultPaymentMethod);
 router.delete('/methods/:customerId/:paymentMethodId', paymentController.deletePaymentMethod);
 
 // Payment processing
-router.post('/initialize', paymentController.initializePayment);
+router.post('/initialize', idempotencyMiddleware, paymentController.initializePayment);
 router.post('/verify', paymentController.verifyPayment);
 
 // Transaction history
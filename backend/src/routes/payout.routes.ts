@@ -2,6 +2,7 @@ import express from 'express';
 import payoutController from '../controllers/payout.controller';
 import { authMiddleware } from '../middlewares/auth.middleware';
 import { roleGuard } from '../middlewares/role.guard';
+import { idempotencyMiddleware } from '../middlewares/idempotency.middleware';
 import { UserRole } from '@prisma/client';
 
 const router = express.Router();
@@ -22,7 +23,7 @@ router.get('/eligibility', payoutController.checkPayoutEligibility);
 router.get('/balance', payoutController.getAvailableBalance);
 
 // Request a payout
-router.post('/request', payoutController.requestPayout);
+router.post('/request', idempotencyMiddleware, payoutController.requestPayout);
 
 // Get payout requests (already has role-based filtering in controller)
 router.get('/requests', payoutController.getPayoutRequests);
@@ -0,0 +1,36 @@
+import express from 'express';
+import { UserRole } from '@prisma/client';
+import returnController from '../controllers/return.controller';
+import { authMiddleware } from '../middlewares/auth.middleware';
+import { roleGuard } from '../middlewares/role.guard';
+import { upload } from '../utils/storage.util';
+
+const router = express.Router();
+
+router.use(authMiddleware);
+
+// Customers request returns with up to 5 photos of the item
+router.post(
+  '/',
+  roleGuard([UserRole.CUSTOMER]),
+  upload.array('images', 5),
+  returnController.createReturn.bind(returnController)
+);
+router.get('/my-returns', roleGuard([UserRole.CUSTOMER]), returnController.getMyReturns.bind(returnController));
+router.get('/vendor', roleGuard([UserRole.VENDOR]), returnController.getVendorReturns.bind(returnController));
+router.get('/:returnId', returnController.getReturn.bind(returnController));
+router.post('/:returnId/cancel', roleGuard([UserRole.CUSTOMER]), returnController.cancelReturn.bind(returnController));
+
+// Vendors (or admins) approve, reject and receive returns
+router.patch(
+  '/:returnId/review',
+  roleGuard([UserRole.VENDOR, UserRole.ADMIN]),
+  returnController.reviewReturn.bind(returnController)
+);
+router.post(
+  '/:returnId/receive',
+  roleGuard([UserRole.VENDOR, UserRole.ADMIN]),
+  returnController.receiveReturn.bind(returnController)
+);
+
+export default router;
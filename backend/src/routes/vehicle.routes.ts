@@ -14,6 +14,9 @@ router.use(roleGuard([UserRole.CUSTOMER]));
 router.get('/', vehicleController.getAllVehicles.bind(vehicleController));
 router.post('/', vehicleController.createVehicle.bind(vehicleController));
 
+// Decode a VIN without saving a vehicle
+router.post('/decode-vin', vehicleController.decodeVin.bind(vehicleController));
+
 // Default vehicle operations
 router.get('/default', vehicleController.getDefaultVehicle.bind(vehicleController));
 router.put('/:vehicleId/default', vehicleController.setDefaultVehicle.bind(vehicleController));
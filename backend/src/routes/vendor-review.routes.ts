@@ -0,0 +1,44 @@
+import express from 'express';
+import { UserRole } from '@prisma/client';
+import vendorReviewController from '../controllers/vendor-review.controller';
+import { authMiddleware } from '../middlewares/auth.middleware';
+import { roleGuard } from '../middlewares/role.guard';
+import { upload } from '../utils/storage.util';
+
+const router = express.Router();
+
+// Published reviews are read through /api/vendors/public/:vendorId/reviews
+router.use(authMiddleware);
+
+// Admin moderation queue
+router.get(
+  '/moderation',
+  roleGuard([UserRole.ADMIN]),
+  vendorReviewController.getModerationQueue.bind(vendorReviewController)
+);
+router.patch(
+  '/:reviewId/moderate',
+  roleGuard([UserRole.ADMIN]),
+  vendorReviewController.moderateReview.bind(vendorReviewController)
+);
+
+// Customer reviews of completed orders
+router.get(
+  '/mine',
+  roleGuard([UserRole.CUSTOMER]),
+  vendorReviewController.getMyReviews.bind(vendorReviewController)
+);
+router.post(
+  '/',
+  roleGuard([UserRole.CUSTOMER]),
+  upload.array('images', 5),
+  vendorReviewController.createReview.bind(vendorReviewController)
+);
+router.put(
+  '/:reviewId',
+  roleGuard([UserRole.CUSTOMER]),
+  upload.array('images', 5),
+  vendorReviewController.updateReview.bind(vendorReviewController)
+);
+
+export default router;
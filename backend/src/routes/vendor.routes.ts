@@ -2,7 +2,7 @@ import express from 'express';
 import { authMiddleware } from '../middlewares/auth.middleware';
 import { roleGuard } from '../middlewares/role.guard';
 import vendorController from '../controllers/vendor.controller';
-import { upload } from '../utils/cloudinary.util';
+import { upload } from '../utils/storage.util';
 import { UserRole } from '@prisma/client';
 
 const router = express.Router();
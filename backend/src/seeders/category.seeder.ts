@@ -1,5 +1,6 @@
 import { PrismaClient, Prisma } from '@prisma/client';
 import { v4 as uuidv4 } from 'uuid';
+import { slugify } from '../utils/slug.util';
 
 const prisma = new PrismaClient();
 
@@ -66,7 +67,8 @@ const mainCategories = [
     name: 'Filters & Fluids',
     description: 'Replacement filters and automotive fluids',
     image: 'https://example.com/images/categories/filters.jpg',
-    commissionRate: 12.0
+    commissionRate: 12.0,
+    isConsumable: true
   }
 ];
 
@@ -131,6 +133,7 @@ const subCategories = [
     description: 'Replacement brake pads and shoes for all vehicle types',
     image: 'https://example.com/images/categories/brake-pads.jpg',
     commissionRate: 8.0,
+    isConsumable: true,
     parentCategory: 'Brake System'
   },
   {
@@ -230,6 +233,7 @@ const thirdLevelCategories = [
     description: 'High-quality ceramic compound brake pads',
     image: 'https://example.com/images/categories/ceramic-pads.jpg',
     commissionRate: 7.5,
+    isConsumable: true,
     parentCategory: 'Brake Pads & Shoes'
   },
   {
@@ -238,6 +242,7 @@ const thirdLevelCategories = [
     description: 'Semi-metallic and metallic compound brake pads',
     image: 'https://example.com/images/categories/metallic-pads.jpg',
     commissionRate: 7.5,
+    isConsumable: true,
     parentCategory: 'Brake Pads & Shoes'
   }
 ];
@@ -259,14 +264,17 @@ export async function seedCategories() {
         update: {
           description: category.description,
           image: category.image,
-          commissionRate: category.commissionRate
+          commissionRate: category.commissionRate,
+          isConsumable: category.isConsumable ?? false
         },
         create: {
           id: category.id,
           name: category.name,
+          slug: slugify(category.name),
           description: category.description,
           image: category.image,
-          commissionRate: category.commissionRate
+          commissionRate: category.commissionRate,
+          isConsumable: category.isConsumable ?? false
         }
       });
       
@@ -293,14 +301,17 @@ export async function seedCategories() {
           description: subCategory.description,
           image: subCategory.image,
           commissionRate: subCategory.commissionRate,
+          isConsumable: subCategory.isConsumable ?? false,
           parentId: parentId
         },
         create: {
           id: subCategory.id,
           name: subCategory.name,
+          slug: slugify(subCategory.name),
           description: subCategory.description,
           image: subCategory.image,
           commissionRate: subCategory.commissionRate,
+          isConsumable: subCategory.isConsumable ?? false,
           parentId: parentId
         }
       });
@@ -328,14 +339,17 @@ export async function seedCategories() {
           description: thirdCategory.description,
           image: thirdCategory.image,
           commissionRate: thirdCategory.commissionRate,
+          isConsumable: thirdCategory.isConsumable ?? false,
           parentId: parentId
         },
         create: {
           id: thirdCategory.id,
           name: thirdCategory.name,
+          slug: slugify(thirdCategory.name),
           description: thirdCategory.description,
           image: thirdCategory.image,
           commissionRate: thirdCategory.commissionRate,
+          isConsumable: thirdCategory.isConsumable ?? false,
           parentId: parentId
         }
       });
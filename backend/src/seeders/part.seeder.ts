@@ -1,4 +1,4 @@
-import { PrismaClient, PartCondition } from '@prisma/client';
+import { PrismaClient, PartCondition, PriceChangeSource } from '@prisma/client';
 import { v4 as uuidv4 } from 'uuid';
 import { seedCategories } from './category.seeder';
 
@@ -78,41 +78,12 @@ export async function seedParts() {
         fitment: 'Direct OEM replacement',
         includes: 'Hardware kit, lubricant'
       },
-      compatibleVehicles: [
+      fitments: [
         {
           make: 'Toyota',
           model: 'Camry',
-          year: 2018,
-          makeModel: 'Toyota|Camry',
-          makeModelYear: 'Toyota|Camry|2018'
-        },
-        {
-          make: 'Toyota',
-          model: 'Camry',
-          year: 2019,
-          makeModel: 'Toyota|Camry',
-          makeModelYear: 'Toyota|Camry|2019'
-        },
-        {
-          make: 'Toyota',
-          model: 'Camry',
-          year: 2020,
-          makeModel: 'Toyota|Camry',
-          makeModelYear: 'Toyota|Camry|2020'
-        },
-        {
-          make: 'Toyota',
-          model: 'Camry',
-          year: 2021,
-          makeModel: 'Toyota|Camry',
-          makeModelYear: 'Toyota|Camry|2021'
-        },
-        {
-          make: 'Toyota',
-          model: 'Camry',
-          year: 2022,
-          makeModel: 'Toyota|Camry',
-          makeModelYear: 'Toyota|Camry|2022'
+          yearFrom: 2018,
+          yearTo: 2022
         }
       ],
       weight: 2.8,
@@ -141,41 +112,12 @@ export async function seedParts() {
         fitment: 'Direct OEM replacement',
         includes: 'Hardware kit'
       },
-      compatibleVehicles: [
-        {
-          make: 'Honda',
-          model: 'Accord',
-          year: 2016,
-          makeModel: 'Honda|Accord',
-          makeModelYear: 'Honda|Accord|2016'
-        },
-        {
-          make: 'Honda',
-          model: 'Accord',
-          year: 2017,
-          makeModel: 'Honda|Accord',
-          makeModelYear: 'Honda|Accord|2017'
-        },
-        {
-          make: 'Honda',
-          model: 'Accord',
-          year: 2018,
-          makeModel: 'Honda|Accord',
-          makeModelYear: 'Honda|Accord|2018'
-        },
-        {
-          make: 'Honda',
-          model: 'Accord',
-          year: 2019,
-          makeModel: 'Honda|Accord',
-          makeModelYear: 'Honda|Accord|2019'
-        },
+      fitments: [
         {
           make: 'Honda',
           model: 'Accord',
-          year: 2020,
-          makeModel: 'Honda|Accord',
-          makeModelYear: 'Honda|Accord|2020'
+          yearFrom: 2016,
+          yearTo: 2020
         }
       ],
       weight: 3.1,
@@ -206,46 +148,20 @@ export async function seedParts() {
         includes: 'Complete 8-cylinder set',
         warranty: '12 months'
       },
-      compatibleVehicles: [
-        {
-          make: 'Ford',
-          model: 'F-150',
-          year: 2018,
-          makeModel: 'Ford|F-150',
-          makeModelYear: 'Ford|F-150|2018',
-          engineSize: '5.0L V8'
-        },
+      fitments: [
         {
           make: 'Ford',
           model: 'F-150',
-          year: 2019,
-          makeModel: 'Ford|F-150',
-          makeModelYear: 'Ford|F-150|2019',
-          engineSize: '5.0L V8'
-        },
-        {
-          make: 'Ford',
-          model: 'F-150',
-          year: 2020,
-          makeModel: 'Ford|F-150',
-          makeModelYear: 'Ford|F-150|2020',
-          engineSize: '5.0L V8'
+          yearFrom: 2018,
+          yearTo: 2020,
+          engine: '5.0L V8'
         },
         {
           make: 'Ford',
           model: 'Mustang GT',
-          year: 2018,
-          makeModel: 'Ford|Mustang GT',
-          makeModelYear: 'Ford|Mustang GT|2018',
-          engineSize: '5.0L V8'
-        },
-        {
-          make: 'Ford',
-          model: 'Mustang GT',
-          year: 2019,
-          makeModel: 'Ford|Mustang GT',
-          makeModelYear: 'Ford|Mustang GT|2019',
-          engineSize: '5.0L V8'
+          yearFrom: 2018,
+          yearTo: 2019,
+          engine: '5.0L V8'
         }
       ],
       weight: 0.9,
@@ -277,55 +193,12 @@ export async function seedParts() {
         construction: 'Aluminum body with steel internals',
         warranty: '36 months or 36,000 miles'
       },
-      compatibleVehicles: [
-        {
-          make: 'Subaru',
-          model: 'WRX',
-          year: 2015,
-          makeModel: 'Subaru|WRX',
-          makeModelYear: 'Subaru|WRX|2015'
-        },
-        {
-          make: 'Subaru',
-          model: 'WRX',
-          year: 2016,
-          makeModel: 'Subaru|WRX',
-          makeModelYear: 'Subaru|WRX|2016'
-        },
-        {
-          make: 'Subaru',
-          model: 'WRX',
-          year: 2017,
-          makeModel: 'Subaru|WRX',
-          makeModelYear: 'Subaru|WRX|2017'
-        },
-        {
-          make: 'Subaru',
-          model: 'WRX',
-          year: 2018,
-          makeModel: 'Subaru|WRX',
-          makeModelYear: 'Subaru|WRX|2018'
-        },
+      fitments: [
         {
           make: 'Subaru',
           model: 'WRX',
-          year: 2019,
-          makeModel: 'Subaru|WRX',
-          makeModelYear: 'Subaru|WRX|2019'
-        },
-        {
-          make: 'Subaru',
-          model: 'WRX',
-          year: 2020,
-          makeModel: 'Subaru|WRX',
-          makeModelYear: 'Subaru|WRX|2020'
-        },
-        {
-          make: 'Subaru',
-          model: 'WRX',
-          year: 2021,
-          makeModel: 'Subaru|WRX',
-          makeModelYear: 'Subaru|WRX|2021'
+          yearFrom: 2015,
+          yearTo: 2021
         }
       ],
       weight: 8.4,
@@ -356,104 +229,18 @@ export async function seedParts() {
         mounting: 'Direct bolt-on',
         warranty: '24 months unlimited mileage'
       },
-      compatibleVehicles: [
-        {
-          make: 'Chevrolet',
-          model: 'Silverado 1500',
-          year: 2014,
-          makeModel: 'Chevrolet|Silverado 1500',
-          makeModelYear: 'Chevrolet|Silverado 1500|2014'
-        },
-        {
-          make: 'Chevrolet',
-          model: 'Silverado 1500',
-          year: 2015,
-          makeModel: 'Chevrolet|Silverado 1500',
-          makeModelYear: 'Chevrolet|Silverado 1500|2015'
-        },
-        {
-          make: 'Chevrolet',
-          model: 'Silverado 1500',
-          year: 2016,
-          makeModel: 'Chevrolet|Silverado 1500',
-          makeModelYear: 'Chevrolet|Silverado 1500|2016'
-        },
+      fitments: [
         {
           make: 'Chevrolet',
           model: 'Silverado 1500',
-          year: 2017,
-          makeModel: 'Chevrolet|Silverado 1500',
-          makeModelYear: 'Chevrolet|Silverado 1500|2017'
-        },
-        {
-          make: 'Chevrolet',
-          model: 'Silverado 1500',
-          year: 2018,
-          makeModel: 'Chevrolet|Silverado 1500',
-          makeModelYear: 'Chevrolet|Silverado 1500|2018'
-        },
-        {
-          make: 'Chevrolet',
-          model: 'Silverado 1500',
-          year: 2019,
-          makeModel: 'Chevrolet|Silverado 1500',
-          makeModelYear: 'Chevrolet|Silverado 1500|2019'
-        },
-        {
-          make: 'Chevrolet',
-          model: 'Silverado 1500',
-          year: 2020,
-          makeModel: 'Chevrolet|Silverado 1500',
-          makeModelYear: 'Chevrolet|Silverado 1500|2020'
-        },
-        {
-          make: 'GMC',
-          model: 'Sierra 1500',
-          year: 2014,
-          makeModel: 'GMC|Sierra 1500',
-          makeModelYear: 'GMC|Sierra 1500|2014'
+          yearFrom: 2014,
+          yearTo: 2020
         },
         {
           make: 'GMC',
           model: 'Sierra 1500',
-          year: 2015,
-          makeModel: 'GMC|Sierra 1500',
-          makeModelYear: 'GMC|Sierra 1500|2015'
-        },
-        {
-          make: 'GMC',
-          model: 'Sierra 1500',
-          year: 2016,
-          makeModel: 'GMC|Sierra 1500',
-          makeModelYear: 'GMC|Sierra 1500|2016'
-        },
-        {
-          make: 'GMC',
-          model: 'Sierra 1500',
-          year: 2017,
-          makeModel: 'GMC|Sierra 1500',
-          makeModelYear: 'GMC|Sierra 1500|2017'
-        },
-        {
-          make: 'GMC',
-          model: 'Sierra 1500',
-          year: 2018,
-          makeModel: 'GMC|Sierra 1500',
-          makeModelYear: 'GMC|Sierra 1500|2018'
-        },
-        {
-          make: 'GMC',
-          model: 'Sierra 1500',
-          year: 2019,
-          makeModel: 'GMC|Sierra 1500',
-          makeModelYear: 'GMC|Sierra 1500|2019'
-        },
-        {
-          make: 'GMC',
-          model: 'Sierra 1500',
-          year: 2020,
-          makeModel: 'GMC|Sierra 1500',
-          makeModelYear: 'GMC|Sierra 1500|2020'
+          yearFrom: 2014,
+          yearTo: 2020
         }
       ],
       weight: 7.6,
@@ -491,10 +278,13 @@ export async function seedParts() {
           stockQuantity: part.stockQuantity,
           lowStockAlert: part.lowStockAlert,
           specifications: part.specifications,
-          compatibleVehicles: part.compatibleVehicles,
           weight: part.weight,
           dimensions: part.dimensions,
-          tags: part.tags
+          tags: part.tags,
+          fitments: {
+            deleteMany: {},
+            create: part.fitments
+          }
         },
         create: {
           id: partId,
@@ -510,13 +300,23 @@ export async function seedParts() {
           stockQuantity: part.stockQuantity,
           lowStockAlert: part.lowStockAlert,
           specifications: part.specifications,
-          compatibleVehicles: part.compatibleVehicles,
           weight: part.weight,
           dimensions: part.dimensions,
           categoryId: categoryId,
           vendorId: defaultVendor.id,
           tags: part.tags,
-          isActive: true
+          isActive: true,
+          fitments: {
+            create: part.fitments
+          },
+          priceHistory: {
+            create: {
+              price: part.price,
+              discountedPrice: part.discountedPrice,
+              effectivePrice: part.discountedPrice ?? part.price,
+              source: PriceChangeSource.CREATED
+            }
+          }
         }
       });
       
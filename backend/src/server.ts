@@ -4,6 +4,10 @@ import cors from 'cors';
 import { Server as HttpServer } from 'http';
 import { Server as SocketServer } from 'socket.io';
 import messageService from './services/message.service';
+import boughtTogetherService from './services/bought-together.service';
+import stockReservationService from './services/stock-reservation.service';
+import idempotencyService from './services/idempotency.service';
+import disputeService from './services/dispute.service';
 
 dotenv.config();
 
@@ -44,4 +48,10 @@ server.listen(PORT, () => {
     console.log(`Server running on http://localhost:${PORT}`);
     console.log(`Socket.IO server running on ws://localhost:${PORT}`);
     console.log(`Server time: ${new Date().toLocaleString('en-US', { timeZone: process.env.TZ })}`);
+
+    // Background jobs
+    boughtTogetherService.scheduleRebuild();
+    stockReservationService.scheduleSweep();
+    idempotencyService.scheduleCleanup();
+    disputeService.scheduleDeadlineCheck();
 });
\ No newline at end of file
@@ -0,0 +1,148 @@
+import { PrismaClient, Part } from '@prisma/client';
+import { NotFoundException } from '../utils/exceptions.util';
+
+export interface BoughtTogetherItem {
+  part: Part;
+  coPurchaseCount: number;
+  score: number;
+}
+
+// Pairs seen in fewer orders than this are treated as coincidence
+const MIN_CO_PURCHASES = 2;
+
+const REBUILD_INTERVAL_MS = 6 * 60 * 60 * 1000;
+
+export class BoughtTogetherService {
+  private prisma: PrismaClient;
+  private isRebuilding = false;
+  private rebuildTimer: NodeJS.Timeout | null = null;
+
+  constructor() {
+    this.prisma = new PrismaClient();
+  }
+
+  /**
+   * Parts most often bought in the same order as the given part, best match first
+   */
+  async getBoughtTogether(partId: string, limit: number = 5): Promise<BoughtTogetherItem[]> {
+    const part = await this.prisma.part.findUnique({
+      where: { id: partId },
+      select: { id: true }
+    });
+
+    if (!part) {
+      throw new NotFoundException('Part not found');
+    }
+
+    const coPurchases = await this.prisma.partCoPurchase.findMany({
+      where: {
+        partId,
+        relatedPart: { isActive: true, stockQuantity: { gt: 0 } }
+      },
+      include: {
+        relatedPart: {
+          include: {
+            category: {
+              select: {
+                id: true,
+                name: true
+              }
+            },
+            vendor: {
+              select: {
+                id: true,
+                businessName: true,
+                businessLogo: true,
+                rating: true
+              }
+            }
+          }
+        }
+      },
+      orderBy: { score: 'desc' },
+      take: limit
+    });
+
+    return coPurchases.map(coPurchase => ({
+      part: coPurchase.relatedPart,
+      coPurchaseCount: coPurchase.coPurchaseCount,
+      score: coPurchase.score
+    }));
+  }
+
+  /**
+   * Rebuild the co-purchase index from non-cancelled orders. A pair's score is
+   * its co-purchase count divided by the geometric mean of each part's order
+   * count, so best-sellers don't pair with everything.
+   * Returns the number of pairs written, or null if a rebuild is already running.
+   */
+  async rebuildIndex(): Promise<number | null> {
+    if (this.isRebuilding) {
+      return null;
+    }
+
+    this.isRebuilding = true;
+
+    try {
+      const [, inserted] = await this.prisma.$transaction([
+        this.prisma.partCoPurchase.deleteMany({}),
+        this.prisma.$executeRaw`
+          WITH order_parts AS (
+            SELECT DISTINCT oi."orderId", oi."partId"
+            FROM "OrderItem" oi
+            JOIN "Order" o ON o."id" = oi."orderId"
+            WHERE o."isCancelled" = false
+          ),
+          part_orders AS (
+            SELECT "partId", COUNT(*) AS "orders"
+            FROM order_parts
+            GROUP BY "partId"
+          ),
+          pairs AS (
+            SELECT a."partId", b."partId" AS "relatedPartId", COUNT(*) AS "coPurchases"
+            FROM order_parts a
+            JOIN order_parts b ON b."orderId" = a."orderId" AND b."partId" <> a."partId"
+            GROUP BY a."partId", b."partId"
+            HAVING COUNT(*) >= ${MIN_CO_PURCHASES}
+          )
+          INSERT INTO "PartCoPurchase" ("id", "partId", "relatedPartId", "coPurchaseCount", "score", "updatedAt")
+          SELECT gen_random_uuid()::text, pairs."partId", pairs."relatedPartId", pairs."coPurchases"::integer,
+            pairs."coPurchases" / sqrt(source."orders" * related."orders"), now()
+          FROM pairs
+          JOIN part_orders source ON source."partId" = pairs."partId"
+          JOIN part_orders related ON related."partId" = pairs."relatedPartId"
+        `
+      ]);
+
+      return inserted;
+    } finally {
+      this.isRebuilding = false;
+    }
+  }
+
+  /**
+   * Rebuild the index now and then on a fixed interval. Errors are logged so a
+   * failed run doesn't stop the next one.
+   */
+  scheduleRebuild(intervalMs: number = REBUILD_INTERVAL_MS): void {
+    if (this.rebuildTimer) {
+      return;
+    }
+
+    const run = () => {
+      this.rebuildIndex()
+        .then(pairs => {
+          if (pairs !== null) {
+            console.log(`Bought-together index rebuilt with ${pairs} pairs`);
+          }
+        })
+        .catch(error => console.error('Failed to rebuild bought-together index:', error));
+    };
+
+    run();
+    this.rebuildTimer = setInterval(run, intervalMs);
+    this.rebuildTimer.unref();
+  }
+}
+
+export default new BoughtTogetherService();
@@ -0,0 +1,413 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import { v4 as uuidv4, validate as isUuid } from 'uuid';
+import { BadRequestException, NotFoundException } from '../utils/exceptions.util';
+
+/**
+ * Whose cart a request is for: a signed-in customer, or a guest holding the
+ * token handed out when their cart was created
+ */
+export interface CartOwner {
+  userId?: string;
+  guestToken?: string;
+}
+
+export type CartIssue = 'PRICE_CHANGED' | 'INSUFFICIENT_STOCK' | 'OUT_OF_STOCK' | 'UNAVAILABLE';
+
+export interface CartLine {
+  id: string;
+  partId: string;
+  name: string;
+  partNumber: string | null;
+  image: string | null;
+  vendor: { id: string; businessName: string };
+  quantity: number;
+  price: number;
+  discountedPrice: number | null;
+  unitPrice: number;
+  priceWhenAdded: number;
+  lineTotal: number;
+  stockQuantity: number;
+  isActive: boolean;
+  issues: CartIssue[];
+}
+
+export interface CartView {
+  id: string | null;
+  guestToken: string | null;
+  items: CartLine[];
+  summary: {
+    itemCount: number;
+    subtotal: number;
+    hasIssues: boolean;
+  };
+}
+
+const cartItemInclude = {
+  part: {
+    select: {
+      id: true,
+      name: true,
+      partNumber: true,
+      images: true,
+      price: true,
+      discountedPrice: true,
+      stockQuantity: true,
+      reservedQuantity: true,
+      isActive: true,
+      vendor: {
+        select: { id: true, businessName: true }
+      }
+    }
+  }
+} satisfies Prisma.CartItemInclude;
+
+type CartItemWithPart = Prisma.CartItemGetPayload<{ include: typeof cartItemInclude }>;
+
+export class CartService {
+  private prisma: PrismaClient;
+
+  constructor() {
+    this.prisma = new PrismaClient();
+  }
+
+  /**
+   * The cart with every line checked against the part as it is now. Lines whose
+   * price moved since they were added, that are short on stock or that can no
+   * longer be bought are flagged rather than dropped, so the customer can see
+   * what changed.
+   */
+  async getCart(owner: CartOwner): Promise<CartView> {
+    const cart = await this.findCart(owner);
+
+    if (!cart) {
+      return this.buildView(null, null, []);
+    }
+
+    const items = await this.prisma.cartItem.findMany({
+      where: { cartId: cart.id },
+      include: cartItemInclude,
+      orderBy: { createdAt: 'asc' }
+    });
+
+    return this.buildView(cart.id, cart.guestToken, items);
+  }
+
+  /**
+   * Add a part to the cart, or add to its quantity if it is already there.
+   * A guest without a cart gets a new one; its token is returned as
+   * `guestToken` and must be sent with later requests.
+   */
+  async addItem(owner: CartOwner, partId: string, quantity: number): Promise<CartView> {
+    if (typeof partId !== 'string' || !isUuid(partId)) {
+      throw new BadRequestException('A valid part ID is required');
+    }
+
+    this.validateQuantity(quantity, 1);
+
+    const part = await this.getPurchasablePart(partId);
+    const cart = await this.findOrCreateCart(owner);
+
+    const existing = await this.prisma.cartItem.findUnique({
+      where: { cartId_partId: { cartId: cart.id, partId } }
+    });
+
+    const newQuantity = (existing?.quantity ?? 0) + quantity;
+    const stockQuantity = this.availableStock(part);
+
+    if (newQuantity > stockQuantity) {
+      throw new BadRequestException(`Only ${stockQuantity} of ${part.name} in stock`);
+    }
+
+    await this.prisma.cartItem.upsert({
+      where: { cartId_partId: { cartId: cart.id, partId } },
+      create: {
+        cartId: cart.id,
+        partId,
+        quantity: newQuantity,
+        priceWhenAdded: this.effectivePrice(part)
+      },
+      update: {
+        quantity: newQuantity,
+        priceWhenAdded: this.effectivePrice(part)
+      }
+    });
+
+    return this.getCart({ ...owner, guestToken: cart.guestToken ?? undefined });
+  }
+
+  /**
+   * Set the quantity of a line; 0 removes it. The line's price snapshot is
+   * refreshed, which acknowledges any price change.
+   */
+  async updateItem(owner: CartOwner, partId: string, quantity: number): Promise<CartView> {
+    this.validateQuantity(quantity, 0);
+
+    const item = await this.getCartItem(owner, partId);
+
+    if (quantity === 0) {
+      await this.prisma.cartItem.delete({ where: { id: item.id } });
+      return this.getCart(owner);
+    }
+
+    const part = await this.getPurchasablePart(partId);
+    const stockQuantity = this.availableStock(part);
+
+    if (quantity > stockQuantity) {
+      throw new BadRequestException(`Only ${stockQuantity} of ${part.name} in stock`);
+    }
+
+    await this.prisma.cartItem.update({
+      where: { id: item.id },
+      data: {
+        quantity,
+        priceWhenAdded: this.effectivePrice(part)
+      }
+    });
+
+    return this.getCart(owner);
+  }
+
+  /**
+   * Remove a part from the cart
+   */
+  async removeItem(owner: CartOwner, partId: string): Promise<CartView> {
+    const item = await this.getCartItem(owner, partId);
+
+    await this.prisma.cartItem.delete({ where: { id: item.id } });
+
+    return this.getCart(owner);
+  }
+
+  /**
+   * Remove every line from the cart
+   */
+  async clearCart(owner: CartOwner): Promise<CartView> {
+    const cart = await this.findCart(owner);
+
+    if (cart) {
+      await this.prisma.cartItem.deleteMany({ where: { cartId: cart.id } });
+    }
+
+    return this.getCart(owner);
+  }
+
+  /**
+   * Move a guest cart into the customer's cart after they sign in. Quantities
+   * of parts in both are added together, capped at what is in stock, and the
+   * guest cart is deleted. Unknown tokens are ignored.
+   */
+  async mergeGuestCart(userId: string, guestToken: string): Promise<CartView> {
+    const guestCart = await this.prisma.cart.findUnique({
+      where: { guestToken },
+      include: { items: { include: { part: { select: { stockQuantity: true, reservedQuantity: true } } } } }
+    });
+
+    if (!guestCart) {
+      return this.getCart({ userId });
+    }
+
+    const customerCart = await this.findOrCreateCart({ userId });
+
+    await this.prisma.$transaction(async (tx) => {
+      for (const guestItem of guestCart.items) {
+        const existing = await tx.cartItem.findUnique({
+          where: { cartId_partId: { cartId: customerCart.id, partId: guestItem.partId } }
+        });
+
+        const quantity = Math.min(
+          (existing?.quantity ?? 0) + guestItem.quantity,
+          Math.max(this.availableStock(guestItem.part), existing?.quantity ?? 0)
+        );
+
+        if (existing) {
+          // Keep the customer's own snapshot so a price change since then is still flagged
+          await tx.cartItem.update({
+            where: { id: existing.id },
+            data: { quantity }
+          });
+        } else if (quantity > 0) {
+          await tx.cartItem.create({
+            data: {
+              cartId: customerCart.id,
+              partId: guestItem.partId,
+              quantity,
+              priceWhenAdded: guestItem.priceWhenAdded
+            }
+          });
+        }
+      }
+
+      await tx.cart.delete({ where: { id: guestCart.id } });
+    });
+
+    return this.getCart({ userId });
+  }
+
+  private buildView(cartId: string | null, guestToken: string | null, items: CartItemWithPart[]): CartView {
+    const lines = items.map(item => this.buildLine(item));
+    const purchasable = lines.filter(
+      line => !line.issues.includes('UNAVAILABLE') && !line.issues.includes('OUT_OF_STOCK')
+    );
+
+    return {
+      id: cartId,
+      guestToken,
+      items: lines,
+      summary: {
+        itemCount: purchasable.reduce((sum, line) => sum + line.quantity, 0),
+        subtotal: this.round(purchasable.reduce((sum, line) => sum + line.lineTotal, 0)),
+        hasIssues: lines.some(line => line.issues.length > 0)
+      }
+    };
+  }
+
+  private buildLine(item: CartItemWithPart): CartLine {
+    const { part } = item;
+    const unitPrice = this.effectivePrice(part);
+    const stockQuantity = this.availableStock(part);
+    const issues: CartIssue[] = [];
+
+    if (!part.isActive) {
+      issues.push('UNAVAILABLE');
+    } else if (stockQuantity <= 0) {
+      issues.push('OUT_OF_STOCK');
+    } else if (stockQuantity < item.quantity) {
+      issues.push('INSUFFICIENT_STOCK');
+    }
+
+    if (unitPrice !== item.priceWhenAdded) {
+      issues.push('PRICE_CHANGED');
+    }
+
+    return {
+      id: item.id,
+      partId: part.id,
+      name: part.name,
+      partNumber: part.partNumber,
+      image: part.images[0] ?? null,
+      vendor: { id: part.vendor.id, businessName: part.vendor.businessName },
+      quantity: item.quantity,
+      price: part.price,
+      discountedPrice: part.discountedPrice,
+      unitPrice,
+      priceWhenAdded: item.priceWhenAdded,
+      lineTotal: this.round(unitPrice * Math.min(item.quantity, Math.max(stockQuantity, 0))),
+      stockQuantity,
+      isActive: part.isActive,
+      issues
+    };
+  }
+
+  /**
+   * The price an order would charge for the part, matching OrderService
+   */
+  private effectivePrice(part: { price: number; discountedPrice: number | null }): number {
+    return part.discountedPrice || part.price;
+  }
+
+  /**
+   * Stock left once holds for other customers' pending payments are set aside
+   */
+  private availableStock(part: { stockQuantity: number; reservedQuantity: number }): number {
+    return part.stockQuantity - part.reservedQuantity;
+  }
+
+  private round(amount: number): number {
+    return Math.round(amount * 100) / 100;
+  }
+
+  private validateQuantity(quantity: number, min: number): void {
+    if (!Number.isInteger(quantity) || quantity < min) {
+      throw new BadRequestException(
+        min === 0 ? 'Quantity must be a whole number of 0 or more' : 'Quantity must be a positive whole number'
+      );
+    }
+  }
+
+  private async getPurchasablePart(partId: string) {
+    const part = await this.prisma.part.findUnique({
+      where: { id: partId },
+      select: {
+        id: true,
+        name: true,
+        price: true,
+        discountedPrice: true,
+        stockQuantity: true,
+        reservedQuantity: true,
+        isActive: true
+      }
+    });
+
+    if (!part) {
+      throw new NotFoundException('Part not found');
+    }
+
+    if (!part.isActive) {
+      throw new BadRequestException(`${part.name} is not available`);
+    }
+
+    return part;
+  }
+
+  private async getCartItem(owner: CartOwner, partId: string) {
+    const cart = await this.findCart(owner);
+    const item = cart
+      ? await this.prisma.cartItem.findUnique({ where: { cartId_partId: { cartId: cart.id, partId } } })
+      : null;
+
+    if (!item) {
+      throw new NotFoundException('Part is not in the cart');
+    }
+
+    return item;
+  }
+
+  private async getCustomerId(userId: string): Promise<string> {
+    const customer = await this.prisma.customer.findUnique({
+      where: { userId },
+      select: { id: true }
+    });
+
+    if (!customer) {
+      throw new NotFoundException('Customer profile not found');
+    }
+
+    return customer.id;
+  }
+
+  private async findCart(owner: CartOwner) {
+    if (owner.userId) {
+      const customerId = await this.getCustomerId(owner.userId);
+      return this.prisma.cart.findUnique({ where: { customerId } });
+    }
+
+    if (owner.guestToken) {
+      return this.prisma.cart.findUnique({ where: { guestToken: owner.guestToken } });
+    }
+
+    return null;
+  }
+
+  private async findOrCreateCart(owner: CartOwner) {
+    const cart = await this.findCart(owner);
+
+    if (cart) {
+      return cart;
+    }
+
+    // Upsert so two first requests at once share one cart instead of colliding
+    if (owner.userId) {
+      const customerId = await this.getCustomerId(owner.userId);
+      return this.prisma.cart.upsert({
+        where: { customerId },
+        create: { customerId },
+        update: {}
+      });
+    }
+
+    // An unknown guest token is replaced rather than trusted, so tokens are always server-issued
+    return this.prisma.cart.create({ data: { guestToken: uuidv4() } });
+  }
+}
+
+export default new CartService();
@@ -0,0 +1,456 @@
+import { PrismaClient, CategoryAttribute, AttributeType, Prisma } from '@prisma/client';
+import { BadRequestException, ConflictException, NotFoundException } from '../utils/exceptions.util';
+
+interface CategoryAttributeDto {
+  key?: string;
+  name: string;
+  type: AttributeType;
+  unit?: string | null;
+  allowedValues?: string[];
+  aliases?: string[];
+  isRequired?: boolean;
+  sortOrder?: number;
+}
+
+export interface SpecFilter {
+  key: string;
+  values?: string[];
+  min?: number;
+  max?: number;
+}
+
+export interface SpecFilterOption {
+  key: string;
+  name: string;
+  type: AttributeType;
+  unit: string | null;
+  values?: string[];
+  min?: number | null;
+  max?: number | null;
+}
+
+type SpecValue = string | number | boolean;
+
+const TRUE_VALUES = ['true', 'yes', 'y', '1'];
+const FALSE_VALUES = ['false', 'no', 'n', '0'];
+
+/**
+ * Reduce a specification name to the key it is stored under,
+ * e.g. "Cold Cranking Amps" -> "cold_cranking_amps"
+ */
+export const normalizeSpecKey = (name: string): string =>
+  name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+
+export class CategoryAttributeService {
+  private prisma: PrismaClient;
+
+  constructor() {
+    this.prisma = new PrismaClient();
+  }
+
+  /**
+   * Get the specification schema for a category: its own attributes plus those
+   * inherited from its ancestors. A subcategory's attribute overrides an
+   * ancestor's attribute with the same key.
+   */
+  async getCategoryAttributes(categoryId: string): Promise<CategoryAttribute[]> {
+    const categoryIds = await this.getCategoryLineage(categoryId);
+
+    const attributes = await this.prisma.categoryAttribute.findMany({
+      where: { categoryId: { in: categoryIds } }
+    });
+
+    const byKey = new Map<string, CategoryAttribute>();
+
+    // Walk from the category up so the closest definition of a key wins
+    categoryIds.forEach(id => {
+      attributes
+        .filter(attribute => attribute.categoryId === id && !byKey.has(attribute.key))
+        .forEach(attribute => byKey.set(attribute.key, attribute));
+    });
+
+    return [...byKey.values()].sort((a, b) => a.sortOrder - b.sortOrder || a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Add an attribute to a category's specification schema
+   */
+  async createAttribute(categoryId: string, data: CategoryAttributeDto): Promise<CategoryAttribute> {
+    const category = await this.prisma.category.findUnique({
+      where: { id: categoryId },
+      select: { id: true }
+    });
+
+    if (!category) {
+      throw new NotFoundException('Category not found');
+    }
+
+    const attribute = this.prepareAttribute(data);
+    await this.ensureKeyAvailable(categoryId, attribute.key);
+
+    return this.prisma.categoryAttribute.create({
+      data: { ...attribute, categoryId }
+    });
+  }
+
+  /**
+   * Update an attribute. The key stays put unless a new one is given.
+   * Existing parts keep their stored values; the new rules apply the next
+   * time a part is saved.
+   */
+  async updateAttribute(
+    categoryId: string,
+    attributeId: string,
+    data: Partial<CategoryAttributeDto>
+  ): Promise<CategoryAttribute> {
+    const existing = await this.getAttribute(categoryId, attributeId);
+
+    const attribute = this.prepareAttribute({
+      key: data.key ?? existing.key,
+      name: data.name ?? existing.name,
+      type: data.type ?? existing.type,
+      unit: data.unit !== undefined ? data.unit : existing.unit,
+      allowedValues: data.allowedValues ?? existing.allowedValues,
+      aliases: data.aliases ?? existing.aliases,
+      isRequired: data.isRequired ?? existing.isRequired,
+      sortOrder: data.sortOrder ?? existing.sortOrder
+    });
+
+    if (attribute.key !== existing.key) {
+      await this.ensureKeyAvailable(categoryId, attribute.key);
+    }
+
+    return this.prisma.categoryAttribute.update({
+      where: { id: attributeId },
+      data: attribute
+    });
+  }
+
+  /**
+   * Remove an attribute from a category's specification schema
+   */
+  async deleteAttribute(categoryId: string, attributeId: string): Promise<void> {
+    await this.getAttribute(categoryId, attributeId);
+
+    await this.prisma.categoryAttribute.delete({
+      where: { id: attributeId }
+    });
+  }
+
+  /**
+   * Check a part's specifications against its category's schema and return
+   * them normalised: known attributes are stored under their key with typed
+   * values ("12V" becomes 12 for a voltage in V, "Yes" becomes true), while
+   * specifications the schema doesn't know are kept as entered.
+   * Every problem is reported at once. Returns undefined when there are no
+   * specifications and none are required.
+   */
+  async validateSpecifications(
+    categoryId: string,
+    specifications: unknown
+  ): Promise<Prisma.InputJsonObject | undefined> {
+    const attributes = await this.getCategoryAttributes(categoryId);
+    const errors: string[] = [];
+
+    if (specifications === undefined || specifications === null) {
+      attributes
+        .filter(attribute => attribute.isRequired)
+        .forEach(attribute => errors.push(`${attribute.name} is required`));
+
+      if (errors.length > 0) {
+        throw new BadRequestException(`Invalid specifications: ${errors.join('; ')}`);
+      }
+
+      return undefined;
+    }
+
+    if (typeof specifications !== 'object' || Array.isArray(specifications)) {
+      throw new BadRequestException('Specifications must be an object of name/value pairs');
+    }
+
+    if (attributes.length === 0) {
+      return specifications as Prisma.InputJsonObject;
+    }
+
+    // Accept an attribute under its key, display name or any alias
+    const lookup = new Map<string, CategoryAttribute>();
+    attributes.forEach(attribute => {
+      [attribute.key, attribute.name, ...attribute.aliases].forEach(name => {
+        lookup.set(normalizeSpecKey(name), attribute);
+      });
+    });
+
+    const result: Record<string, Prisma.InputJsonValue | null> = {};
+
+    Object.entries(specifications).forEach(([name, value]) => {
+      const attribute = lookup.get(normalizeSpecKey(name));
+
+      if (!attribute) {
+        result[name] = value as Prisma.InputJsonValue | null;
+        return;
+      }
+
+      if (value === undefined || value === null || value === '') {
+        return;
+      }
+
+      if (attribute.key in result) {
+        errors.push(`${attribute.name} is given more than once`);
+        return;
+      }
+
+      try {
+        result[attribute.key] = this.parseSpecValue(attribute, value);
+      } catch (error: any) {
+        errors.push(error.message);
+      }
+    });
+
+    attributes
+      .filter(attribute => attribute.isRequired && !(attribute.key in result))
+      .forEach(attribute => errors.push(`${attribute.name} is required`));
+
+    if (errors.length > 0) {
+      throw new BadRequestException(`Invalid specifications: ${errors.join('; ')}`);
+    }
+
+    return result;
+  }
+
+  /**
+   * Filters a shopper can apply within the given categories: the value range
+   * of each numeric attribute among active parts, and the allowed values of
+   * each enumerated or yes/no attribute
+   */
+  async getSpecFilterOptions(categoryIds: string[]): Promise<SpecFilterOption[]> {
+    const schemas = await Promise.all(categoryIds.map(id => this.getCategoryAttributes(id).catch(() => [])));
+
+    const byKey = new Map<string, CategoryAttribute>();
+    schemas.flat().forEach(attribute => {
+      if (!byKey.has(attribute.key)) {
+        byKey.set(attribute.key, attribute);
+      }
+    });
+
+    const attributes = [...byKey.values()].filter(attribute => attribute.type !== AttributeType.TEXT);
+
+    return Promise.all(
+      attributes.map(async attribute => {
+        const option: SpecFilterOption = {
+          key: attribute.key,
+          name: attribute.name,
+          type: attribute.type,
+          unit: attribute.unit
+        };
+
+        if (attribute.type === AttributeType.ENUM) {
+          return { ...option, values: attribute.allowedValues };
+        }
+
+        if (attribute.type === AttributeType.BOOLEAN) {
+          return { ...option, values: ['true', 'false'] };
+        }
+
+        const [range] = await this.prisma.$queryRaw<{ min: number | null; max: number | null }[]>`
+          SELECT MIN(("specifications"->>${attribute.key}::text)::double precision) AS "min",
+                 MAX(("specifications"->>${attribute.key}::text)::double precision) AS "max"
+          FROM "Part"
+          WHERE "categoryId" IN (${Prisma.join(categoryIds)})
+            AND "isActive" = true
+            AND jsonb_typeof("specifications"->${attribute.key}::text) = 'number'
+        `;
+
+        return { ...option, min: range?.min ?? null, max: range?.max ?? null };
+      })
+    );
+  }
+
+  /**
+   * Convert a submitted value to the attribute's type
+   */
+  private parseSpecValue(attribute: CategoryAttribute, value: unknown): SpecValue {
+    switch (attribute.type) {
+      case AttributeType.NUMBER: {
+        const number = this.parseNumber(attribute, value);
+
+        if (attribute.allowedValues.length > 0 && !attribute.allowedValues.map(Number).includes(number)) {
+          throw new BadRequestException(`${attribute.name} must be one of: ${attribute.allowedValues.join(', ')}`);
+        }
+
+        return number;
+      }
+
+      case AttributeType.BOOLEAN: {
+        if (typeof value === 'boolean') {
+          return value;
+        }
+
+        const text = String(value).trim().toLowerCase();
+
+        if (TRUE_VALUES.includes(text)) {
+          return true;
+        }
+
+        if (FALSE_VALUES.includes(text)) {
+          return false;
+        }
+
+        throw new BadRequestException(`${attribute.name} must be yes or no`);
+      }
+
+      default: {
+        if (typeof value !== 'string' && typeof value !== 'number') {
+          throw new BadRequestException(`${attribute.name} must be text`);
+        }
+
+        const text = String(value).trim();
+
+        if (attribute.type === AttributeType.ENUM || attribute.allowedValues.length > 0) {
+          const allowed = attribute.allowedValues.find(option => option.toLowerCase() === text.toLowerCase());
+
+          if (!allowed) {
+            throw new BadRequestException(`${attribute.name} must be one of: ${attribute.allowedValues.join(', ')}`);
+          }
+
+          return allowed;
+        }
+
+        return text;
+      }
+    }
+  }
+
+  /**
+   * Read a number, allowing the attribute's unit after it (e.g. "12V", "12 v")
+   */
+  private parseNumber(attribute: CategoryAttribute, value: unknown): number {
+    const invalid = new BadRequestException(
+      `${attribute.name} must be a number${attribute.unit ? ` in ${attribute.unit}` : ''}`
+    );
+
+    if (typeof value === 'number') {
+      if (!Number.isFinite(value)) {
+        throw invalid;
+      }
+      return value;
+    }
+
+    if (typeof value !== 'string') {
+      throw invalid;
+    }
+
+    const match = value.trim().match(/^(-?\d+(?:\.\d+)?)\s*(.*)$/);
+
+    if (!match) {
+      throw invalid;
+    }
+
+    const suffix = match[2].replace(/\s+/g, '').toLowerCase();
+    const unit = (attribute.unit ?? '').replace(/\s+/g, '').toLowerCase();
+
+    if (suffix && suffix !== unit) {
+      throw invalid;
+    }
+
+    return parseFloat(match[1]);
+  }
+
+  /**
+   * Validate and tidy attribute input
+   */
+  private prepareAttribute(data: CategoryAttributeDto) {
+    const name = data.name?.trim();
+
+    if (!name) {
+      throw new BadRequestException('Attribute name is required');
+    }
+
+    if (!Object.values(AttributeType).includes(data.type)) {
+      throw new BadRequestException(`Attribute type must be one of: ${Object.values(AttributeType).join(', ')}`);
+    }
+
+    const key = normalizeSpecKey(data.key || name);
+
+    if (!key) {
+      throw new BadRequestException('Attribute key must contain letters or numbers');
+    }
+
+    const allowedValues = [...new Set((data.allowedValues ?? []).map(value => String(value).trim()).filter(Boolean))];
+
+    if (data.type === AttributeType.ENUM && allowedValues.length === 0) {
+      throw new BadRequestException('Allowed values are required for an ENUM attribute');
+    }
+
+    if (data.type === AttributeType.NUMBER && allowedValues.some(value => isNaN(Number(value)))) {
+      throw new BadRequestException('Allowed values of a NUMBER attribute must be numbers');
+    }
+
+    return {
+      key,
+      name,
+      type: data.type,
+      unit: data.unit?.trim() || null,
+      allowedValues: data.type === AttributeType.BOOLEAN ? [] : allowedValues,
+      aliases: [...new Set((data.aliases ?? []).map(alias => String(alias).trim()).filter(Boolean))],
+      isRequired: data.isRequired ?? false,
+      sortOrder: data.sortOrder ?? 0
+    };
+  }
+
+  /**
+   * Get an attribute that belongs to the category
+   */
+  private async getAttribute(categoryId: string, attributeId: string): Promise<CategoryAttribute> {
+    const attribute = await this.prisma.categoryAttribute.findFirst({
+      where: { id: attributeId, categoryId }
+    });
+
+    if (!attribute) {
+      throw new NotFoundException('Attribute not found');
+    }
+
+    return attribute;
+  }
+
+  /**
+   * Reject a key the category already uses
+   */
+  private async ensureKeyAvailable(categoryId: string, key: string): Promise<void> {
+    const duplicate = await this.prisma.categoryAttribute.findUnique({
+      where: { categoryId_key: { categoryId, key } }
+    });
+
+    if (duplicate) {
+      throw new ConflictException(`This category already has a "${key}" attribute`);
+    }
+  }
+
+  /**
+   * The category's ID followed by its ancestors' IDs, closest first
+   */
+  private async getCategoryLineage(categoryId: string): Promise<string[]> {
+    const lineage: string[] = [];
+    let currentId: string | null = categoryId;
+
+    while (currentId && !lineage.includes(currentId)) {
+      const category: { id: string; parentId: string | null } | null = await this.prisma.category.findUnique({
+        where: { id: currentId },
+        select: { id: true, parentId: true }
+      });
+
+      if (!category) {
+        if (lineage.length === 0) {
+          throw new NotFoundException('Category not found');
+        }
+        break;
+      }
+
+      lineage.push(category.id);
+      currentId = category.parentId;
+    }
+
+    return lineage;
+  }
+}
+
+export default new CategoryAttributeService();
@@ -1,17 +1,32 @@
-import { PrismaClient, Category } from '@prisma/client';
+import { PrismaClient, Category, Prisma } from '@prisma/client';
+import { slugify } from '../utils/slug.util';
+import { deleteStoredFiles } from '../utils/storage.util';
 
 interface CategoryDto {
   name: string;
+  slug?: string;
   description?: string;
   image?: string;
   parentId?: string | null;
   commissionRate?: number;
+  isConsumable?: boolean;
 }
 
 interface CategoryTreeNode extends Category {
   children: CategoryTreeNode[];
 }
 
+interface CategoryMergeResult {
+  category: Category;
+  partsMoved: number;
+  subcategoriesMoved: number;
+  attributesMoved: number;
+  // The merged category's commission override, when the target kept a different one
+  discardedCommissionRate: number | null;
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
 export class CategoryService {
   private prisma: PrismaClient;
 
@@ -29,11 +44,11 @@ export class CategoryService {
   }
 
   /**
-   * Get category by ID
+   * Get category by ID or slug
    */
   async getCategoryById(categoryId: string): Promise<Category | null> {
     return this.prisma.category.findUnique({
-      where: { id: categoryId },
+      where: this.byIdOrSlug(categoryId),
       include: {
         parent: true,
         children: true,
@@ -76,13 +91,24 @@ export class CategoryService {
       }
     }
 
+    // An explicit slug must be free; one derived from the name is numbered if taken
+    let slug: string;
+    if (data.slug) {
+      slug = slugify(data.slug);
+      await this.ensureSlugAvailable(slug);
+    } else {
+      slug = await this.generateUniqueSlug(data.name);
+    }
+
     return this.prisma.category.create({
       data: {
         name: data.name,
+        slug,
         description: data.description,
         image: data.image,
         parentId: data.parentId,
-        commissionRate: data.commissionRate
+        commissionRate: data.commissionRate,
+        isConsumable: data.isConsumable
       }
     });
   }
@@ -124,10 +150,157 @@ export class CategoryService {
       }
     }
 
-    return this.prisma.category.update({
+    // Slugs stay put on rename so existing links keep working; change one explicitly
+    if (data.slug !== undefined) {
+      data.slug = slugify(data.slug);
+
+      if (data.slug !== category.slug) {
+        await this.ensureSlugAvailable(data.slug);
+      }
+    }
+
+    const updatedCategory = await this.prisma.category.update({
       where: { id: categoryId },
       data
     });
+
+    // A replaced image is no longer referenced
+    if (category.image !== updatedCategory.image) {
+      await deleteStoredFiles([category.image]);
+    }
+
+    return updatedCategory;
+  }
+
+  /**
+   * Move a category, with its whole subtree, under a new parent.
+   * Pass null to make it a top-level category.
+   */
+  async moveCategory(categoryId: string, parentId: string | null): Promise<Category> {
+    const category = await this.prisma.category.findUnique({
+      where: { id: categoryId }
+    });
+
+    if (!category) {
+      throw new Error('Category not found');
+    }
+
+    if (parentId) {
+      if (parentId === categoryId) {
+        throw new Error('A category cannot be its own parent');
+      }
+
+      const parent = await this.prisma.category.findUnique({
+        where: { id: parentId }
+      });
+
+      if (!parent) {
+        throw new Error('Parent category not found');
+      }
+
+      // Moving under one of its own descendants would cut the subtree off into a loop
+      if (await this.isDescendant(categoryId, parentId)) {
+        throw new Error('Cannot set a descendant as parent (circular reference)');
+      }
+    }
+
+    return this.prisma.category.update({
+      where: { id: categoryId },
+      data: { parentId }
+    });
+  }
+
+  /**
+   * Merge a duplicate category into another and delete it. Its parts,
+   * subcategories and any attributes the target doesn't already define move
+   * to the target. The target keeps its own commission override, or takes
+   * the merged category's when it has none.
+   */
+  async mergeCategories(sourceId: string, targetId: string, adminUserId: string): Promise<CategoryMergeResult> {
+    if (sourceId === targetId) {
+      throw new Error('Cannot merge a category into itself');
+    }
+
+    const [source, target] = await Promise.all([
+      this.prisma.category.findUnique({ where: { id: sourceId } }),
+      this.prisma.category.findUnique({ where: { id: targetId }, include: { attributes: true } })
+    ]);
+
+    if (!source) {
+      throw new Error('Category not found');
+    }
+
+    if (!target) {
+      throw new Error('Target category not found');
+    }
+
+    // The target would become its own ancestor once the source's children move to it
+    if (await this.isDescendant(sourceId, targetId)) {
+      throw new Error('Cannot merge a category into one of its subcategories');
+    }
+
+    const adoptCommissionRate = target.commissionRate === null && source.commissionRate !== null;
+    const targetKeys = target.attributes.map(attribute => attribute.key);
+
+    const result = await this.prisma.$transaction(async (tx) => {
+      const parts = await tx.part.updateMany({
+        where: { categoryId: sourceId },
+        data: { categoryId: targetId }
+      });
+
+      const subcategories = await tx.category.updateMany({
+        where: { parentId: sourceId },
+        data: { parentId: targetId }
+      });
+
+      // Attributes the target already has are dropped with the source
+      const attributes = await tx.categoryAttribute.updateMany({
+        where: { categoryId: sourceId, key: { notIn: targetKeys } },
+        data: { categoryId: targetId }
+      });
+
+      const category = await tx.category.update({
+        where: { id: targetId },
+        data: adoptCommissionRate ? { commissionRate: source.commissionRate } : {}
+      });
+
+      await tx.category.delete({
+        where: { id: sourceId }
+      });
+
+      await tx.systemLog.create({
+        data: {
+          action: 'CATEGORY_MERGED',
+          entityType: 'Category',
+          entityId: targetId,
+          performedById: adminUserId,
+          details: {
+            mergedCategoryId: source.id,
+            mergedCategoryName: source.name,
+            partsMoved: parts.count,
+            subcategoriesMoved: subcategories.count,
+            attributesMoved: attributes.count
+          }
+        }
+      });
+
+      return {
+        category,
+        partsMoved: parts.count,
+        subcategoriesMoved: subcategories.count,
+        attributesMoved: attributes.count
+      };
+    });
+
+    await deleteStoredFiles([source.image]);
+
+    return {
+      ...result,
+      discardedCommissionRate:
+        !adoptCommissionRate && source.commissionRate !== null && source.commissionRate !== target.commissionRate
+          ? source.commissionRate
+          : null
+    };
   }
 
   /**
@@ -164,6 +337,8 @@ export class CategoryService {
     await this.prisma.category.delete({
       where: { id: categoryId }
     });
+
+    await deleteStoredFiles([category.image]);
   }
 
   /**
@@ -219,6 +394,7 @@ export class CategoryService {
           select: {
             id: true,
             name: true,
+            slug: true,
             image: true,
             _count: { select: { parts: true } }
           }
@@ -231,11 +407,11 @@ export class CategoryService {
   }
 
   /**
-   * Get subcategories for a specific category
+   * Get subcategories for a specific category, by ID or slug
    */
   async getSubcategories(categoryId: string): Promise<Category[]> {
     return this.prisma.category.findMany({
-      where: { parentId: categoryId },
+      where: { parent: this.byIdOrSlug(categoryId) },
       orderBy: { name: 'asc' },
       include: {
         _count: { select: { parts: true } }
@@ -277,11 +453,13 @@ export class CategoryService {
       select: {
         id: true,
         name: true,
+        slug: true,
         image: true,
         children: {
           select: {
             id: true,
             name: true,
+            slug: true,
             image: true,
             _count: { select: { parts: true } }
           },
@@ -303,6 +481,7 @@ export class CategoryService {
       select: {
         id: true,
         name: true,
+        slug: true,
         image: true,
         _count: { select: { parts: true } }
       },
@@ -336,26 +515,70 @@ export class CategoryService {
   }
 
   /**
-   * Get the full ancestry path of a category
+   * Get the full ancestry path of a category, looked up by ID or slug
    */
   async getCategoryBreadcrumb(categoryId: string): Promise<Category[]> {
     const breadcrumb: Category[] = [];
-    let currentId = categoryId;
+    let where: Prisma.CategoryWhereUniqueInput | null = this.byIdOrSlug(categoryId);
     
     // Loop until we reach a category with no parent
-    while (currentId) {
-      const category = await this.prisma.category.findUnique({
-        where: { id: currentId }
+    while (where) {
+      const category: Category | null = await this.prisma.category.findUnique({
+        where
       });
       
       if (!category) break;
       
       breadcrumb.unshift(category); // Add to the beginning of the array
-      currentId = category.parentId || '';
+      where = category.parentId ? { id: category.parentId } : null;
     }
     
     return breadcrumb;
   }
+
+  /**
+   * Look a category up by UUID, or by slug for anything else
+   */
+  private byIdOrSlug(idOrSlug: string): Prisma.CategoryWhereUniqueInput {
+    return UUID_PATTERN.test(idOrSlug) ? { id: idOrSlug } : { slug: idOrSlug };
+  }
+
+  /**
+   * Slug for a name, numbered ("brake-pads-2") when already taken
+   */
+  private async generateUniqueSlug(name: string): Promise<string> {
+    const base = slugify(name) || 'category';
+
+    const taken = await this.prisma.category.findMany({
+      where: { slug: { startsWith: base } },
+      select: { slug: true }
+    });
+    const takenSlugs = new Set(taken.map(category => category.slug));
+
+    let slug = base;
+    for (let suffix = 2; takenSlugs.has(slug); suffix++) {
+      slug = `${base}-${suffix}`;
+    }
+
+    return slug;
+  }
+
+  /**
+   * Reject an empty slug or one another category already uses
+   */
+  private async ensureSlugAvailable(slug: string): Promise<void> {
+    if (!slug) {
+      throw new Error('Category slug must contain letters or numbers');
+    }
+
+    const existing = await this.prisma.category.findUnique({
+      where: { slug }
+    });
+
+    if (existing) {
+      throw new Error('Category slug already exists');
+    }
+  }
 }
 
 export default new CategoryService();
\ No newline at end of file
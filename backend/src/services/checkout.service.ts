@@ -0,0 +1,181 @@
+import { PrismaClient, OrderType, PaymentType, Prisma } from '@prisma/client';
+import { BadRequestException, ConflictException, NotFoundException } from '../utils/exceptions.util';
+import { generateReference } from '../utils/reference.util';
+import cartService from './cart.service';
+import orderService from './order.service';
+
+interface CheckoutInput {
+  orderType: OrderType;
+  paymentMethod: PaymentType;
+  addressId?: string;
+  notes?: string;
+  promoCode?: string; // Applied to the order of whichever vendor issued it
+}
+
+const checkoutInclude = {
+  orders: {
+    include: {
+      items: {
+        include: {
+          part: {
+            select: { name: true, images: true, partNumber: true }
+          }
+        }
+      },
+      vendor: {
+        select: { id: true, businessName: true, phoneNumber: true, email: true }
+      },
+      address: true
+    },
+    orderBy: { createdAt: 'asc' }
+  }
+} satisfies Prisma.CheckoutSessionInclude;
+
+export class CheckoutService {
+  private prisma: PrismaClient;
+
+  constructor() {
+    this.prisma = new PrismaClient();
+  }
+
+  /**
+   * Check out the customer's cart. Lines are grouped by vendor and each vendor
+   * gets its own order, with its own delivery fee, tax and commission; the
+   * checkout totals them up so everything can be paid at once. The cart must
+   * be free of price or stock changes, so the customer pays what they saw.
+   */
+  async createCheckout(userId: string, data: CheckoutInput) {
+    const customer = await this.getCustomer(userId);
+    const cart = await cartService.getCart({ userId });
+
+    if (!cart.items.length) {
+      throw new BadRequestException('Your cart is empty');
+    }
+
+    if (cart.summary.hasIssues) {
+      throw new ConflictException('Some items in your cart have changed. Review your cart before checking out');
+    }
+
+    if (data.orderType === OrderType.DELIVERY && !data.addressId) {
+      throw new BadRequestException('Address is required for delivery orders');
+    }
+
+    if (data.addressId) {
+      const address = await this.prisma.address.findUnique({
+        where: { id: data.addressId }
+      });
+
+      if (!address || address.customerId !== customer.id) {
+        throw new BadRequestException('Invalid address selected');
+      }
+    }
+
+    const itemsByVendor = new Map<string, { partId: string; quantity: number }[]>();
+    for (const line of cart.items) {
+      const items = itemsByVendor.get(line.vendor.id) || [];
+      items.push({ partId: line.partId, quantity: line.quantity });
+      itemsByVendor.set(line.vendor.id, items);
+    }
+
+    const vendors = await this.prisma.vendor.findMany({
+      where: { id: { in: [...itemsByVendor.keys()] } }
+    });
+
+    let checkout;
+    try {
+      checkout = await this.prisma.$transaction(async (tx) => {
+        const session = await tx.checkoutSession.create({
+          data: {
+            reference: generateReference('CHK'),
+            customerId: customer.id,
+            subtotal: 0,
+            total: 0,
+            paymentMethod: data.paymentMethod
+          }
+        });
+
+        const totals = { subtotal: 0, deliveryFee: 0, tax: 0, discount: 0, total: 0 };
+
+        for (const vendor of vendors) {
+          const order = await orderService.placeOrder(
+            tx,
+            {
+              customerId: customer.id,
+              vendorId: vendor.id,
+              items: itemsByVendor.get(vendor.id)!,
+              addressId: data.addressId,
+              orderType: data.orderType,
+              paymentMethod: data.paymentMethod,
+              notes: data.notes,
+              promoCode: data.promoCode
+            },
+            vendor,
+            session.id
+          );
+
+          totals.subtotal += order.subtotal;
+          totals.deliveryFee += order.deliveryFee;
+          totals.tax += order.tax;
+          totals.discount += order.discount;
+          totals.total += order.total;
+        }
+
+        return tx.checkoutSession.update({
+          where: { id: session.id },
+          data: totals,
+          include: checkoutInclude
+        });
+      }, {
+        maxWait: 10000,
+        timeout: 60000, // one order per vendor, so allow longer than a single order
+        isolationLevel: Prisma.TransactionIsolationLevel.ReadCommitted
+      });
+    } catch (error) {
+      if (error instanceof BadRequestException || error instanceof NotFoundException) {
+        throw error;
+      }
+      console.error('Checkout error:', error);
+      throw new BadRequestException('Failed to process checkout, please try again');
+    }
+
+    for (const order of checkout.orders) {
+      await orderService.completeOrderPlacement(order);
+    }
+
+    await cartService.clearCart({ userId });
+
+    return checkout;
+  }
+
+  /**
+   * A checkout with its orders, for the customer who placed it
+   */
+  async getCheckout(userId: string, checkoutId: string) {
+    const customer = await this.getCustomer(userId);
+
+    const checkout = await this.prisma.checkoutSession.findUnique({
+      where: { id: checkoutId },
+      include: checkoutInclude
+    });
+
+    if (!checkout || checkout.customerId !== customer.id) {
+      throw new NotFoundException('Checkout not found');
+    }
+
+    return checkout;
+  }
+
+  private async getCustomer(userId: string) {
+    const customer = await this.prisma.customer.findUnique({
+      where: { userId }
+    });
+
+    if (!customer) {
+      throw new NotFoundException('Customer profile not found');
+    }
+
+    return customer;
+  }
+}
+
+export default new CheckoutService();
@@ -1,4 +1,7 @@
-import { PrismaClient, Customer, WishlistItem, OrderStatus } from '@prisma/client';
+import { PrismaClient, Customer, WishlistItem, OrderStatus, ReservationStatus } from '@prisma/client';
+import { deleteStoredFiles } from '../utils/storage.util';
+import stockReservationService from './stock-reservation.service';
+import orderStatusService from './order-status.service';
 
 interface CustomerProfileDto {
   firstName?: string;
@@ -69,6 +72,11 @@ export class CustomerService {
       data
     });
 
+    // A replaced profile image is no longer referenced
+    if (customer.profileImage !== updatedCustomer.profileImage) {
+      await deleteStoredFiles([customer.profileImage]);
+    }
+
     await this.logActivity(
       userId,
       'CUSTOMER_PROFILE_UPDATED',
@@ -284,15 +292,29 @@ export class CustomerService {
       throw new Error(`Cannot cancel order in ${order.orderStatus} status`);
     }
 
-    // Update order status
-    const updatedOrder = await this.prisma.order.update({
-      where: { id: orderId },
-      data: {
-        orderStatus: OrderStatus.CANCELLED,
-        isCancelled: true,
-        cancellationReason,
-        updatedAt: new Date()
-      }
+    // Update order status, record it and give back any stock still held for the order's payment
+    const updatedOrder = await this.prisma.$transaction(async (tx) => {
+      const updated = await tx.order.update({
+        where: { id: orderId },
+        data: {
+          orderStatus: OrderStatus.CANCELLED,
+          isCancelled: true,
+          cancellationReason,
+          updatedAt: new Date()
+        }
+      });
+
+      await orderStatusService.record(tx, {
+        orderId,
+        fromStatus: order.orderStatus,
+        toStatus: OrderStatus.CANCELLED,
+        changedById: userId,
+        note: cancellationReason
+      });
+
+      await stockReservationService.releaseForOrder(tx, orderId, ReservationStatus.CANCELLED);
+
+      return updated;
     });
 
     await this.logActivity(
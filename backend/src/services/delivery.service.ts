@@ -1,8 +1,9 @@
 import { PrismaClient } from '@prisma/client';
 import locationService from './location.service';
 import { BadRequestException, NotFoundException } from '../utils/exceptions.util';
-import { DeliveryStatus } from '@prisma/client';
+import { DeliveryStatus, OrderStatus } from '@prisma/client';
 import { generateReference } from '../utils/reference.util';
+import orderStatusService from './order-status.service';
 
 // Define interface for location service to avoid circular reference
 interface LocationService {
@@ -79,6 +80,70 @@ export class DeliveryService {
     });
   }
 
+  /**
+   * Create the pickup for an approved return: the reverse of the order's
+   * delivery, from the customer's address back to the vendor
+   */
+  async createReturnDelivery(returnRequestId: string) {
+    const returnRequest = await this.prisma.returnRequest.findUnique({
+      where: { id: returnRequestId },
+      include: {
+        order: {
+          include: {
+            vendor: true,
+            address: true
+          }
+        }
+      }
+    });
+    
+    if (!returnRequest) {
+      throw new NotFoundException('Return request not found');
+    }
+    
+    const { order } = returnRequest;
+    
+    if (!order.address) {
+      throw new BadRequestException('Order must have a delivery address');
+    }
+    
+    let distance = 0;
+    let estimatedDeliveryTime = null;
+    
+    if (
+      order.vendor.latitude && 
+      order.vendor.longitude && 
+      order.address.latitude && 
+      order.address.longitude
+    ) {
+      distance = this.locationService.calculateDistance(
+        order.address.latitude,
+        order.address.longitude,
+        order.vendor.latitude,
+        order.vendor.longitude
+      );
+      
+      const estimatedMinutes = this.locationService.estimateDeliveryTime(distance);
+      estimatedDeliveryTime = new Date();
+      estimatedDeliveryTime.setMinutes(estimatedDeliveryTime.getMinutes() + estimatedMinutes);
+    }
+    
+    return this.prisma.delivery.create({
+      data: {
+        returnRequestId,
+        status: DeliveryStatus.PENDING,
+        startLatitude: order.address.latitude,
+        startLongitude: order.address.longitude,
+        destinationLatitude: order.vendor.latitude,
+        destinationLongitude: order.vendor.longitude,
+        distance,
+        deliveryFee: order.deliveryFee,
+        estimatedDeliveryTime,
+        driverInstructions: `Return ${returnRequest.rmaNumber}: collect from customer and take to ${order.vendor.businessName}`
+      }
+    });
+  }
+
   /**
    * Find available drivers near a delivery location
    */
@@ -194,17 +259,19 @@ export class DeliveryService {
         data: updateData
       });
       
-      // Update order status based on delivery status
+      // Update order status based on delivery status; return pickups leave the order alone
       if (status === DeliveryStatus.PICKED_UP) {
-        await tx.order.update({
-          where: { id: delivery.orderId },
-          data: { orderStatus: 'IN_TRANSIT' }
-        });
+        if (delivery.order) {
+          await orderStatusService.transition(tx, delivery.order, OrderStatus.IN_TRANSIT, {
+            note: 'Picked up by driver'
+          });
+        }
       } else if (status === DeliveryStatus.DELIVERED) {
-        await tx.order.update({
-          where: { id: delivery.orderId },
-          data: { orderStatus: 'DELIVERED' }
-        });
+        if (delivery.order) {
+          await orderStatusService.transition(tx, delivery.order, OrderStatus.DELIVERED, {
+            note: 'Delivered by driver'
+          });
+        }
         
         // If delivery is completed, calculate driver earnings
         await this.calculateDriverEarnings(tx, deliveryId);
@@ -402,6 +469,13 @@ export class DeliveryService {
             customer: true
           }
         },
+        returnRequest: {
+          select: {
+            rmaNumber: true,
+            quantity: true,
+            status: true
+          }
+        },
         driver: true,
         driverEarning: true
       }
@@ -0,0 +1,722 @@
+import {
+  PrismaClient,
+  Prisma,
+  DisputeReason,
+  DisputeResolution,
+  DisputeStatus,
+  NotificationType,
+  OrderStatus,
+  UserRole
+} from '@prisma/client';
+import {
+  BadRequestException,
+  ConflictException,
+  NotFoundException
+} from '../utils/exceptions.util';
+import { generateReference } from '../utils/reference.util';
+import { withUploadedFiles } from '../utils/storage.util';
+import notificationService from './notification.service';
+import orderService from './order.service';
+import orderStatusService from './order-status.service';
+import paymentService from './payment.service';
+
+interface OpenDisputeDto {
+  orderItemId?: string;
+  reason: DisputeReason;
+  description: string;
+  evidence?: string[];
+}
+
+interface DisputeMessageDto {
+  content: string;
+  attachments?: string[];
+}
+
+interface DisputeEvidenceDto {
+  files: string[];
+  description?: string;
+}
+
+interface RulingDto {
+  resolution: DisputeResolution;
+  refundAmount?: number; // Required for PARTIAL_REFUND
+  note: string;
+}
+
+interface DisputeActor {
+  userId: string;
+  role: UserRole;
+}
+
+const DEFAULT_VENDOR_RESPONSE_HOURS = 72;
+
+const DEADLINE_CHECK_INTERVAL_MS = 15 * 60 * 1000;
+
+const MAX_EVIDENCE_FILES = 5;
+
+// Disputes still waiting on the vendor or an admin
+const OPEN_DISPUTE_STATUSES: DisputeStatus[] = [DisputeStatus.AWAITING_VENDOR, DisputeStatus.UNDER_REVIEW];
+
+const disputeInclude = {
+  order: {
+    select: { id: true, orderNumber: true, orderType: true, orderStatus: true, total: true }
+  },
+  orderItem: {
+    include: {
+      part: {
+        select: { id: true, name: true, images: true, partNumber: true }
+      }
+    }
+  },
+  customer: {
+    select: { id: true, userId: true, firstName: true, lastName: true }
+  },
+  vendor: {
+    select: { id: true, userId: true, businessName: true }
+  },
+  evidence: {
+    orderBy: { createdAt: 'asc' }
+  },
+  messages: {
+    orderBy: { createdAt: 'asc' }
+  },
+  refund: true
+} satisfies Prisma.DisputeInclude;
+
+/**
+ * Dispute resolution for orders the customer says are wrong, damaged or
+ * counterfeit. Opening a dispute puts the order in DISPUTED and gives the
+ * vendor a deadline to respond. Customer, vendor and admins talk it through
+ * on the dispute's thread and attach evidence, then an admin rules: a full
+ * or partial refund (taken back off the vendor's earnings), a replacement
+ * order, or rejection. The ruling puts the order back to its earlier status.
+ */
+export class DisputeService {
+  private prisma: PrismaClient;
+  private deadlineTimer: NodeJS.Timeout | null = null;
+
+  constructor() {
+    this.prisma = new PrismaClient();
+  }
+
+  /**
+   * Open a dispute on one of the customer's delivered or collected orders.
+   * Uploaded evidence is deleted again if the dispute is rejected.
+   */
+  async openDispute(userId: string, orderId: string, data: OpenDisputeDto) {
+    const { order, dispute } = await withUploadedFiles(data.evidence, async () => {
+      const customer = await this.prisma.customer.findUnique({
+        where: { userId }
+      });
+
+      if (!customer) {
+        throw new NotFoundException('Customer profile not found');
+      }
+
+      if (!Object.values(DisputeReason).includes(data.reason)) {
+        throw new BadRequestException('Invalid dispute reason');
+      }
+
+      if (!data.description || !data.description.trim()) {
+        throw new BadRequestException('Describe what is wrong with the order');
+      }
+
+      if (data.description.length > 2000) {
+        throw new BadRequestException('Description must be 2000 characters or fewer');
+      }
+
+      this.validateFiles(data.evidence);
+
+      const order = await this.prisma.order.findUnique({
+        where: { id: orderId },
+        include: {
+          items: { select: { id: true } },
+          vendor: { select: { userId: true } }
+        }
+      });
+
+      if (!order || order.customerId !== customer.id) {
+        throw new NotFoundException('Order not found');
+      }
+
+      if (!orderStatusService.canTransition(order.orderType, order.orderStatus, OrderStatus.DISPUTED)) {
+        throw new BadRequestException('Only delivered or collected orders can be disputed');
+      }
+
+      if (data.orderItemId && !order.items.some(item => item.id === data.orderItemId)) {
+        throw new BadRequestException('Item is not part of this order');
+      }
+
+      const dispute = await this.prisma.$transaction(async (tx) => {
+        const openDispute = await tx.dispute.findFirst({
+          where: { orderId, status: { in: OPEN_DISPUTE_STATUSES } }
+        });
+
+        if (openDispute) {
+          throw new ConflictException(`Order already has an open dispute (${openDispute.caseNumber})`);
+        }
+
+        const created = await tx.dispute.create({
+          data: {
+            caseNumber: generateReference('DSP'),
+            orderId,
+            orderItemId: data.orderItemId,
+            customerId: customer.id,
+            vendorId: order.vendorId,
+            reason: data.reason,
+            description: data.description.trim(),
+            previousOrderStatus: order.orderStatus,
+            vendorResponseDueAt: new Date(Date.now() + this.getVendorResponseHours() * 60 * 60 * 1000),
+            evidence: {
+              create: (data.evidence || []).map(fileUrl => ({ fileUrl, uploadedById: userId }))
+            }
+          }
+        });
+
+        await orderStatusService.transition(tx, order, OrderStatus.DISPUTED, {
+          changedById: userId,
+          note: `Dispute ${created.caseNumber} opened`
+        });
+
+        await tx.systemLog.create({
+          data: {
+            action: 'DISPUTE_OPENED',
+            entityType: 'Dispute',
+            entityId: created.id,
+            performedById: userId,
+            details: {
+              caseNumber: created.caseNumber,
+              orderId,
+              reason: data.reason
+            }
+          }
+        });
+
+        return created;
+      });
+
+      return { order, dispute };
+    });
+
+    await this.notify(
+      order.vendor.userId,
+      'Order disputed',
+      `Order #${order.orderNumber} is disputed (${dispute.caseNumber}). Please respond by ${dispute.vendorResponseDueAt.toISOString()}`,
+      dispute.id
+    );
+
+    return this.getDisputeById(dispute.id);
+  }
+
+  /**
+   * The customer's disputes, newest first
+   */
+  async getCustomerDisputes(userId: string) {
+    const customer = await this.prisma.customer.findUnique({
+      where: { userId }
+    });
+
+    if (!customer) {
+      throw new NotFoundException('Customer profile not found');
+    }
+
+    return this.prisma.dispute.findMany({
+      where: { customerId: customer.id },
+      include: disputeInclude,
+      orderBy: { createdAt: 'desc' }
+    });
+  }
+
+  /**
+   * Disputes against the vendor's orders, newest first
+   */
+  async getVendorDisputes(userId: string, status?: DisputeStatus) {
+    const vendor = await this.prisma.vendor.findUnique({
+      where: { userId }
+    });
+
+    if (!vendor) {
+      throw new NotFoundException('Vendor profile not found');
+    }
+
+    return this.prisma.dispute.findMany({
+      where: {
+        vendorId: vendor.id,
+        ...(status && { status })
+      },
+      include: disputeInclude,
+      orderBy: { createdAt: 'desc' }
+    });
+  }
+
+  /**
+   * Every dispute for admins, oldest open deadline first
+   */
+  async getDisputes(filters: { status?: DisputeStatus; page?: number; limit?: number } = {}) {
+    const page = filters.page || 1;
+    const limit = filters.limit || 20;
+    const where: Prisma.DisputeWhereInput = filters.status ? { status: filters.status } : {};
+
+    const [disputes, total] = await Promise.all([
+      this.prisma.dispute.findMany({
+        where,
+        include: disputeInclude,
+        orderBy: [{ vendorResponseDueAt: 'asc' }, { createdAt: 'asc' }],
+        skip: (page - 1) * limit,
+        take: limit
+      }),
+      this.prisma.dispute.count({ where })
+    ]);
+
+    return {
+      disputes,
+      total,
+      page,
+      limit,
+      pages: Math.ceil(total / limit)
+    };
+  }
+
+  /**
+   * A dispute with its evidence and thread, for its customer, its vendor or an admin
+   */
+  async getDispute(actor: DisputeActor, disputeId: string) {
+    return this.getParticipantDispute(actor, disputeId);
+  }
+
+  /**
+   * Post to the dispute's thread. The vendor's first post counts as its response.
+   */
+  async addMessage(actor: DisputeActor, disputeId: string, data: DisputeMessageDto) {
+    const dispute = await withUploadedFiles(data.attachments, async () => {
+      const dispute = await this.getParticipantDispute(actor, disputeId);
+      this.assertOpen(dispute);
+
+      if (!data.content || !data.content.trim()) {
+        throw new BadRequestException('Message cannot be empty');
+      }
+
+      if (data.content.length > 2000) {
+        throw new BadRequestException('Message must be 2000 characters or fewer');
+      }
+
+      this.validateFiles(data.attachments);
+
+      await this.prisma.$transaction(async (tx) => {
+        await tx.disputeMessage.create({
+          data: {
+            disputeId,
+            senderId: actor.userId,
+            senderRole: actor.role,
+            content: data.content.trim(),
+            attachments: data.attachments || []
+          }
+        });
+
+        await this.recordVendorResponse(tx, dispute, actor);
+      });
+
+      return dispute;
+    });
+
+    await this.notifyOtherParties(
+      dispute,
+      actor,
+      `New message on dispute ${dispute.caseNumber}`,
+      data.content.trim().slice(0, 140)
+    );
+
+    return this.getDisputeById(disputeId);
+  }
+
+  /**
+   * Attach evidence to the dispute. Evidence from the vendor counts as its response.
+   */
+  async addEvidence(actor: DisputeActor, disputeId: string, data: DisputeEvidenceDto) {
+    const dispute = await withUploadedFiles(data.files, async () => {
+      const dispute = await this.getParticipantDispute(actor, disputeId);
+      this.assertOpen(dispute);
+
+      if (!data.files.length) {
+        throw new BadRequestException('At least one file is required');
+      }
+
+      this.validateFiles(data.files);
+
+      await this.prisma.$transaction(async (tx) => {
+        await tx.disputeEvidence.createMany({
+          data: data.files.map(fileUrl => ({
+            disputeId,
+            uploadedById: actor.userId,
+            fileUrl,
+            description: data.description
+          }))
+        });
+
+        await this.recordVendorResponse(tx, dispute, actor);
+      });
+
+      return dispute;
+    });
+
+    await this.notifyOtherParties(
+      dispute,
+      actor,
+      `New evidence on dispute ${dispute.caseNumber}`,
+      `${data.files.length} file(s) were added to the dispute`
+    );
+
+    return this.getDisputeById(disputeId);
+  }
+
+  /**
+   * The customer drops the dispute; the order goes back to how it was
+   */
+  async withdrawDispute(userId: string, disputeId: string) {
+    const dispute = await this.getParticipantDispute({ userId, role: UserRole.CUSTOMER }, disputeId);
+    this.assertOpen(dispute);
+
+    await this.prisma.$transaction(async (tx) => {
+      const { count } = await tx.dispute.updateMany({
+        where: { id: disputeId, status: { in: OPEN_DISPUTE_STATUSES } },
+        data: { status: DisputeStatus.WITHDRAWN }
+      });
+
+      if (count === 0) {
+        throw new ConflictException('Dispute was updated by someone else, please reload it');
+      }
+
+      await this.restoreOrderStatus(tx, dispute, userId, `Dispute ${dispute.caseNumber} withdrawn`);
+    });
+
+    await this.notify(
+      dispute.vendor.userId,
+      'Dispute withdrawn',
+      `The customer withdrew dispute ${dispute.caseNumber}`,
+      disputeId
+    );
+
+    return this.getDisputeById(disputeId);
+  }
+
+  /**
+   * Rule on a dispute. Refunds are made against the order's payment, and the
+   * vendor's share of the refund is taken off its earnings. A replacement
+   * creates a new, free order for the disputed items. All of it is one
+   * transaction, so a failed ruling leaves no refund behind.
+   */
+  async ruleOnDispute(adminId: string, disputeId: string, data: RulingDto) {
+    const dispute = await this.getParticipantDispute({ userId: adminId, role: UserRole.ADMIN }, disputeId);
+    this.assertOpen(dispute);
+
+    if (!Object.values(DisputeResolution).includes(data.resolution)) {
+      throw new BadRequestException('Invalid resolution');
+    }
+
+    if (!data.note || !data.note.trim()) {
+      throw new BadRequestException('Explain the ruling in a note');
+    }
+
+    const order = await this.prisma.order.findUniqueOrThrow({
+      where: { id: dispute.orderId },
+      include: {
+        items: true,
+        refunds: { select: { amount: true } }
+      }
+    });
+
+    const isRefund = data.resolution === DisputeResolution.FULL_REFUND ||
+      data.resolution === DisputeResolution.PARTIAL_REFUND;
+    const refundable = order.total - order.refunds.reduce((sum, refund) => sum + refund.amount, 0);
+    let refundAmount: number | null = null;
+
+    if (data.resolution === DisputeResolution.FULL_REFUND) {
+      refundAmount = refundable;
+    } else if (data.resolution === DisputeResolution.PARTIAL_REFUND) {
+      if (!data.refundAmount || data.refundAmount <= 0) {
+        throw new BadRequestException('A positive refund amount is required for a partial refund');
+      }
+      refundAmount = data.refundAmount;
+    }
+
+    if (refundAmount !== null && (refundAmount <= 0 || refundAmount > refundable)) {
+      throw new BadRequestException(`Refund must be more than 0 and at most ₦${refundable.toFixed(2)}`);
+    }
+
+    const payment = isRefund ? await paymentService.getOrderPayment(order) : null;
+
+    // Claim the dispute first so two admins can't rule on it at once
+    const { count } = await this.prisma.dispute.updateMany({
+      where: { id: disputeId, status: { in: OPEN_DISPUTE_STATUSES } },
+      data: { status: DisputeStatus.RESOLVED, ruledById: adminId, ruledAt: new Date() }
+    });
+
+    if (count === 0) {
+      throw new ConflictException('Dispute was updated by someone else, please reload it');
+    }
+
+    let replacementOrder;
+    try {
+      replacementOrder = await this.prisma.$transaction(async (tx) => {
+        const refund = payment && refundAmount !== null
+          ? await paymentService.createRefund(tx, {
+              orderId: order.id,
+              transactionId: payment.id,
+              amount: refundAmount,
+              reason: `Dispute ${dispute.caseNumber}: ${data.note.trim()}`
+            })
+          : null;
+
+        const vendorAdjustment = refund
+          ? await paymentService.debitVendorForRefund(tx, refund, {
+              disputeId,
+              caseNumber: dispute.caseNumber,
+              type: 'DISPUTE_REFUND_DEBIT'
+            })
+          : null;
+
+        const replacement = data.resolution === DisputeResolution.REPLACEMENT
+          ? await orderService.placeReplacementOrder(
+              tx,
+              order,
+              order.items
+                .filter(item => !dispute.orderItemId || item.id === dispute.orderItemId)
+                .map(item => ({ partId: item.partId, quantity: item.quantity, unitPrice: item.unitPrice })),
+              adminId,
+              `Replacement for order #${order.orderNumber} (dispute ${dispute.caseNumber})`
+            )
+          : null;
+
+        await tx.dispute.update({
+          where: { id: disputeId },
+          data: {
+            resolution: data.resolution,
+            refundAmount,
+            vendorAdjustment,
+            rulingNote: data.note.trim(),
+            refundId: refund?.id,
+            replacementOrderId: replacement?.id
+          }
+        });
+
+        await this.restoreOrderStatus(tx, dispute, adminId, `Dispute ${dispute.caseNumber} resolved: ${data.resolution}`);
+
+        await tx.systemLog.create({
+          data: {
+            action: 'DISPUTE_RESOLVED',
+            entityType: 'Dispute',
+            entityId: disputeId,
+            performedById: adminId,
+            details: {
+              caseNumber: dispute.caseNumber,
+              orderId: order.id,
+              resolution: data.resolution,
+              refundAmount,
+              refundId: refund?.id,
+              manualRefund: isRefund && !payment,
+              vendorAdjustment,
+              replacementOrderId: replacement?.id
+            }
+          }
+        });
+
+        return replacement;
+      });
+    } catch (error) {
+      await this.prisma.dispute.update({
+        where: { id: disputeId },
+        data: { status: dispute.status, ruledById: null, ruledAt: null }
+      });
+      throw error;
+    }
+
+    if (replacementOrder) {
+      await orderService.completeOrderPlacement(replacementOrder);
+    }
+
+    const outcome = {
+      [DisputeResolution.FULL_REFUND]: 'you will receive a full refund',
+      [DisputeResolution.PARTIAL_REFUND]: `you will receive a refund of ₦${refundAmount?.toFixed(2)}`,
+      [DisputeResolution.REPLACEMENT]: 'the vendor will send you a replacement',
+      [DisputeResolution.REJECTED]: 'the dispute was rejected'
+    }[data.resolution];
+
+    await this.notify(
+      dispute.customer.userId,
+      'Dispute resolved',
+      `Dispute ${dispute.caseNumber} was resolved: ${outcome}. ${data.note.trim()}`,
+      disputeId
+    );
+    await this.notify(
+      dispute.vendor.userId,
+      'Dispute resolved',
+      `Dispute ${dispute.caseNumber} on order #${order.orderNumber} was resolved: ${data.resolution}. ${data.note.trim()}`,
+      disputeId
+    );
+
+    return this.getDisputeById(disputeId);
+  }
+
+  /**
+   * Move disputes whose vendor missed the response deadline on to admin review
+   * @returns Number of disputes moved
+   */
+  async escalateOverdueDisputes(): Promise<number> {
+    const { count } = await this.prisma.dispute.updateMany({
+      where: {
+        status: DisputeStatus.AWAITING_VENDOR,
+        vendorResponseDueAt: { lt: new Date() }
+      },
+      data: {
+        status: DisputeStatus.UNDER_REVIEW,
+        vendorMissedDeadline: true
+      }
+    });
+
+    return count;
+  }
+
+  /**
+   * Escalate overdue disputes now and then on a fixed interval. Errors are
+   * logged so a failed run doesn't stop the next one.
+   */
+  scheduleDeadlineCheck(intervalMs: number = DEADLINE_CHECK_INTERVAL_MS): void {
+    if (this.deadlineTimer) {
+      return;
+    }
+
+    const run = () => {
+      this.escalateOverdueDisputes()
+        .then(escalated => {
+          if (escalated > 0) {
+            console.log(`Escalated ${escalated} disputes past their vendor response deadline`);
+          }
+        })
+        .catch(error => console.error('Failed to escalate overdue disputes:', error));
+    };
+
+    run();
+    this.deadlineTimer = setInterval(run, intervalMs);
+    this.deadlineTimer.unref();
+  }
+
+  private async getDisputeById(disputeId: string) {
+    return this.prisma.dispute.findUniqueOrThrow({
+      where: { id: disputeId },
+      include: disputeInclude
+    });
+  }
+
+  /**
+   * A dispute the actor takes part in: as its customer, its vendor, or any admin
+   */
+  private async getParticipantDispute(actor: DisputeActor, disputeId: string) {
+    const dispute = await this.prisma.dispute.findUnique({
+      where: { id: disputeId },
+      include: disputeInclude
+    });
+
+    const isParticipant = dispute && (
+      actor.role === UserRole.ADMIN ||
+      (actor.role === UserRole.CUSTOMER && dispute.customer.userId === actor.userId) ||
+      (actor.role === UserRole.VENDOR && dispute.vendor.userId === actor.userId)
+    );
+
+    if (!dispute || !isParticipant) {
+      throw new NotFoundException('Dispute not found');
+    }
+
+    return dispute;
+  }
+
+  private assertOpen(dispute: { status: DisputeStatus }) {
+    if (!OPEN_DISPUTE_STATUSES.includes(dispute.status)) {
+      throw new BadRequestException(`Dispute is already ${dispute.status.toLowerCase()}`);
+    }
+  }
+
+  /**
+   * Put the order back to the status it had before the dispute
+   */
+  private async restoreOrderStatus(
+    tx: Prisma.TransactionClient,
+    dispute: { orderId: string; previousOrderStatus: OrderStatus },
+    changedById: string,
+    note: string
+  ) {
+    const order = await tx.order.findUniqueOrThrow({
+      where: { id: dispute.orderId },
+      select: { id: true, orderType: true, orderStatus: true }
+    });
+
+    if (order.orderStatus === OrderStatus.DISPUTED) {
+      await orderStatusService.transition(tx, order, dispute.previousOrderStatus, { changedById, note });
+    }
+  }
+
+  /**
+   * The vendor's first message or evidence answers the dispute and hands it to admins
+   */
+  private async recordVendorResponse(
+    tx: Prisma.TransactionClient,
+    dispute: { id: string; status: DisputeStatus },
+    actor: DisputeActor
+  ) {
+    if (actor.role !== UserRole.VENDOR || dispute.status !== DisputeStatus.AWAITING_VENDOR) {
+      return;
+    }
+
+    await tx.dispute.updateMany({
+      where: { id: dispute.id, status: DisputeStatus.AWAITING_VENDOR },
+      data: {
+        status: DisputeStatus.UNDER_REVIEW,
+        vendorRespondedAt: new Date()
+      }
+    });
+  }
+
+  private async notifyOtherParties(
+    dispute: { id: string; customer: { userId: string }; vendor: { userId: string } },
+    actor: DisputeActor,
+    title: string,
+    message: string
+  ) {
+    for (const userId of [dispute.customer.userId, dispute.vendor.userId]) {
+      if (userId !== actor.userId) {
+        await this.notify(userId, title, message, dispute.id);
+      }
+    }
+  }
+
+  private async notify(userId: string, title: string, message: string, disputeId: string) {
+    try {
+      await notificationService.createNotification({
+        userId,
+        title,
+        message,
+        type: NotificationType.ORDER_STATUS,
+        referenceId: disputeId,
+        referenceType: 'Dispute',
+        data: { disputeId }
+      });
+    } catch (error) {
+      console.error('Failed to send dispute notification:', error);
+    }
+  }
+
+  private validateFiles(files?: string[]) {
+    if (files && files.length > MAX_EVIDENCE_FILES) {
+      throw new BadRequestException(`At most ${MAX_EVIDENCE_FILES} files can be attached at once`);
+    }
+  }
+
+  /**
+   * Hours the vendor has to respond to a new dispute.
+   * DISPUTE_VENDOR_RESPONSE_HOURS is read on each call so it follows dotenv.
+   */
+  private getVendorResponseHours(): number {
+    return parseInt(process.env.DISPUTE_VENDOR_RESPONSE_HOURS || '', 10) || DEFAULT_VENDOR_RESPONSE_HOURS;
+  }
+}
+
+export default new DisputeService();
@@ -1,5 +1,6 @@
 import { PrismaClient, Driver, DeliveryStatus } from '@prisma/client';
 import { BadRequestException, NotFoundException } from '../utils/exceptions.util';
+import { deleteStoredFiles } from '../utils/storage.util';
 
 export class DriverService {
   private prisma: PrismaClient;
@@ -60,6 +61,11 @@ export class DriverService {
       data
     });
 
+    // A replaced profile image is no longer referenced
+    if (driver.profileImage !== updatedDriver.profileImage) {
+      await deleteStoredFiles([driver.profileImage]);
+    }
+
     await this.logDriverActivity(driver.id, 'PROFILE_UPDATED', { updatedFields: Object.keys(data) });
     
     return updatedDriver;
@@ -0,0 +1,301 @@
+import { PrismaClient, PartFitment, Prisma, UserRole } from '@prisma/client';
+import { BadRequestException, ForbiddenException, NotFoundException } from '../utils/exceptions.util';
+
+/**
+ * A single fitment row. Null year bounds mean "open ended", null engine/trim/
+ * transmission means the part fits every variant of that make and model.
+ */
+export interface FitmentInput {
+  make: string;
+  model: string;
+  yearFrom?: number | null;
+  yearTo?: number | null;
+  engine?: string | null;
+  trim?: string | null;
+  transmission?: string | null;
+  notes?: string | null;
+}
+
+/**
+ * The vehicle a customer is shopping for
+ */
+export interface FitmentVehicle {
+  make: string;
+  model: string;
+  year: number;
+  engineType?: string | null;
+  transmissionType?: string | null;
+  trim?: string | null;
+}
+
+export class FitmentService {
+  private prisma: PrismaClient;
+
+  constructor() {
+    this.prisma = new PrismaClient();
+  }
+
+  /**
+   * Get all fitment rows for a part
+   */
+  async getPartFitments(partId: string): Promise<PartFitment[]> {
+    const part = await this.prisma.part.findUnique({
+      where: { id: partId },
+      select: { id: true }
+    });
+
+    if (!part) {
+      throw new NotFoundException('Part not found');
+    }
+
+    return this.prisma.partFitment.findMany({
+      where: { partId },
+      orderBy: [
+        { make: 'asc' },
+        { model: 'asc' },
+        { yearFrom: 'asc' }
+      ]
+    });
+  }
+
+  /**
+   * Add a fitment row to a part
+   */
+  async createFitment(userId: string, role: UserRole, partId: string, data: FitmentInput): Promise<PartFitment> {
+    await this.validatePartAccess(userId, role, partId);
+
+    const [fitment] = this.normalizeFitments([data]);
+
+    return this.prisma.partFitment.create({
+      data: {
+        ...fitment,
+        partId
+      }
+    });
+  }
+
+  /**
+   * Update a single fitment row
+   */
+  async updateFitment(
+    userId: string,
+    role: UserRole,
+    partId: string,
+    fitmentId: string,
+    data: Partial<FitmentInput>
+  ): Promise<PartFitment> {
+    await this.validatePartAccess(userId, role, partId);
+
+    const existingFitment = await this.prisma.partFitment.findFirst({
+      where: { id: fitmentId, partId }
+    });
+
+    if (!existingFitment) {
+      throw new NotFoundException('Fitment not found');
+    }
+
+    // Validate the merged row so partial updates can't produce an invalid year range
+    const [fitment] = this.normalizeFitments([{ ...existingFitment, ...data }]);
+
+    return this.prisma.partFitment.update({
+      where: { id: fitmentId },
+      data: fitment
+    });
+  }
+
+  /**
+   * Delete a single fitment row
+   */
+  async deleteFitment(userId: string, role: UserRole, partId: string, fitmentId: string): Promise<void> {
+    await this.validatePartAccess(userId, role, partId);
+
+    const fitment = await this.prisma.partFitment.findFirst({
+      where: { id: fitmentId, partId }
+    });
+
+    if (!fitment) {
+      throw new NotFoundException('Fitment not found');
+    }
+
+    await this.prisma.partFitment.delete({
+      where: { id: fitmentId }
+    });
+  }
+
+  /**
+   * Replace every fitment row of a part in one go
+   */
+  async replacePartFitments(
+    userId: string,
+    role: UserRole,
+    partId: string,
+    data: any
+  ): Promise<PartFitment[]> {
+    await this.validatePartAccess(userId, role, partId);
+
+    const fitments = this.normalizeFitments(data);
+
+    return this.prisma.$transaction(async (tx) => {
+      await tx.partFitment.deleteMany({ where: { partId } });
+
+      if (fitments.length > 0) {
+        await tx.partFitment.createMany({
+          data: fitments.map(fitment => ({ ...fitment, partId }))
+        });
+      }
+
+      return tx.partFitment.findMany({
+        where: { partId },
+        orderBy: [
+          { make: 'asc' },
+          { model: 'asc' },
+          { yearFrom: 'asc' }
+        ]
+      });
+    });
+  }
+
+  /**
+   * Validate and normalise fitment input.
+   *
+   * Accepts the structured shape as well as the legacy `compatibleVehicles` entries
+   * (`{ make, model, year }` or `makeModelYear: "Toyota|Camry|2018"`) that older
+   * clients and CSV files still send.
+   */
+  normalizeFitments(input: any): FitmentInput[] {
+    if (input === undefined || input === null || input === '') {
+      return [];
+    }
+
+    if (!Array.isArray(input)) {
+      throw new BadRequestException('Fitments must be an array');
+    }
+
+    return input.map((entry: any, index: number) => {
+      if (!entry || typeof entry !== 'object') {
+        throw new BadRequestException(`Fitment ${index + 1} must be an object`);
+      }
+
+      const [legacyMake, legacyModel, legacyYear] = String(entry.makeModelYear || entry.makeModel || '')
+        .split('|')
+        .map(value => value.trim());
+
+      const make = this.cleanText(entry.make) || legacyMake;
+      const model = this.cleanText(entry.model) || legacyModel;
+
+      if (!make || !model) {
+        throw new BadRequestException(`Fitment ${index + 1} requires make and model`);
+      }
+
+      const year = this.parseYear(entry.year ?? legacyYear, index);
+      const yearFrom = this.parseYear(entry.yearFrom, index) ?? year;
+      const yearTo = this.parseYear(entry.yearTo, index) ?? year;
+
+      if (yearFrom !== null && yearTo !== null && yearFrom > yearTo) {
+        throw new BadRequestException(`Fitment ${index + 1} has yearFrom after yearTo`);
+      }
+
+      return {
+        make,
+        model,
+        yearFrom,
+        yearTo,
+        engine: this.cleanText(entry.engine ?? entry.engineType),
+        trim: this.cleanText(entry.trim),
+        transmission: this.cleanText(entry.transmission ?? entry.transmissionType),
+        notes: this.cleanText(entry.notes)
+      };
+    });
+  }
+
+  /**
+   * Build a Part filter matching parts that fit the given vehicle.
+   * Engine, trim and transmission only narrow the match when both the vehicle
+   * and the fitment row specify them.
+   */
+  buildFitmentFilter(vehicle: FitmentVehicle): Prisma.PartWhereInput {
+    const conditions: Prisma.PartFitmentWhereInput[] = [
+      { make: { equals: vehicle.make, mode: 'insensitive' } },
+      { model: { equals: vehicle.model, mode: 'insensitive' } },
+      { OR: [{ yearFrom: null }, { yearFrom: { lte: vehicle.year } }] },
+      { OR: [{ yearTo: null }, { yearTo: { gte: vehicle.year } }] }
+    ];
+
+    if (vehicle.engineType) {
+      conditions.push({
+        OR: [{ engine: null }, { engine: { equals: vehicle.engineType, mode: 'insensitive' } }]
+      });
+    }
+
+    if (vehicle.transmissionType) {
+      conditions.push({
+        OR: [{ transmission: null }, { transmission: { equals: vehicle.transmissionType, mode: 'insensitive' } }]
+      });
+    }
+
+    if (vehicle.trim) {
+      conditions.push({
+        OR: [{ trim: null }, { trim: { equals: vehicle.trim, mode: 'insensitive' } }]
+      });
+    }
+
+    return {
+      fitments: {
+        some: { AND: conditions }
+      }
+    };
+  }
+
+  /**
+   * Check the caller may manage the part's fitments (admins, or the vendor who owns it)
+   */
+  private async validatePartAccess(userId: string, role: UserRole, partId: string): Promise<void> {
+    const part = await this.prisma.part.findUnique({
+      where: { id: partId },
+      select: {
+        id: true,
+        vendor: {
+          select: { userId: true }
+        }
+      }
+    });
+
+    if (!part) {
+      throw new NotFoundException('Part not found');
+    }
+
+    if (role !== UserRole.ADMIN && part.vendor.userId !== userId) {
+      throw new ForbiddenException('You can only manage fitments for your own parts');
+    }
+  }
+
+  /**
+   * Parse a model year, allowing empty values
+   */
+  private parseYear(value: any, index: number): number | null {
+    if (value === undefined || value === null || value === '') {
+      return null;
+    }
+
+    const year = parseInt(value, 10);
+    if (isNaN(year) || year < 1900 || year > new Date().getFullYear() + 2) {
+      throw new BadRequestException(`Fitment ${index + 1} has an invalid year: ${value}`);
+    }
+
+    return year;
+  }
+
+  /**
+   * Trim a free-text field, turning empty strings into null
+   */
+  private cleanText(value: any): string | null {
+    if (value === undefined || value === null) {
+      return null;
+    }
+
+    const text = String(value).trim();
+    return text.length > 0 ? text : null;
+  }
+}
+
+export default new FitmentService();
@@ -0,0 +1,142 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import { ConflictException } from '../utils/exceptions.util';
+
+export interface StoredResponse {
+  status: number;
+  body: unknown;
+}
+
+export type IdempotencyStart =
+  | { recordId: string; replay?: undefined }
+  | { recordId?: undefined; replay: StoredResponse };
+
+// How long a key is remembered; retries after this run as new requests
+const KEY_TTL_MS = 24 * 60 * 60 * 1000;
+
+const CLEANUP_INTERVAL_MS = 60 * 60 * 1000;
+
+export class IdempotencyService {
+  private prisma: PrismaClient;
+  private cleanupTimer: NodeJS.Timeout | null = null;
+
+  constructor() {
+    this.prisma = new PrismaClient();
+  }
+
+  /**
+   * Claim a key for a request. A key seen before with the same request gives
+   * back the stored response; one used for a different request, or whose
+   * first request hasn't finished yet, is a conflict.
+   */
+  async begin(userId: string, key: string, requestHash: string): Promise<IdempotencyStart> {
+    try {
+      const record = await this.prisma.idempotencyKey.create({
+        data: {
+          userId,
+          key,
+          requestHash,
+          expiresAt: new Date(Date.now() + KEY_TTL_MS)
+        }
+      });
+
+      return { recordId: record.id };
+    } catch (error) {
+      if (!(error instanceof Prisma.PrismaClientKnownRequestError) || error.code !== 'P2002') {
+        throw error;
+      }
+    }
+
+    const existing = await this.prisma.idempotencyKey.findUnique({
+      where: { userId_key: { userId, key } }
+    });
+
+    if (!existing) {
+      throw new ConflictException('A request with this Idempotency-Key is still being processed');
+    }
+
+    // Forget a stale key and treat the request as new
+    if (existing.expiresAt < new Date()) {
+      await this.prisma.idempotencyKey.deleteMany({
+        where: { id: existing.id, expiresAt: { lt: new Date() } }
+      });
+
+      return this.begin(userId, key, requestHash);
+    }
+
+    if (existing.requestHash !== requestHash) {
+      throw new ConflictException('This Idempotency-Key was already used for a different request');
+    }
+
+    if (!existing.completedAt || existing.responseStatus === null) {
+      throw new ConflictException('A request with this Idempotency-Key is still being processed');
+    }
+
+    return {
+      replay: {
+        status: existing.responseStatus,
+        body: existing.responseBody
+      }
+    };
+  }
+
+  /**
+   * Store the response so retries get the same result
+   */
+  async complete(recordId: string, response: StoredResponse): Promise<void> {
+    await this.prisma.idempotencyKey.update({
+      where: { id: recordId },
+      data: {
+        responseStatus: response.status,
+        responseBody: (response.body ?? Prisma.JsonNull) as Prisma.InputJsonValue,
+        completedAt: new Date()
+      }
+    });
+  }
+
+  /**
+   * Free the key after a server error so the client can retry for real
+   */
+  async abandon(recordId: string): Promise<void> {
+    await this.prisma.idempotencyKey.deleteMany({
+      where: { id: recordId }
+    });
+  }
+
+  /**
+   * Delete keys past their TTL
+   * @returns Number of keys deleted
+   */
+  async deleteExpired(): Promise<number> {
+    const { count } = await this.prisma.idempotencyKey.deleteMany({
+      where: { expiresAt: { lt: new Date() } }
+    });
+
+    return count;
+  }
+
+  /**
+   * Delete expired keys now and then on a fixed interval. Errors are logged
+   * so a failed run doesn't stop the next one.
+   */
+  scheduleCleanup(intervalMs: number = CLEANUP_INTERVAL_MS): void {
+    if (this.cleanupTimer) {
+      return;
+    }
+
+    const run = () => {
+      this.deleteExpired()
+        .then(deleted => {
+          if (deleted > 0) {
+            console.log(`Deleted ${deleted} expired idempotency keys`);
+          }
+        })
+        .catch(error => console.error('Failed to delete expired idempotency keys:', error));
+    };
+
+    run();
+    this.cleanupTimer = setInterval(run, intervalMs);
+    this.cleanupTimer.unref();
+  }
+}
+
+export default new IdempotencyService();
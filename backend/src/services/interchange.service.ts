@@ -0,0 +1,278 @@
+import { PrismaClient, PartInterchange, InterchangeType, Prisma, UserRole } from '@prisma/client';
+import { BadRequestException, ConflictException, ForbiddenException, NotFoundException } from '../utils/exceptions.util';
+import { normalizePartNumber } from '../utils/part-number.util';
+
+interface InterchangeCreateDto {
+  partNumber: string;
+  brand?: string;
+  interchangeNumber: string;
+  interchangeBrand?: string;
+  type: InterchangeType;
+  notes?: string;
+}
+
+interface InterchangeListOptions {
+  partNumber?: string;
+  type?: InterchangeType;
+  isVerified?: boolean;
+  createdById?: string;
+  limit?: number;
+  offset?: number;
+}
+
+/**
+ * A listing reached through an interchange link rather than its own part number.
+ * The reference number is the searched side of the link, as it was entered.
+ */
+export interface InterchangeMatch {
+  partId: string;
+  type: InterchangeType;
+  referenceNumber: string;
+  referenceBrand: string | null;
+}
+
+// Keys shorter than this are too ambiguous to cross-reference
+const MIN_PART_NUMBER_KEY = 3;
+
+export class InterchangeService {
+  private prisma: PrismaClient;
+
+  constructor() {
+    this.prisma = new PrismaClient();
+  }
+
+  /**
+   * Get the verified interchange numbers for a part number, in both directions.
+   * Supersessions are only followed forwards (old number to its replacement).
+   */
+  async lookup(partNumber: string): Promise<PartInterchange[]> {
+    const key = normalizePartNumber(partNumber);
+
+    if (key.length < MIN_PART_NUMBER_KEY) {
+      throw new BadRequestException(`Part number must have at least ${MIN_PART_NUMBER_KEY} letters or digits`);
+    }
+
+    return this.prisma.partInterchange.findMany({
+      where: {
+        isVerified: true,
+        OR: [
+          { partNumberKey: key },
+          { interchangeNumberKey: key, type: { not: InterchangeType.SUPERSEDED_BY } }
+        ]
+      },
+      orderBy: [{ type: 'asc' }, { interchangeNumber: 'asc' }]
+    });
+  }
+
+  /**
+   * List interchange links for curation
+   */
+  async getInterchanges(options: InterchangeListOptions = {}): Promise<{ interchanges: PartInterchange[]; total: number }> {
+    const where: Prisma.PartInterchangeWhereInput = {};
+
+    if (options.partNumber) {
+      const key = normalizePartNumber(options.partNumber);
+      where.OR = [{ partNumberKey: key }, { interchangeNumberKey: key }];
+    }
+
+    if (options.type) {
+      where.type = options.type;
+    }
+
+    if (options.isVerified !== undefined) {
+      where.isVerified = options.isVerified;
+    }
+
+    if (options.createdById) {
+      where.createdById = options.createdById;
+    }
+
+    const [interchanges, total] = await Promise.all([
+      this.prisma.partInterchange.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip: options.offset || 0,
+        take: options.limit || 20
+      }),
+      this.prisma.partInterchange.count({ where })
+    ]);
+
+    return { interchanges, total };
+  }
+
+  /**
+   * Add an interchange link. Admin links are verified straight away;
+   * vendor submissions wait for an admin to verify them.
+   */
+  async createInterchange(userId: string, role: UserRole, data: InterchangeCreateDto): Promise<PartInterchange> {
+    if (!data.partNumber || !data.interchangeNumber || !data.type) {
+      throw new BadRequestException('partNumber, interchangeNumber and type are required');
+    }
+
+    if (!Object.values(InterchangeType).includes(data.type)) {
+      throw new BadRequestException(`Type must be one of: ${Object.values(InterchangeType).join(', ')}`);
+    }
+
+    const partNumberKey = normalizePartNumber(data.partNumber);
+    const interchangeNumberKey = normalizePartNumber(data.interchangeNumber);
+
+    if (partNumberKey.length < MIN_PART_NUMBER_KEY || interchangeNumberKey.length < MIN_PART_NUMBER_KEY) {
+      throw new BadRequestException(`Part numbers must have at least ${MIN_PART_NUMBER_KEY} letters or digits`);
+    }
+
+    if (partNumberKey === interchangeNumberKey) {
+      throw new BadRequestException('A part number cannot interchange with itself');
+    }
+
+    // Links are stored once; the reverse of a symmetric link is the same link
+    const existing = await this.prisma.partInterchange.findFirst({
+      where: {
+        OR: [
+          { partNumberKey, interchangeNumberKey },
+          { partNumberKey: interchangeNumberKey, interchangeNumberKey: partNumberKey }
+        ]
+      }
+    });
+
+    if (existing) {
+      throw new ConflictException('An interchange between these part numbers already exists');
+    }
+
+    const isVerified = role === UserRole.ADMIN;
+
+    const interchange = await this.prisma.partInterchange.create({
+      data: {
+        partNumber: data.partNumber.trim(),
+        partNumberKey,
+        brand: data.brand?.trim() || null,
+        interchangeNumber: data.interchangeNumber.trim(),
+        interchangeNumberKey,
+        interchangeBrand: data.interchangeBrand?.trim() || null,
+        type: data.type,
+        notes: data.notes,
+        isVerified,
+        createdById: userId,
+        ...(isVerified && { verifiedById: userId, verifiedAt: new Date() })
+      }
+    });
+
+    await this.logActivity(userId, 'INTERCHANGE_CREATED', interchange);
+
+    return interchange;
+  }
+
+  /**
+   * Approve a vendor-submitted interchange link
+   */
+  async verifyInterchange(adminUserId: string, role: UserRole, interchangeId: string): Promise<PartInterchange> {
+    if (role !== UserRole.ADMIN) {
+      throw new ForbiddenException('Only admins can verify interchanges');
+    }
+
+    const interchange = await this.prisma.partInterchange.findUnique({
+      where: { id: interchangeId }
+    });
+
+    if (!interchange) {
+      throw new NotFoundException('Interchange not found');
+    }
+
+    if (interchange.isVerified) {
+      throw new BadRequestException('Interchange is already verified');
+    }
+
+    const verifiedInterchange = await this.prisma.partInterchange.update({
+      where: { id: interchangeId },
+      data: {
+        isVerified: true,
+        verifiedById: adminUserId,
+        verifiedAt: new Date()
+      }
+    });
+
+    await this.logActivity(adminUserId, 'INTERCHANGE_VERIFIED', verifiedInterchange);
+
+    return verifiedInterchange;
+  }
+
+  /**
+   * Delete an interchange link. Vendors may only withdraw their own unverified submissions.
+   */
+  async deleteInterchange(userId: string, role: UserRole, interchangeId: string): Promise<void> {
+    const interchange = await this.prisma.partInterchange.findUnique({
+      where: { id: interchangeId }
+    });
+
+    if (!interchange) {
+      throw new NotFoundException('Interchange not found');
+    }
+
+    if (role !== UserRole.ADMIN && (interchange.createdById !== userId || interchange.isVerified)) {
+      throw new ForbiddenException('You can only withdraw your own pending interchange submissions');
+    }
+
+    await this.prisma.partInterchange.delete({
+      where: { id: interchangeId }
+    });
+
+    await this.logActivity(userId, 'INTERCHANGE_DELETED', interchange);
+  }
+
+  /**
+   * Find listings whose part number interchanges with the searched number,
+   * labelled with the relationship. Listings are matched on their normalised
+   * part number and, when the link names a brand, on that brand too.
+   */
+  async findInterchangeParts(keyword: string): Promise<InterchangeMatch[]> {
+    const key = normalizePartNumber(keyword);
+
+    if (key.length < MIN_PART_NUMBER_KEY) {
+      return [];
+    }
+
+    return this.prisma.$queryRaw<InterchangeMatch[]>`
+      WITH links AS (
+        SELECT "interchangeNumberKey" AS "numberKey", "interchangeBrand" AS "matchBrand",
+          "partNumber" AS "referenceNumber", "brand" AS "referenceBrand", "type"
+        FROM "PartInterchange"
+        WHERE "partNumberKey" = ${key} AND "isVerified" = true
+        UNION ALL
+        SELECT "partNumberKey", "brand", "interchangeNumber", "interchangeBrand", "type"
+        FROM "PartInterchange"
+        WHERE "interchangeNumberKey" = ${key} AND "isVerified" = true
+          AND "type" <> 'SUPERSEDED_BY'
+      )
+      SELECT DISTINCT ON (p."id") p."id" AS "partId", links."type",
+        links."referenceNumber", links."referenceBrand"
+      FROM links
+      JOIN "Part" p ON p."partNumberKey" = links."numberKey"
+        AND (links."matchBrand" IS NULL OR lower(p."brand") = lower(links."matchBrand"))
+      ORDER BY p."id", links."type"
+    `;
+  }
+
+  /**
+   * Record curation changes in the system log
+   */
+  private async logActivity(userId: string, action: string, interchange: PartInterchange): Promise<void> {
+    try {
+      await this.prisma.systemLog.create({
+        data: {
+          action,
+          entityType: 'PartInterchange',
+          entityId: interchange.id,
+          performedById: userId,
+          details: {
+            partNumber: interchange.partNumber,
+            interchangeNumber: interchange.interchangeNumber,
+            type: interchange.type
+          }
+        }
+      });
+    } catch (error) {
+      console.error('Failed to log interchange activity:', error);
+    }
+  }
+}
+
+export default new InterchangeService();
@@ -1,5 +1,10 @@
-import { PrismaClient, Part, PartCondition } from '@prisma/client';
+import { PrismaClient, Part, PartCondition, PriceChangeSource } from '@prisma/client';
 import { BadRequestException, NotFoundException } from '../utils/exceptions.util';
+import fitmentService, { FitmentInput } from './fitment.service';
+import priceHistoryService from './price-history.service';
+import stockAlertService from './stock-alert.service';
+import categoryAttributeService from './category-attribute.service';
+import { deleteStoredFiles } from '../utils/storage.util';
 import * as csv from 'fast-csv';
 import * as fs from 'fs';
 import { Readable, PassThrough } from 'stream';
@@ -18,13 +23,8 @@ interface PartCreateDto {
   stockQuantity: number;
   lowStockAlert?: number;
   specifications?: Record<string, any>;
-  compatibleVehicles?: Array<{
-    make: string;
-    model: string;
-    year: number;
-    makeModel?: string;
-    makeModelYear?: string;
-  }>;
+  fitments?: FitmentInput[];
+  compatibleVehicles?: any; // Legacy payload shape, converted into fitments
   weight?: number;
   dimensions?: string;
   categoryId: string;
@@ -88,6 +88,8 @@ export class InventoryService {
         throw new NotFoundException('Vendor not found');
       }
 
+      const specifications = await categoryAttributeService.validateSpecifications(data.categoryId, data.specifications);
+
       // Create the part
       const part = await this.prisma.part.create({
         data: {
@@ -102,13 +104,21 @@ export class InventoryService {
           images: data.images || [],
           stockQuantity: data.stockQuantity,
           lowStockAlert: data.lowStockAlert || 5,
-          specifications: data.specifications,
-          compatibleVehicles: data.compatibleVehicles,
+          specifications,
           weight: data.weight,
           dimensions: data.dimensions,
           categoryId: data.categoryId,
           vendorId: data.vendorId,
           tags: data.tags || [],
+          fitments: {
+            create: fitmentService.normalizeFitments(data.fitments ?? data.compatibleVehicles),
+          },
+          priceHistory: {
+            create: priceHistoryService.initialEntry({
+              price: data.price,
+              discountedPrice: data.discountedPrice ?? null,
+            }),
+          },
         },
       });
 
@@ -161,12 +171,43 @@ export class InventoryService {
         }
       }
 
-      // Update the part
-      const updatedPart = await this.prisma.part.update({
-        where: { id: partId },
-        data,
+      const { fitments, compatibleVehicles, ...partData } = data;
+      const fitmentInput = fitments ?? compatibleVehicles;
+
+      // Re-check specifications when they or the category (and so the schema) change
+      if (data.specifications !== undefined || (data.categoryId && data.categoryId !== part.categoryId)) {
+        partData.specifications = await categoryAttributeService.validateSpecifications(
+          data.categoryId ?? part.categoryId,
+          data.specifications !== undefined ? data.specifications : part.specifications
+        );
+      }
+
+      // Update the part, replacing its fitments when supplied
+      const updatedPart = await this.prisma.$transaction(async (tx) => {
+        const updated = await tx.part.update({
+          where: { id: partId },
+          data: {
+            ...partData,
+            ...(fitmentInput !== undefined && {
+              fitments: {
+                deleteMany: {},
+                create: fitmentService.normalizeFitments(fitmentInput),
+              },
+            }),
+          },
+        });
+
+        await priceHistoryService.recordPriceChange(tx, part, updated, PriceChangeSource.UPDATED);
+
+        return updated;
       });
 
+      await priceHistoryService.notifyPriceDrop(part, updatedPart);
+      await stockAlertService.notifyBackInStock(part.id, part.stockQuantity, updatedPart.stockQuantity);
+
+      // Images dropped from the listing are no longer referenced anywhere
+      await deleteStoredFiles(part.images.filter(image => !updatedPart.images.includes(image)));
+
       // Log inventory activity
       await this.prisma.systemLog.create({
         data: {
@@ -236,10 +277,14 @@ export class InventoryService {
       }
 
       // Delete the part if no order history
-      await this.prisma.part.delete({
+      const deletedPart = await this.prisma.part.delete({
         where: { id: partId },
+        include: { reviews: { select: { images: true } } },
       });
 
+      // Its reviews went with it, so their photos are orphaned too
+      await deleteStoredFiles([...deletedPart.images, ...deletedPart.reviews.flatMap(review => review.images)]);
+
       // Log inventory activity
       await this.prisma.systemLog.create({
         data: {
@@ -323,6 +368,8 @@ export class InventoryService {
         },
       });
 
+      await stockAlertService.notifyBackInStock(part.id, part.stockQuantity, newStockQuantity);
+
       // Check if low stock notification needed
       if (newStockQuantity <= part.lowStockAlert) {
         // In a real implementation, you would send notifications here
@@ -440,6 +487,10 @@ export class InventoryService {
               partNumber: row.partNumber || null,
               barcode: row.barcode || null,
               price: parseFloat(row.price),
+              // An empty cell clears the discount; a missing column leaves it alone
+              discountedPrice: row.discountedPrice === undefined
+                ? undefined
+                : row.discountedPrice ? parseFloat(row.discountedPrice) : null,
               condition: row.condition || 'NEW',
               brand: row.brand || null,
               stockQuantity: parseInt(row.stockQuantity || '0', 10),
@@ -447,7 +498,10 @@ export class InventoryService {
               categoryId: row.categoryId || options.categoryId,
               vendorId: options.vendorId,
               specifications: row.specifications ? JSON.parse(row.specifications) : null,
-              compatibleVehicles: row.compatibleVehicles ? JSON.parse(row.compatibleVehicles) : null,
+              // Either the fitments column or the legacy compatibleVehicles column
+              fitments: row.fitments || row.compatibleVehicles
+                ? fitmentService.normalizeFitments(JSON.parse(row.fitments || row.compatibleVehicles))
+                : undefined,
               weight: row.weight ? parseFloat(row.weight) : null,
               dimensions: row.dimensions || null,
               tags: row.tags ? row.tags.split(',').map((tag: string) => tag.trim()) : [],
@@ -468,6 +522,14 @@ export class InventoryService {
             // Process parts in batches
             for (const part of parts) {
               try {
+                // Normalise specifications against the category's schema
+                if (part.categoryId) {
+                  part.specifications = await categoryAttributeService.validateSpecifications(
+                    part.categoryId,
+                    part.specifications
+                  ) ?? null;
+                }
+
                 // Check if part exists for updating
                 if (options.updateExisting && (part.partNumber || part.barcode)) {
                   const whereClause: any = {};
@@ -489,18 +551,54 @@ export class InventoryService {
                   });
 
                   if (existingPart) {
-                    await this.prisma.part.update({
-                      where: { id: existingPart.id },
-                      data: part,
+                    const { fitments, ...partData } = part;
+
+                    const updatedPart = await this.prisma.$transaction(async (tx) => {
+                      const updated = await tx.part.update({
+                        where: { id: existingPart.id },
+                        data: {
+                          ...partData,
+                          ...(fitments && {
+                            fitments: {
+                              deleteMany: {},
+                              create: fitments,
+                            },
+                          }),
+                        },
+                      });
+
+                      await priceHistoryService.recordPriceChange(tx, existingPart, updated, PriceChangeSource.CSV_IMPORT);
+
+                      return updated;
                     });
+
+                    await priceHistoryService.notifyPriceDrop(existingPart, updatedPart);
+                    await stockAlertService.notifyBackInStock(
+                      existingPart.id,
+                      existingPart.stockQuantity,
+                      updatedPart.stockQuantity
+                    );
                     result.updated++;
                     continue;
                   }
                 }
 
                 // Create new part
+                const { fitments, ...partData } = part;
+
                 await this.prisma.part.create({
-                  data: part,
+                  data: {
+                    ...partData,
+                    fitments: {
+                      create: fitments || [],
+                    },
+                    priceHistory: {
+                      create: priceHistoryService.initialEntry({
+                        price: partData.price,
+                        discountedPrice: partData.discountedPrice ?? null,
+                      }),
+                    },
+                  },
                 });
                 result.created++;
               } catch (error: any) {
@@ -579,6 +677,18 @@ export class InventoryService {
               name: true,
             },
           },
+          fitments: {
+            select: {
+              make: true,
+              model: true,
+              yearFrom: true,
+              yearTo: true,
+              engine: true,
+              trim: true,
+              transmission: true,
+              notes: true,
+            },
+          },
         },
       });
 
@@ -600,7 +710,7 @@ export class InventoryService {
         category: part.category.name,
         categoryId: part.categoryId,
         specifications: part.specifications ? JSON.stringify(part.specifications) : '',
-        compatibleVehicles: part.compatibleVehicles ? JSON.stringify(part.compatibleVehicles) : '',
+        fitments: part.fitments.length > 0 ? JSON.stringify(part.fitments) : '',
         tags: part.tags.join(','),
         isActive: part.isActive,
         createdAt: part.createdAt.toISOString(),
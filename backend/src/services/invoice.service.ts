@@ -0,0 +1,374 @@
+import {
+  PrismaClient,
+  Prisma,
+  Invoice,
+  PaymentStatus,
+  PaymentType,
+  UserRole
+} from '@prisma/client';
+import { BadRequestException, NotFoundException } from '../utils/exceptions.util';
+import {
+  InvoiceDocumentData,
+  InvoiceParty,
+  renderInvoicePdf
+} from '../utils/invoice-pdf.util';
+import resendService from '../utils/resend.util';
+
+interface InvoiceActor {
+  userId: string;
+  role: UserRole;
+}
+
+interface RefundForCreditNote {
+  id: string;
+  orderId: string;
+  amount: number;
+  reason: string;
+}
+
+export interface InvoiceFile {
+  filename: string;
+  content: Buffer;
+}
+
+// Payment states in which an order has been paid for, wholly or before a refund
+const INVOICEABLE_PAYMENT_STATUSES: PaymentStatus[] = [
+  PaymentStatus.PAID,
+  PaymentStatus.PARTIALLY_REFUNDED,
+  PaymentStatus.REFUNDED
+];
+
+const invoiceOrderInclude = {
+  items: {
+    include: {
+      part: { select: { name: true, partNumber: true } }
+    }
+  },
+  customer: {
+    include: {
+      user: { select: { email: true, phone: true } }
+    }
+  },
+  vendor: true,
+  address: true
+} satisfies Prisma.OrderInclude;
+
+type InvoiceOrder = Prisma.OrderGetPayload<{ include: typeof invoiceOrderInclude }>;
+
+/**
+ * Tax invoices and credit notes. An order's invoice is issued the first time
+ * it's needed (the confirmation email or a download) and keeps the amounts
+ * it was issued with. Invoices and credit notes are numbered in unbroken
+ * sequences per vendor. PDFs are rendered on request, never stored.
+ */
+export class InvoiceService {
+  private prisma: PrismaClient;
+
+  constructor() {
+    this.prisma = new PrismaClient();
+  }
+
+  /**
+   * The invoice PDF for an order, for the customer, the vendor or an admin
+   */
+  async getInvoicePdf(actor: InvoiceActor, orderId: string): Promise<InvoiceFile> {
+    const order = await this.getOrderForActor(actor, orderId);
+    const invoice = await this.getOrCreateInvoice(order);
+
+    return this.renderInvoice(invoice, order);
+  }
+
+  /**
+   * A credit note PDF for one of an order's refunds
+   */
+  async getCreditNotePdf(actor: InvoiceActor, orderId: string, creditNoteId: string): Promise<InvoiceFile> {
+    const order = await this.getOrderForActor(actor, orderId);
+
+    const creditNote = await this.prisma.creditNote.findUnique({
+      where: { id: creditNoteId },
+      include: { invoice: true }
+    });
+
+    if (!creditNote || creditNote.invoice.orderId !== order.id) {
+      throw new NotFoundException('Credit note not found');
+    }
+
+    const content = await renderInvoicePdf({
+      title: 'CREDIT NOTE',
+      number: creditNote.creditNoteNumber,
+      issuedAt: creditNote.issuedAt,
+      references: [
+        { label: 'Invoice', value: creditNote.invoice.invoiceNumber },
+        { label: 'Order', value: order.orderNumber }
+      ],
+      seller: this.getSeller(order),
+      buyer: this.getBuyer(order),
+      lines: [
+        {
+          description: `Refund: ${creditNote.reason}`,
+          quantity: 1,
+          unitPrice: this.round(creditNote.amount - creditNote.tax),
+          tax: creditNote.tax,
+          amount: creditNote.amount
+        }
+      ],
+      totals: [
+        { label: 'Amount before tax', amount: this.round(creditNote.amount - creditNote.tax) },
+        { label: 'Tax', amount: creditNote.tax },
+        { label: 'Total credited', amount: creditNote.amount, bold: true }
+      ],
+      note: `This credit note reduces the amount due on invoice ${creditNote.invoice.invoiceNumber}.`
+    });
+
+    return { filename: `${creditNote.creditNoteNumber}.pdf`, content };
+  }
+
+  /**
+   * Issue the credit note for a processed refund, inside the caller's
+   * transaction. The order's invoice is issued first if it hasn't been.
+   */
+  async issueCreditNote(tx: Prisma.TransactionClient, refund: RefundForCreditNote) {
+    const existing = await tx.creditNote.findUnique({
+      where: { refundId: refund.id }
+    });
+
+    if (existing) {
+      return existing;
+    }
+
+    const order = await tx.order.findUnique({
+      where: { id: refund.orderId }
+    });
+
+    if (!order) {
+      throw new NotFoundException('Order not found');
+    }
+
+    const invoice = await tx.invoice.findUnique({ where: { orderId: order.id } })
+      || await this.createInvoice(tx, order);
+
+    const vendor = await tx.vendor.update({
+      where: { id: order.vendorId },
+      data: { creditNoteSequence: { increment: 1 } },
+      select: { creditNoteSequence: true }
+    });
+
+    // The share of the refund that was tax, in the proportion the invoice charged it
+    const tax = invoice.total > 0 ? this.round(refund.amount * invoice.tax / invoice.total) : 0;
+
+    return tx.creditNote.create({
+      data: {
+        creditNoteNumber: this.formatNumber('CN', order.vendorId, vendor.creditNoteSequence),
+        sequence: vendor.creditNoteSequence,
+        vendorId: order.vendorId,
+        invoiceId: invoice.id,
+        refundId: refund.id,
+        amount: refund.amount,
+        tax,
+        reason: refund.reason
+      }
+    });
+  }
+
+  /**
+   * Email the customer their order confirmation with the invoice attached.
+   * Failures are logged rather than thrown so they never undo the order.
+   */
+  async sendOrderConfirmation(orderId: string): Promise<void> {
+    try {
+      const order = await this.prisma.order.findUnique({
+        where: { id: orderId },
+        include: invoiceOrderInclude
+      });
+
+      if (!order || !order.customer.user.email) {
+        return;
+      }
+
+      const invoice = await this.getOrCreateInvoice(order);
+      const attachment = await this.renderInvoice(invoice, order);
+
+      await resendService.sendTemplateEmail({
+        to: order.customer.user.email,
+        subject: `Order confirmation #${order.orderNumber}`,
+        templateName: 'order-confirmation',
+        templateData: {
+          orderNumber: order.orderNumber,
+          customerName: `${order.customer.firstName} ${order.customer.lastName}`,
+          orderTotal: order.total,
+          items: order.items.map(item => ({
+            name: item.part.name,
+            quantity: item.quantity,
+            price: item.subtotal
+          }))
+        },
+        attachments: [attachment]
+      });
+    } catch (error) {
+      console.error(`Failed to send order confirmation for order ${orderId}:`, error);
+    }
+  }
+
+  private async getOrderForActor(actor: InvoiceActor, orderId: string): Promise<InvoiceOrder> {
+    const order = await this.prisma.order.findUnique({
+      where: { id: orderId },
+      include: invoiceOrderInclude
+    });
+
+    if (!order) {
+      throw new NotFoundException('Order not found');
+    }
+
+    if (
+      actor.role !== UserRole.ADMIN &&
+      order.customer.userId !== actor.userId &&
+      order.vendor.userId !== actor.userId
+    ) {
+      throw new NotFoundException('Order not found');
+    }
+
+    return order;
+  }
+
+  /**
+   * The order's invoice, issuing it if this is the first time it's asked for.
+   * Unpaid orders get none, except cash on delivery orders still going ahead.
+   */
+  private async getOrCreateInvoice(order: InvoiceOrder): Promise<Invoice> {
+    const existing = await this.prisma.invoice.findUnique({
+      where: { orderId: order.id }
+    });
+
+    if (existing) {
+      return existing;
+    }
+
+    const payOnDelivery = order.paymentMethod === PaymentType.CASH_ON_DELIVERY && !order.isCancelled;
+    if (!payOnDelivery && !INVOICEABLE_PAYMENT_STATUSES.includes(order.paymentStatus)) {
+      throw new BadRequestException('An invoice is only issued once the order has been paid for');
+    }
+
+    try {
+      return await this.prisma.$transaction(tx => this.createInvoice(tx, order));
+    } catch (error) {
+      if (!(error instanceof Prisma.PrismaClientKnownRequestError) || error.code !== 'P2002') {
+        throw error;
+      }
+    }
+
+    // Another request issued it first
+    return this.prisma.invoice.findUniqueOrThrow({
+      where: { orderId: order.id }
+    });
+  }
+
+  private async createInvoice(
+    tx: Prisma.TransactionClient,
+    order: Pick<InvoiceOrder, 'id' | 'vendorId' | 'subtotal' | 'deliveryFee' | 'discount' | 'tax' | 'total'>
+  ): Promise<Invoice> {
+    const vendor = await tx.vendor.update({
+      where: { id: order.vendorId },
+      data: { invoiceSequence: { increment: 1 } },
+      select: { invoiceSequence: true }
+    });
+
+    return tx.invoice.create({
+      data: {
+        invoiceNumber: this.formatNumber('INV', order.vendorId, vendor.invoiceSequence),
+        sequence: vendor.invoiceSequence,
+        vendorId: order.vendorId,
+        orderId: order.id,
+        subtotal: order.subtotal,
+        deliveryFee: order.deliveryFee,
+        discount: order.discount,
+        tax: order.tax,
+        total: order.total
+      }
+    });
+  }
+
+  private async renderInvoice(invoice: Invoice, order: InvoiceOrder): Promise<InvoiceFile> {
+    const content = await renderInvoicePdf({
+      title: 'TAX INVOICE',
+      number: invoice.invoiceNumber,
+      issuedAt: invoice.issuedAt,
+      references: [
+        { label: 'Order', value: order.orderNumber },
+        { label: 'Payment', value: order.paymentMethod.replace(/_/g, ' ') }
+      ],
+      seller: this.getSeller(order),
+      buyer: this.getBuyer(order),
+      lines: this.getLines(invoice, order),
+      totals: [
+        { label: 'Subtotal', amount: invoice.subtotal },
+        { label: 'Delivery', amount: invoice.deliveryFee },
+        { label: 'Discount', amount: -invoice.discount },
+        { label: 'Tax', amount: invoice.tax },
+        { label: 'Total', amount: invoice.total, bold: true }
+      ]
+    } satisfies InvoiceDocumentData);
+
+    return { filename: `${invoice.invoiceNumber}.pdf`, content };
+  }
+
+  /**
+   * One line per order item, with the order's tax spread across the items in
+   * proportion to their subtotals
+   */
+  private getLines(invoice: Invoice, order: InvoiceOrder) {
+    return order.items.map(item => {
+      const tax = invoice.subtotal > 0 ? this.round(invoice.tax * item.subtotal / invoice.subtotal) : 0;
+
+      return {
+        description: item.part.partNumber ? `${item.part.name} (${item.part.partNumber})` : item.part.name,
+        quantity: item.quantity,
+        unitPrice: item.unitPrice,
+        tax,
+        amount: this.round(item.subtotal + tax)
+      };
+    });
+  }
+
+  private getSeller(order: InvoiceOrder): InvoiceParty {
+    const { vendor } = order;
+
+    return {
+      name: vendor.businessName,
+      lines: [
+        vendor.address,
+        [vendor.city, vendor.state, vendor.postalCode].filter(Boolean).join(', '),
+        vendor.country,
+        vendor.phoneNumber,
+        vendor.email
+      ].filter((line): line is string => Boolean(line))
+    };
+  }
+
+  private getBuyer(order: InvoiceOrder): InvoiceParty {
+    const { customer, address } = order;
+
+    return {
+      name: `${customer.firstName} ${customer.lastName}`,
+      lines: [
+        address?.street,
+        address && [address.city, address.state, address.postalCode].filter(Boolean).join(', '),
+        address?.country,
+        address?.phoneNumber || customer.user.phone,
+        customer.user.email
+      ].filter((line): line is string => Boolean(line))
+    };
+  }
+
+  /**
+   * e.g. INV-1A2B3C4D-000042, prefixed with the start of the vendor ID
+   */
+  private formatNumber(prefix: string, vendorId: string, sequence: number): string {
+    return `${prefix}-${vendorId.slice(0, 8).toUpperCase()}-${sequence.toString().padStart(6, '0')}`;
+  }
+
+  private round(amount: number): number {
+    return Math.round(amount * 100) / 100;
+  }
+}
+
+export default new InvoiceService();
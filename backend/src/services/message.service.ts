@@ -2,7 +2,7 @@ import { PrismaClient, Message, User, UserRole } from '@prisma/client';
 import { Server as SocketIOServer, Socket } from 'socket.io';
 import { NotFoundException, BadRequestException, UnauthorizedException } from '../utils/exceptions.util';
 import notificationService from './notification.service';
-import { uploadToCloudinary } from '../utils/cloudinary.util';
+import { getUploadedFileUrl } from '../utils/storage.util';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as util from 'util';
@@ -421,15 +421,13 @@ export class MessageService {
   }
   
   /**
-   * Handle file upload for message attachments using Cloudinary
+   * Handle file upload for message attachments (stored by the upload middleware)
    */
   async saveAttachment(file: Express.Multer.File, senderId: string): Promise<string> {
     try {
-      // Upload to Cloudinary
-      const cloudinaryUrl = await uploadToCloudinary(file);
-      return cloudinaryUrl;
+      return await getUploadedFileUrl(file);
     } catch (error) {
-      console.error('Failed to save attachment to Cloudinary:', error);
+      console.error('Failed to save attachment:', error);
       throw new Error('Failed to upload attachment');
     }
   }
@@ -469,32 +469,38 @@ export class NotificationService {
         throw new NotFoundException('Delivery not found');
       }
 
+      // Return pickups aren't the customer's order on its way
+      const order = delivery.order;
+      if (!order) {
+        return null;
+      }
+
       // Create notification for customer
       const title = `Delivery Update: ${status}`;
-      let message = `Your delivery for order #${delivery.order.orderNumber} has been ${status.toLowerCase()}.`;
+      let message = `Your delivery for order #${order.orderNumber} has been ${status.toLowerCase()}.`;
 
       // Customize message based on status
       switch (status.toUpperCase()) {
         case 'ASSIGNED':
-          message = `A driver has been assigned to your order #${delivery.order.orderNumber}.`;
+          message = `A driver has been assigned to your order #${order.orderNumber}.`;
           break;
         case 'PICKUP_IN_PROGRESS':
-          message = `The driver is on the way to pick up your order #${delivery.order.orderNumber}.`;
+          message = `The driver is on the way to pick up your order #${order.orderNumber}.`;
           break;
         case 'PICKED_UP':
-          message = `Your order #${delivery.order.orderNumber} has been picked up by the driver.`;
+          message = `Your order #${order.orderNumber} has been picked up by the driver.`;
           break;
         case 'IN_TRANSIT':
-          message = `Your order #${delivery.order.orderNumber} is now in transit.`;
+          message = `Your order #${order.orderNumber} is now in transit.`;
           break;
         case 'ARRIVED':
-          message = `The driver has arrived with your order #${delivery.order.orderNumber}.`;
+          message = `The driver has arrived with your order #${order.orderNumber}.`;
           break;
         case 'DELIVERED':
-          message = `Your order #${delivery.order.orderNumber} has been delivered successfully.`;
+          message = `Your order #${order.orderNumber} has been delivered successfully.`;
           break;
         case 'FAILED':
-          message = `We're sorry, there was an issue delivering your order #${delivery.order.orderNumber}.`;
+          message = `We're sorry, there was an issue delivering your order #${order.orderNumber}.`;
           break;
       }
 
@@ -502,7 +508,7 @@ export class NotificationService {
         ...additionalData,
         deliveryId: delivery.id,
         orderId: delivery.orderId,
-        orderNumber: delivery.order.orderNumber,
+        orderNumber: order.orderNumber,
         status: status,
         driverId: delivery.driverId,
         driverName: delivery.driver ? `${delivery.driver.firstName} ${delivery.driver.lastName}` : 'Unknown'
@@ -510,7 +516,7 @@ export class NotificationService {
 
       // Send notification to customer
       return this.createNotification({
-        userId: delivery.order.customer.userId,
+        userId: order.customer.userId,
         title,
         message,
         type: NotificationType.DELIVERY,
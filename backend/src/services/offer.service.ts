@@ -0,0 +1,204 @@
+import { PrismaClient, PartCondition } from '@prisma/client';
+import { NotFoundException } from '../utils/exceptions.util';
+import { normalizePartNumber } from '../utils/part-number.util';
+import locationService from './location.service';
+
+export type OfferSort = 'price' | 'condition' | 'rating' | 'distance';
+
+export interface PartOffer {
+  partId: string;
+  isCurrentListing: boolean;
+  price: number;
+  discountedPrice: number | null;
+  effectivePrice: number;
+  condition: PartCondition;
+  stockQuantity: number;
+  vendor: {
+    id: string;
+    businessName: string;
+    businessLogo: string | null;
+    rating: number;
+    totalRatings: number;
+    city: string;
+    state: string;
+  };
+  distanceKm: number | null;
+}
+
+interface OfferOptions {
+  userId?: string;
+  sortBy?: OfferSort;
+}
+
+// Lower is better when offers are ranked by condition
+const CONDITION_RANK: Record<PartCondition, number> = {
+  OEM: 0,
+  NEW: 1,
+  AFTERMARKET: 2,
+  REFURBISHED: 3,
+  USED: 4
+};
+
+// Order in which the remaining keys break ties after the chosen sort
+const SORT_KEYS: OfferSort[] = ['price', 'condition', 'rating', 'distance'];
+
+export class OfferService {
+  private prisma: PrismaClient;
+
+  constructor() {
+    this.prisma = new PrismaClient();
+  }
+
+  /**
+   * Get every active listing of the same product as a part, across vendors.
+   * Listings are the same product when their normalised part number and brand
+   * match, or when they share a barcode. Distance is measured from the
+   * customer's default address when there is one.
+   */
+  async getOffers(partId: string, options: OfferOptions = {}): Promise<PartOffer[]> {
+    const part = await this.prisma.part.findUnique({
+      where: { id: partId },
+      select: { id: true, partNumber: true, brand: true, barcode: true }
+    });
+
+    if (!part) {
+      throw new NotFoundException('Part not found');
+    }
+
+    const [listingIds, address] = await Promise.all([
+      this.findSameProductIds(part),
+      options.userId ? this.getDefaultAddress(options.userId) : Promise.resolve(null)
+    ]);
+
+    const listings = await this.prisma.part.findMany({
+      where: { id: { in: [...new Set([part.id, ...listingIds])] } },
+      include: {
+        vendor: {
+          select: {
+            id: true,
+            businessName: true,
+            businessLogo: true,
+            rating: true,
+            totalRatings: true,
+            city: true,
+            state: true,
+            latitude: true,
+            longitude: true
+          }
+        }
+      }
+    });
+
+    const offers: PartOffer[] = listings
+      .filter(listing => listing.isActive || listing.id === part.id)
+      .map(listing => {
+        const { latitude, longitude, ...vendor } = listing.vendor;
+        const canMeasure = address?.latitude != null && address?.longitude != null
+          && latitude != null && longitude != null;
+
+        return {
+          partId: listing.id,
+          isCurrentListing: listing.id === part.id,
+          price: listing.price,
+          discountedPrice: listing.discountedPrice,
+          effectivePrice: listing.discountedPrice ?? listing.price,
+          condition: listing.condition,
+          stockQuantity: listing.stockQuantity - listing.reservedQuantity, // Less stock held for pending payments
+          vendor,
+          distanceKm: canMeasure
+            ? locationService.calculateDistance(address!.latitude, address!.longitude, latitude, longitude)
+            : null
+        };
+      });
+
+    const primary = options.sortBy && SORT_KEYS.includes(options.sortBy) ? options.sortBy : 'price';
+    const sortKeys = [primary, ...SORT_KEYS.filter(key => key !== primary)];
+
+    return offers.sort((a, b) => {
+      // Out-of-stock offers always sink to the bottom
+      if ((a.stockQuantity > 0) !== (b.stockQuantity > 0)) {
+        return a.stockQuantity > 0 ? -1 : 1;
+      }
+
+      for (const key of sortKeys) {
+        const difference = this.compareOffers(a, b, key);
+        if (difference !== 0) {
+          return difference;
+        }
+      }
+
+      return 0;
+    });
+  }
+
+  /**
+   * Order two offers on a single key
+   */
+  private compareOffers(a: PartOffer, b: PartOffer, key: OfferSort): number {
+    switch (key) {
+      case 'price':
+        return a.effectivePrice - b.effectivePrice;
+      case 'condition':
+        return CONDITION_RANK[a.condition] - CONDITION_RANK[b.condition];
+      case 'rating':
+        return b.vendor.rating - a.vendor.rating;
+      case 'distance':
+        // Unknown distances go after known ones
+        if (a.distanceKm === null || b.distanceKm === null) {
+          return a.distanceKm === b.distanceKm ? 0 : a.distanceKm === null ? 1 : -1;
+        }
+        return a.distanceKm - b.distanceKm;
+    }
+  }
+
+  /**
+   * IDs of active listings that are the same product as the part
+   */
+  private async findSameProductIds(part: {
+    id: string;
+    partNumber: string | null;
+    brand: string | null;
+    barcode: string | null;
+  }): Promise<string[]> {
+    const key = normalizePartNumber(part.partNumber);
+    const barcode = part.barcode?.trim() || null;
+
+    if (!key && !barcode) {
+      return [];
+    }
+
+    const rows = await this.prisma.$queryRaw<{ id: string }[]>`
+      SELECT "id" FROM "Part"
+      WHERE "isActive" = true
+        AND "id" <> ${part.id}
+        AND (
+          (${key} <> '' AND "partNumberKey" = ${key}
+            AND lower(coalesce("brand", '')) = lower(${part.brand ?? ''}))
+          OR (${barcode}::text IS NOT NULL AND "barcode" = ${barcode})
+        )
+    `;
+
+    return rows.map(row => row.id);
+  }
+
+  /**
+   * The customer's default delivery address, if the user is a customer with one
+   */
+  private async getDefaultAddress(userId: string) {
+    const customer = await this.prisma.customer.findUnique({
+      where: { userId },
+      select: { id: true }
+    });
+
+    if (!customer) {
+      return null;
+    }
+
+    return this.prisma.address.findFirst({
+      where: { customerId: customer.id, isDefault: true },
+      select: { latitude: true, longitude: true }
+    });
+  }
+}
+
+export default new OfferService();
@@ -0,0 +1,128 @@
+import { PrismaClient, Prisma, OrderStatus, OrderType } from '@prisma/client';
+import { BadRequestException } from '../utils/exceptions.util';
+
+export interface OrderStatusChange {
+  orderId: string;
+  fromStatus: OrderStatus | null;
+  toStatus: OrderStatus;
+  changedById?: string;
+  note?: string;
+}
+
+type TransitionTable = Record<OrderStatus, OrderStatus[]>;
+
+// Steps shared by both order types until the order is ready to leave the vendor
+const PREPARATION_TRANSITIONS = {
+  [OrderStatus.RECEIVED]: [OrderStatus.PROCESSING, OrderStatus.CANCELLED],
+  [OrderStatus.PROCESSING]: [OrderStatus.PREPARING, OrderStatus.READY_FOR_PICKUP, OrderStatus.CANCELLED],
+  [OrderStatus.PREPARING]: [OrderStatus.READY_FOR_PICKUP, OrderStatus.CANCELLED],
+  [OrderStatus.CANCELLED]: [],
+  [OrderStatus.RETURNED]: []
+};
+
+const ORDER_TRANSITIONS: Record<OrderType, TransitionTable> = {
+  [OrderType.DELIVERY]: {
+    ...PREPARATION_TRANSITIONS,
+    [OrderStatus.READY_FOR_PICKUP]: [OrderStatus.IN_TRANSIT, OrderStatus.CANCELLED],
+    [OrderStatus.IN_TRANSIT]: [OrderStatus.DELIVERED, OrderStatus.RETURNED],
+    [OrderStatus.DELIVERED]: [OrderStatus.RETURNED, OrderStatus.DISPUTED],
+    [OrderStatus.DISPUTED]: [OrderStatus.DELIVERED, OrderStatus.RETURNED],
+    [OrderStatus.COLLECTED]: []
+  },
+  [OrderType.COLLECTION]: {
+    ...PREPARATION_TRANSITIONS,
+    [OrderStatus.READY_FOR_PICKUP]: [OrderStatus.COLLECTED, OrderStatus.CANCELLED],
+    [OrderStatus.COLLECTED]: [OrderStatus.RETURNED, OrderStatus.DISPUTED],
+    [OrderStatus.DISPUTED]: [OrderStatus.COLLECTED, OrderStatus.RETURNED],
+    [OrderStatus.IN_TRANSIT]: [],
+    [OrderStatus.DELIVERED]: []
+  }
+};
+
+/**
+ * Which order status can follow which, per order type, and the history of
+ * every change made. Status changes go through `validateTransition` and are
+ * written with `record` in the same transaction as the order update.
+ */
+export class OrderStatusService {
+  private prisma: PrismaClient;
+
+  constructor() {
+    this.prisma = new PrismaClient();
+  }
+
+  /**
+   * Statuses an order of this type can move to from its current status
+   */
+  getAllowedTransitions(orderType: OrderType, currentStatus: OrderStatus): OrderStatus[] {
+    return ORDER_TRANSITIONS[orderType][currentStatus];
+  }
+
+  canTransition(orderType: OrderType, currentStatus: OrderStatus, newStatus: OrderStatus): boolean {
+    return this.getAllowedTransitions(orderType, currentStatus).includes(newStatus);
+  }
+
+  /**
+   * Validate order status transition
+   */
+  validateTransition(orderType: OrderType, currentStatus: OrderStatus, newStatus: OrderStatus) {
+    if (!this.canTransition(orderType, currentStatus, newStatus)) {
+      throw new BadRequestException(
+        `Cannot transition ${orderType.toLowerCase()} order from ${currentStatus} to ${newStatus}`
+      );
+    }
+  }
+
+  /**
+   * Write a status change to the order's history
+   */
+  async record(tx: Prisma.TransactionClient, change: OrderStatusChange) {
+    return tx.orderStatusHistory.create({
+      data: change
+    });
+  }
+
+  /**
+   * Move an order to a new status and record it. Moving to the status the
+   * order already has does nothing, so the same event can arrive twice.
+   * @returns Whether the status changed
+   */
+  async transition(
+    tx: Prisma.TransactionClient,
+    order: { id: string; orderType: OrderType; orderStatus: OrderStatus },
+    toStatus: OrderStatus,
+    actor: { changedById?: string; note?: string } = {}
+  ): Promise<boolean> {
+    if (order.orderStatus === toStatus) {
+      return false;
+    }
+
+    this.validateTransition(order.orderType, order.orderStatus, toStatus);
+
+    await tx.order.update({
+      where: { id: order.id },
+      data: { orderStatus: toStatus }
+    });
+
+    await this.record(tx, {
+      orderId: order.id,
+      fromStatus: order.orderStatus,
+      toStatus,
+      ...actor
+    });
+
+    return true;
+  }
+
+  /**
+   * An order's status changes, oldest first
+   */
+  async getHistory(orderId: string) {
+    return this.prisma.orderStatusHistory.findMany({
+      where: { orderId },
+      orderBy: { createdAt: 'asc' }
+    });
+  }
+}
+
+export default new OrderStatusService();
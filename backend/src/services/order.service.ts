@@ -1,8 +1,12 @@
-import { PrismaClient, OrderStatus, PaymentStatus, OrderType, PaymentType, Prisma, DeliveryStatus } from '@prisma/client';
+import { PrismaClient, OrderStatus, PaymentStatus, OrderType, PaymentType, Prisma, DeliveryStatus, Vendor, Order, ReservationStatus } from '@prisma/client';
 import { BadRequestException, NotFoundException } from '../utils/exceptions.util';
 import deliveryService from './delivery.service';
 import locationService from './location.service';
 import inventoryService from './inventory.service';
+import stockAlertService from './stock-alert.service';
+import stockReservationService from './stock-reservation.service';
+import orderStatusService from './order-status.service';
+import invoiceService from './invoice.service';
 // import notificationService from './notification.service';
 import { generateOrderNumber } from '../utils/reference.util';
 
@@ -25,8 +29,26 @@ export interface UpdateOrderStatusInput {
   orderId: string;
   status: OrderStatus;
   notes?: string;
+  changedById?: string;
 }
 
+// Milestones shown on the tracking timeline, per order type
+const TIMELINE_STEPS: Record<OrderType, { status: OrderStatus; label: string }[]> = {
+  [OrderType.DELIVERY]: [
+    { status: OrderStatus.RECEIVED, label: 'Order Received' },
+    { status: OrderStatus.PROCESSING, label: 'Order Processing' },
+    { status: OrderStatus.READY_FOR_PICKUP, label: 'Ready for Pickup' },
+    { status: OrderStatus.IN_TRANSIT, label: 'In Transit' },
+    { status: OrderStatus.DELIVERED, label: 'Delivered' }
+  ],
+  [OrderType.COLLECTION]: [
+    { status: OrderStatus.RECEIVED, label: 'Order Received' },
+    { status: OrderStatus.PROCESSING, label: 'Order Processing' },
+    { status: OrderStatus.READY_FOR_PICKUP, label: 'Ready for Collection' },
+    { status: OrderStatus.COLLECTED, label: 'Collected' }
+  ]
+};
+
 export class OrderService {
   private prisma: PrismaClient;
 
@@ -77,199 +99,327 @@ export class OrderService {
       throw new BadRequestException('Order must contain at least one item');
     }
 
-    let orderItems = [];
-    let subtotal = 0;
-
     // Process all items in a transaction to ensure stock availability
+    let order;
     try {
       // Use Prisma transaction to ensure all operations succeed or fail together
-      return await this.prisma.$transaction(async (tx) => {
-        // Process each order item
-        for (const item of data.items) {
-          // Get part with latest pricing
-          const part = await tx.part.findUnique({
-            where: { 
-              id: item.partId,
-              isActive: true,
-              vendorId: data.vendorId
-            }
-          });
-
-          if (!part) {
-            throw new NotFoundException(`Part with ID ${item.partId} not found or unavailable`);
-          }
+      order = await this.prisma.$transaction((tx) => this.placeOrder(tx, data, vendor), {
+        maxWait: 10000, // wait at most 10s for transaction to start
+        timeout: 30000, // transaction will be automatically aborted after 30s
+        isolationLevel: Prisma.TransactionIsolationLevel.ReadCommitted
+      });
+    } catch (error) {
+      if (error instanceof BadRequestException || error instanceof NotFoundException) {
+        throw error;
+      }
+      console.error('Order creation error:', error);
+      throw new BadRequestException('Failed to process order, please try again');
+    }
 
-          // Check stock availability
-          if (part.stockQuantity < item.quantity) {
-            throw new BadRequestException(`Not enough stock for ${part.name}, only ${part.stockQuantity} available`);
-          }
+    await this.completeOrderPlacement(order);
 
-          // Calculate item price (respect discounted price if available)
-          const unitPrice = part.discountedPrice || part.price;
-          const itemSubtotal = unitPrice * item.quantity;
+    return order;
+  }
 
-          // Add to order items array
-          orderItems.push({
-            partId: item.partId,
-            quantity: item.quantity,
-            unitPrice,
-            subtotal: itemSubtotal,
-            notes: item.notes
-          });
-
-          // Add to order subtotal
-          subtotal += itemSubtotal;
-
-          // Update inventory
-          await tx.part.update({
-            where: { id: item.partId },
-            data: { 
-              stockQuantity: { decrement: item.quantity }
-            }
-          });
+  /**
+   * Price the items, take or hold their stock and create the order, all within
+   * the caller's transaction. Customer, vendor and address must already be validated.
+   * @param checkoutSessionId Checkout the order was split out of, if any
+   */
+  async placeOrder(
+    tx: Prisma.TransactionClient,
+    data: CreateOrderInput,
+    vendor: Vendor,
+    checkoutSessionId?: string
+  ) {
+    let orderItems = [];
+    let subtotal = 0;
+    const reserveStock = stockReservationService.usesReservation(data.paymentMethod);
+
+    // Process each order item
+    for (const item of data.items) {
+      // Get part with latest pricing
+      const part = await tx.part.findUnique({
+        where: { 
+          id: item.partId,
+          isActive: true,
+          vendorId: data.vendorId
         }
+      });
 
-        // Calculate delivery fee
-        let deliveryFee = 0;
-        if (data.orderType === OrderType.DELIVERY && data.addressId) {
-          const address = await tx.address.findUnique({
-            where: { id: data.addressId },
-            select: { latitude: true, longitude: true }
-          });
-
-          if (address?.latitude && address?.longitude && vendor.latitude && vendor.longitude) {
-            const distance = await locationService.calculateDistance(
-              address.latitude,
-              address.longitude,
-              vendor.latitude,
-              vendor.longitude
-            );
-            
-            deliveryFee = await this.calculateDeliveryFee(distance, data.items.length);
-          } else {
-            // Default delivery fee if coordinates not available
-            deliveryFee = 1000;
-          }
+      if (!part) {
+        throw new NotFoundException(`Part with ID ${item.partId} not found or unavailable`);
+      }
+
+      // Check stock availability, leaving out what other orders are holding
+      const availableStock = part.stockQuantity - part.reservedQuantity;
+      if (availableStock < item.quantity) {
+        throw new BadRequestException(`Not enough stock for ${part.name}, only ${availableStock} available`);
+      }
+
+      // Calculate item price (respect discounted price if available)
+      const unitPrice = part.discountedPrice || part.price;
+      const itemSubtotal = unitPrice * item.quantity;
+
+      // Add to order items array
+      orderItems.push({
+        partId: item.partId,
+        quantity: item.quantity,
+        unitPrice,
+        subtotal: itemSubtotal,
+        notes: item.notes
+      });
+
+      // Add to order subtotal
+      subtotal += itemSubtotal;
+
+      // Update inventory now unless the stock is held until payment (after the order is created)
+      if (!reserveStock && !(await stockReservationService.takeStock(tx, item.partId, item.quantity))) {
+        throw new BadRequestException(`Not enough stock for ${part.name}`);
+      }
+    }
+
+    // Calculate delivery fee
+    let deliveryFee = 0;
+    if (data.orderType === OrderType.DELIVERY && data.addressId) {
+      const address = await tx.address.findUnique({
+        where: { id: data.addressId },
+        select: { latitude: true, longitude: true }
+      });
+
+      if (address?.latitude && address?.longitude && vendor.latitude && vendor.longitude) {
+        const distance = await locationService.calculateDistance(
+          address.latitude,
+          address.longitude,
+          vendor.latitude,
+          vendor.longitude
+        );
+        
+        deliveryFee = await this.calculateDeliveryFee(distance, data.items.length);
+      } else {
+        // Default delivery fee if coordinates not available
+        deliveryFee = 1000;
+      }
+    }
+
+    // Apply discount if promo code provided
+    let discount = 0;
+    if (data.promoCode) {
+      const promotion = await tx.promotion.findFirst({
+        where: {
+          promotionCode: data.promoCode,
+          vendorId: data.vendorId,
+          isActive: true,
+          startDate: { lte: new Date() },
+          endDate: { gte: new Date() }
         }
+      });
 
-        // Apply discount if promo code provided
-        let discount = 0;
-        if (data.promoCode) {
-          const promotion = await tx.promotion.findFirst({
-            where: {
-              promotionCode: data.promoCode,
-              vendorId: data.vendorId,
-              isActive: true,
-              startDate: { lte: new Date() },
-              endDate: { gte: new Date() }
-            }
-          });
-
-          if (promotion) {
-            // Apply discount
-            discount = promotion.isPercentage 
-              ? (subtotal * promotion.discountValue) / 100
-              : Math.min(promotion.discountValue, subtotal); // Don't exceed subtotal
-            
-            // Check minimum order value if specified
-            if (promotion.minimumOrderValue && subtotal < promotion.minimumOrderValue) {
-              discount = 0; // No discount if below minimum order value
-            }
-          }
+      if (promotion) {
+        // Apply discount
+        discount = promotion.isPercentage 
+          ? (subtotal * promotion.discountValue) / 100
+          : Math.min(promotion.discountValue, subtotal); // Don't exceed subtotal
+        
+        // Check minimum order value if specified
+        if (promotion.minimumOrderValue && subtotal < promotion.minimumOrderValue) {
+          discount = 0; // No discount if below minimum order value
         }
+      }
+    }
 
-        // Calculate tax (assuming 5% VAT)
-        const taxRate = 0.05;
-        const tax = (subtotal - discount) * taxRate;
+    // Calculate tax (assuming 5% VAT)
+    const taxRate = 0.05;
+    const tax = (subtotal - discount) * taxRate;
 
-        // Calculate total
-        const total = subtotal + deliveryFee + tax - discount;
-        
-        // Create order
-        const order = await tx.order.create({
-          data: {
-            orderNumber: generateOrderNumber(),
-            customerId: data.customerId,
-            vendorId: data.vendorId,
-            subtotal,
-            deliveryFee,
-            tax,
-            discount,
-            total,
-            paymentMethod: data.paymentMethod,
-            paymentStatus: data.paymentMethod === PaymentType.CASH_ON_DELIVERY 
-              ? PaymentStatus.PENDING 
-              : PaymentStatus.PENDING,
-            orderStatus: OrderStatus.RECEIVED,
-            orderType: data.orderType,
-            addressId: data.addressId,
-            notes: data.notes,
-            items: {
-              create: orderItems
-            },
-            commissionAmount: (subtotal * (vendor.commissionRate || 5.0)) / 100,
-            vendorEarning: subtotal - ((subtotal * (vendor.commissionRate || 5.0)) / 100)
-          },
+    // Calculate total
+    const total = subtotal + deliveryFee + tax - discount;
+    
+    // Create order
+    const order = await tx.order.create({
+      data: {
+        orderNumber: generateOrderNumber(),
+        customerId: data.customerId,
+        vendorId: data.vendorId,
+        subtotal,
+        deliveryFee,
+        tax,
+        discount,
+        total,
+        paymentMethod: data.paymentMethod,
+        paymentStatus: data.paymentMethod === PaymentType.CASH_ON_DELIVERY 
+          ? PaymentStatus.PENDING 
+          : PaymentStatus.PENDING,
+        orderStatus: OrderStatus.RECEIVED,
+        orderType: data.orderType,
+        addressId: data.addressId,
+        notes: data.notes,
+        checkoutSessionId,
+        items: {
+          create: orderItems
+        },
+        commissionAmount: (subtotal * (vendor.commissionRate || 5.0)) / 100,
+        vendorEarning: subtotal - ((subtotal * (vendor.commissionRate || 5.0)) / 100)
+      },
+      include: {
+        items: {
           include: {
-            items: {
-              include: {
-                part: {
-                  select: {
-                    name: true,
-                    images: true,
-                    partNumber: true
-                  }
-                }
-              }
-            },
-            customer: {
+            part: {
               select: {
-                firstName: true,
-                lastName: true,
-                user: {
-                  select: {
-                    email: true,
-                    phone: true
-                  }
-                }
+                name: true,
+                images: true,
+                partNumber: true
               }
-            },
-            vendor: {
+            }
+          }
+        },
+        customer: {
+          select: {
+            firstName: true,
+            lastName: true,
+            userId: true,
+            user: {
               select: {
-                businessName: true,
-                phoneNumber: true,
-                email: true
+                email: true,
+                phone: true
               }
-            },
-            address: true
+            }
           }
-        });
+        },
+        vendor: {
+          select: {
+            businessName: true,
+            phoneNumber: true,
+            email: true
+          }
+        },
+        address: true
+      }
+    });
 
-        // Create delivery record if order type is delivery
-        if (data.orderType === OrderType.DELIVERY) {
-          await deliveryService.createDelivery(order.id);
+    await orderStatusService.record(tx, {
+      orderId: order.id,
+      fromStatus: null,
+      toStatus: OrderStatus.RECEIVED,
+      changedById: order.customer.userId,
+      note: 'Order placed'
+    });
+
+    // Hold the stock while payment is pending
+    if (reserveStock) {
+      for (const item of order.items) {
+        if (!(await stockReservationService.reserve(tx, order.id, item.partId, item.quantity))) {
+          throw new BadRequestException(`Not enough stock for ${item.part.name}`);
         }
+      }
+    }
 
-        // Notify vendor about new order
-        // await notificationService.sendOrderNotification(order, 'NEW_ORDER');
+    return order;
+  }
 
-        // If any parts are now low in stock, notify vendor
-        for (const item of order.items) {
-          await inventoryService.checkAndNotifyLowStock(item.partId);
-        }
+  /**
+   * Send the customer replacements for items of an earlier order at no
+   * charge: a new, already paid order whose stock is taken straight away.
+   * Runs within the caller's transaction; call completeOrderPlacement once it commits.
+   */
+  async placeReplacementOrder(
+    tx: Prisma.TransactionClient,
+    original: Pick<Order, 'customerId' | 'vendorId' | 'orderType' | 'addressId' | 'paymentMethod' | 'deliveryFee'>,
+    items: { partId: string; quantity: number; unitPrice: number }[],
+    changedById: string,
+    note: string
+  ) {
+    for (const item of items) {
+      if (!(await stockReservationService.takeStock(tx, item.partId, item.quantity))) {
+        const part = await tx.part.findUnique({
+          where: { id: item.partId },
+          select: { name: true }
+        });
+        throw new BadRequestException(`Not enough stock to replace ${part?.name || 'part'}`);
+      }
+    }
 
-        return order;
-      }, {
-        maxWait: 10000, // wait at most 10s for transaction to start
-        timeout: 30000, // transaction will be automatically aborted after 30s
-        isolationLevel: Prisma.TransactionIsolationLevel.ReadCommitted
-      });
-    } catch (error) {
-      if (error instanceof BadRequestException || error instanceof NotFoundException) {
-        throw error;
+    const subtotal = items.reduce((sum, item) => sum + item.unitPrice * item.quantity, 0);
+
+    // The driver is still paid the original delivery fee; the discount covers it for the customer
+    const deliveryFee = original.orderType === OrderType.DELIVERY ? original.deliveryFee : 0;
+
+    const order = await tx.order.create({
+      data: {
+        orderNumber: generateOrderNumber(),
+        customerId: original.customerId,
+        vendorId: original.vendorId,
+        subtotal,
+        deliveryFee,
+        tax: 0,
+        discount: subtotal + deliveryFee,
+        total: 0,
+        paymentMethod: original.paymentMethod,
+        paymentStatus: PaymentStatus.PAID,
+        orderStatus: OrderStatus.RECEIVED,
+        orderType: original.orderType,
+        addressId: original.addressId,
+        notes: note,
+        items: {
+          create: items.map(item => ({
+            partId: item.partId,
+            quantity: item.quantity,
+            unitPrice: item.unitPrice,
+            subtotal: item.unitPrice * item.quantity
+          }))
+        },
+        commissionAmount: 0,
+        vendorEarning: 0
+      },
+      include: {
+        items: true
       }
-      console.error('Order creation error:', error);
-      throw new BadRequestException('Failed to process order, please try again');
+    });
+
+    await orderStatusService.record(tx, {
+      orderId: order.id,
+      fromStatus: null,
+      toStatus: OrderStatus.RECEIVED,
+      changedById,
+      note
+    });
+
+    return order;
+  }
+
+  /**
+   * Follow-up work once an order is committed: book the delivery, warn the
+   * vendor about parts running low and, once nothing is left to pay online,
+   * email the customer's confirmation. Failures are logged so they never undo
+   * an order the customer has already placed.
+   */
+  async completeOrderPlacement(order: {
+    id: string;
+    orderType: OrderType;
+    paymentMethod: PaymentType;
+    paymentStatus: PaymentStatus;
+    items: { partId: string }[];
+  }) {
+    try {
+      // Create delivery record if order type is delivery
+      if (order.orderType === OrderType.DELIVERY) {
+        await deliveryService.createDelivery(order.id);
+      }
+
+      // Notify vendor about new order
+      // await notificationService.sendOrderNotification(order, 'NEW_ORDER');
+
+      // If any parts are now low in stock, notify vendor
+      for (const item of order.items) {
+        await inventoryService.checkAndNotifyLowStock(item.partId);
+      }
+
+      // Orders paid online are confirmed once the payment is verified
+      if (order.paymentMethod === PaymentType.CASH_ON_DELIVERY || order.paymentStatus === PaymentStatus.PAID) {
+        await invoiceService.sendOrderConfirmation(order.id);
+      }
+    } catch (error) {
+      console.error(`Follow-up for order ${order.id} failed:`, error);
     }
   }
 
@@ -482,7 +632,7 @@ export class OrderService {
    * Update order status
    */
   async updateOrderStatus(data: UpdateOrderStatusInput) {
-    const { orderId, status, notes } = data;
+    const { orderId, status, notes, changedById } = data;
 
     // Validate order exists
     const order = await this.prisma.order.findUnique({
@@ -514,23 +664,37 @@ export class OrderService {
       throw new NotFoundException('Order not found');
     }
 
-    // Update order status
-    const updatedOrder = await this.prisma.order.update({
-      where: { id: orderId },
-      data: { 
-        orderStatus: status,
-        notes: notes ? `${order.notes || ''}\n${new Date().toISOString()}: ${notes}` : order.notes
-      },
-      include: {
-        items: true,
-        customer: {
-          include: {
-            user: true
-          }
+    orderStatusService.validateTransition(order.orderType, order.orderStatus, status);
+
+    // Update order status and record the change
+    const updatedOrder = await this.prisma.$transaction(async (tx) => {
+      const updated = await tx.order.update({
+        where: { id: orderId },
+        data: { 
+          orderStatus: status,
+          notes: notes ? `${order.notes || ''}\n${new Date().toISOString()}: ${notes}` : order.notes
         },
-        vendor: true,
-        delivery: true
-      }
+        include: {
+          items: true,
+          customer: {
+            include: {
+              user: true
+            }
+          },
+          vendor: true,
+          delivery: true
+        }
+      });
+
+      await orderStatusService.record(tx, {
+        orderId,
+        fromStatus: order.orderStatus,
+        toStatus: status,
+        changedById,
+        note: notes
+      });
+
+      return updated;
     });
 
     // Update delivery status if needed
@@ -575,8 +739,10 @@ export class OrderService {
       throw new BadRequestException('Order cannot be cancelled at this stage');
     }
 
+    const restockedParts: { partId: string; previousStock: number; newStock: number }[] = [];
+
     // Use transaction to ensure all operations succeed
-    return await this.prisma.$transaction(async (tx) => {
+    const cancelledOrder = await this.prisma.$transaction(async (tx) => {
       // Update order status
       const updatedOrder = await tx.order.update({
         where: { id: orderId },
@@ -601,16 +767,37 @@ export class OrderService {
         }
       });
 
-      // Restore inventory for each item
+      await orderStatusService.record(tx, {
+        orderId,
+        fromStatus: order.orderStatus,
+        toStatus: OrderStatus.CANCELLED,
+        changedById: cancelledBy,
+        note: reason
+      });
+
+      // Give back held stock, then restore inventory for whatever was actually taken
+      const untaken = await stockReservationService.releaseForOrder(tx, orderId, ReservationStatus.CANCELLED);
+
       for (const item of order.items) {
-        await tx.part.update({
+        const quantity = this.getRestockQuantity(item, untaken);
+        if (quantity === 0) {
+          continue;
+        }
+
+        const restockedPart = await tx.part.update({
           where: { id: item.partId },
           data: {
             stockQuantity: {
-              increment: item.quantity
+              increment: quantity
             }
           }
         });
+
+        restockedParts.push({
+          partId: item.partId,
+          previousStock: restockedPart.stockQuantity - quantity,
+          newStock: restockedPart.stockQuantity
+        });
       }
 
       // Update delivery status if exists
@@ -648,6 +835,13 @@ export class OrderService {
 
       return updatedOrder;
     });
+
+    // Tell waiting customers about anything the cancellation brought back into stock
+    for (const restocked of restockedParts) {
+      await stockAlertService.notifyBackInStock(restocked.partId, restocked.previousStock, restocked.newStock);
+    }
+
+    return cancelledOrder;
   }
 
   /**
@@ -661,19 +855,45 @@ export class OrderService {
 
     if (!order) return;
 
-    // Restore inventory
+    const untaken = await this.prisma.$transaction(tx =>
+      stockReservationService.releaseForOrder(tx, orderId, ReservationStatus.CANCELLED)
+    );
+
+    // Restore inventory, alerting back-in-stock subscribers
     await Promise.all(order.items.map(async (item) => {
-      await this.prisma.part.update({
+      const quantity = this.getRestockQuantity(item, untaken);
+      if (quantity === 0) {
+        return;
+      }
+
+      const restockedPart = await this.prisma.part.update({
         where: { id: item.partId },
         data: {
           stockQuantity: {
-            increment: item.quantity
+            increment: quantity
           }
         }
       });
+
+      await stockAlertService.notifyBackInStock(
+        item.partId,
+        restockedPart.stockQuantity - quantity,
+        restockedPart.stockQuantity
+      );
     }));
   }
 
+  /**
+   * How much of a cancelled item goes back on the shelf: its quantity less
+   * what was only ever held, which is used up from `untaken` as items are counted
+   */
+  private getRestockQuantity(item: { partId: string; quantity: number }, untaken: Map<string, number>): number {
+    const held = Math.min(item.quantity, untaken.get(item.partId) || 0);
+    untaken.set(item.partId, (untaken.get(item.partId) || 0) - held);
+
+    return item.quantity - held;
+  }
+
   /**
    * Sync delivery status based on order status
    */
@@ -751,6 +971,8 @@ export class OrderService {
       throw new BadRequestException('No delivery information for this order');
     }
 
+    const history = await orderStatusService.getHistory(orderId);
+
     // For delivery orders, build tracking info
     const trackingInfo = {
       order: {
@@ -790,74 +1012,39 @@ export class OrderService {
           longitude: order.address?.longitude
         }
       },
-      timeline: await this.getOrderTimeline(orderId)
+      timeline: this.getOrderTimeline(order.orderType, history),
+      history
     };
 
     return trackingInfo;
   }
 
   /**
-   * Get order timeline events
+   * Get order timeline events from the order's status history. Steps before
+   * the furthest one reached count as completed even without an entry, as
+   * orders from before the history was kept only have their latest status.
    */
-  private async getOrderTimeline(orderId: string) {
-    const order = await this.prisma.order.findUnique({
-      where: { id: orderId },
-      include: {
-        delivery: true
-      }
-    });
-
-    if (!order) return [];
+  private getOrderTimeline(
+    orderType: OrderType,
+    history: { toStatus: OrderStatus; createdAt: Date }[]
+  ) {
+    const steps = TIMELINE_STEPS[orderType].map(step => ({
+      step,
+      entry: history.filter(change => change.toStatus === step.status).pop()
+    }));
 
-    const timeline = [
-      {
-        status: 'Order Received',
-        time: order.createdAt,
-        completed: true
-      },
-      {
-        status: 'Order Processing',
-        time: order.orderStatus === 'RECEIVED' ? null : order.updatedAt,
-        completed: order.orderStatus !== 'RECEIVED'
+    let reached = -1;
+    steps.forEach(({ entry }, index) => {
+      if (entry) {
+        reached = index;
       }
-    ];
-
-    // Add delivery-related timeline events if it's a delivery order
-    if (order.orderType === OrderType.DELIVERY && order.delivery) {
-      timeline.push(
-        {
-          status: 'Ready for Pickup',
-          time: order.orderStatus === 'READY_FOR_PICKUP' ? order.updatedAt : null,
-          completed: ['READY_FOR_PICKUP', 'IN_TRANSIT', 'DELIVERED'].includes(order.orderStatus)
-        },
-        {
-          status: 'In Transit',
-          time: order.orderStatus === 'IN_TRANSIT' ? order.updatedAt : null,
-          completed: ['IN_TRANSIT', 'DELIVERED'].includes(order.orderStatus)
-        },
-        {
-          status: 'Delivered',
-          time: order.orderStatus === 'DELIVERED' ? order.updatedAt : null,
-          completed: order.orderStatus === 'DELIVERED'
-        }
-      );
-    } else {
-      // Collection order timeline
-      timeline.push(
-        {
-          status: 'Ready for Collection',
-          time: order.orderStatus === 'READY_FOR_PICKUP' ? order.updatedAt : null,
-          completed: ['READY_FOR_PICKUP', 'COLLECTED'].includes(order.orderStatus)
-        },
-        {
-          status: 'Collected',
-          time: order.orderStatus === 'COLLECTED' ? order.updatedAt : null,
-          completed: order.orderStatus === 'COLLECTED'
-        }
-      );
-    }
+    });
 
-    return timeline;
+    return steps.map(({ step, entry }, index) => ({
+      status: step.label,
+      time: entry ? entry.createdAt : null,
+      completed: index <= reached
+    }));
   }
 
   /**
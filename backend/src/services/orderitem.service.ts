@@ -1,5 +1,6 @@
 import { PrismaClient } from '@prisma/client';
 import { BadRequestException, NotFoundException } from '../utils/exceptions.util';
+import stockReservationService from './stock-reservation.service';
 
 export class OrderItemService {
   constructor(private prisma: PrismaClient) {}
@@ -21,8 +22,10 @@ export class OrderItemService {
       throw new NotFoundException('Part not found');
     }
     
-    if (part.stockQuantity < quantity) {
-      throw new BadRequestException(`Only ${part.stockQuantity} items available in stock`);
+    // Stock held for other orders isn't available
+    const availableStock = part.stockQuantity - part.reservedQuantity;
+    if (availableStock < quantity) {
+      throw new BadRequestException(`Only ${availableStock} items available in stock`);
     }
     
     // Check if order exists and is in a state that allows adding items
@@ -101,8 +104,9 @@ export class OrderItemService {
     
     // If increasing quantity, check stock
     if (quantityDifference > 0) {
-      if (orderItem.part.stockQuantity < quantityDifference) {
-        throw new BadRequestException(`Only ${orderItem.part.stockQuantity} additional items available in stock`);
+      const availableStock = orderItem.part.stockQuantity - orderItem.part.reservedQuantity;
+      if (availableStock < quantityDifference) {
+        throw new BadRequestException(`Only ${availableStock} additional items available in stock`);
       }
     }
     
@@ -120,11 +124,15 @@ export class OrderItemService {
         }
       });
       
-      // Update part stock
+      // Update part stock; a reduction first comes out of any stock still only held
+      const heldQuantity = quantityDifference < 0
+        ? await stockReservationService.reduceForOrder(tx, orderItem.orderId, orderItem.partId, -quantityDifference)
+        : 0;
+
       await tx.part.update({
         where: { id: orderItem.partId },
         data: {
-          stockQuantity: { decrement: quantityDifference }
+          stockQuantity: { decrement: quantityDifference + heldQuantity }
         }
       });
       
@@ -161,11 +169,18 @@ export class OrderItemService {
         where: { id: orderItemId }
       });
       
-      // Return stock to inventory
+      // Return stock to inventory, apart from any that was only held
+      const heldQuantity = await stockReservationService.reduceForOrder(
+        tx,
+        orderItem.orderId,
+        orderItem.partId,
+        orderItem.quantity
+      );
+
       await tx.part.update({
         where: { id: orderItem.partId },
         data: {
-          stockQuantity: { increment: orderItem.quantity }
+          stockQuantity: { increment: orderItem.quantity - heldQuantity }
         }
       });
       
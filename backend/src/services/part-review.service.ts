@@ -0,0 +1,433 @@
+import { PrismaClient, PartReview, OrderStatus, NotificationType, Prisma, UserRole } from '@prisma/client';
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  NotFoundException
+} from '../utils/exceptions.util';
+import notificationService from './notification.service';
+import { deleteStoredFiles, withUploadedFiles } from '../utils/storage.util';
+
+interface PartReviewDto {
+  rating: number;
+  title?: string;
+  comment?: string;
+  images?: string[];
+}
+
+interface PartReviewListOptions {
+  page?: number;
+  limit?: number;
+  rating?: number;
+  verifiedOnly?: boolean;
+  sortBy?: 'recent' | 'rating_high' | 'rating_low';
+}
+
+interface ModerationDto {
+  isHidden: boolean;
+  reason?: string;
+}
+
+// Orders in these states count as a completed purchase for verified reviews
+const COMPLETED_ORDER_STATUSES: OrderStatus[] = [OrderStatus.DELIVERED, OrderStatus.COLLECTED];
+
+const MAX_REVIEW_IMAGES = 5;
+
+const customerSelect = {
+  firstName: true,
+  lastName: true,
+  profileImage: true
+};
+
+export class PartReviewService {
+  private prisma: PrismaClient;
+
+  constructor() {
+    this.prisma = new PrismaClient();
+  }
+
+  /**
+   * Get the visible reviews of a part with its rating summary
+   */
+  async getPartReviews(partId: string, options: PartReviewListOptions = {}): Promise<any> {
+    const part = await this.prisma.part.findUnique({
+      where: { id: partId },
+      select: { id: true, averageRating: true, totalReviews: true }
+    });
+
+    if (!part) {
+      throw new NotFoundException('Part not found');
+    }
+
+    const page = options.page || 1;
+    const limit = options.limit || 10;
+
+    const where: Prisma.PartReviewWhereInput = {
+      partId,
+      isHidden: false,
+      ...(options.rating && { rating: options.rating }),
+      ...(options.verifiedOnly && { isVerifiedPurchase: true })
+    };
+
+    const orderBy: Prisma.PartReviewOrderByWithRelationInput[] =
+      options.sortBy === 'rating_high' ? [{ rating: 'desc' }, { createdAt: 'desc' }] :
+      options.sortBy === 'rating_low' ? [{ rating: 'asc' }, { createdAt: 'desc' }] :
+      [{ createdAt: 'desc' }];
+
+    const [reviews, total, ratingDistribution] = await Promise.all([
+      this.prisma.partReview.findMany({
+        where,
+        include: {
+          customer: { select: customerSelect }
+        },
+        orderBy,
+        skip: (page - 1) * limit,
+        take: limit
+      }),
+      this.prisma.partReview.count({ where }),
+      this.prisma.partReview.groupBy({
+        by: ['rating'],
+        where: { partId, isHidden: false },
+        _count: { rating: true }
+      })
+    ]);
+
+    const distribution: { [key: number]: number } = { 1: 0, 2: 0, 3: 0, 4: 0, 5: 0 };
+    ratingDistribution.forEach(item => {
+      distribution[item.rating] = item._count.rating;
+    });
+
+    return {
+      reviews,
+      summary: {
+        averageRating: part.averageRating,
+        totalReviews: part.totalReviews,
+        distribution
+      },
+      pagination: {
+        total,
+        page,
+        limit,
+        pages: Math.ceil(total / limit)
+      }
+    };
+  }
+
+  /**
+   * Review a part. One review per customer and part; it is marked as a verified
+   * purchase when the customer has a delivered or collected order containing it.
+   * Uploaded images are deleted again if the review is rejected.
+   */
+  async createReview(userId: string, partId: string, data: PartReviewDto): Promise<PartReview> {
+    const { customer, part, review } = await withUploadedFiles(data.images, async () => {
+      const customer = await this.getCustomer(userId);
+      this.validateReview(data);
+
+      const part = await this.prisma.part.findUnique({
+        where: { id: partId },
+        select: { id: true, name: true, vendorId: true }
+      });
+
+      if (!part) {
+        throw new NotFoundException('Part not found');
+      }
+
+      const existingReview = await this.prisma.partReview.findUnique({
+        where: { partId_customerId: { partId, customerId: customer.id } }
+      });
+
+      if (existingReview) {
+        throw new ConflictException('You have already reviewed this part');
+      }
+
+      const purchase = await this.findCompletedPurchase(customer.id, partId);
+
+      const review = await this.prisma.$transaction(async (tx) => {
+        const newReview = await tx.partReview.create({
+          data: {
+            partId,
+            customerId: customer.id,
+            orderItemId: purchase?.id,
+            isVerifiedPurchase: purchase !== null,
+            rating: data.rating,
+            title: data.title,
+            comment: data.comment,
+            images: data.images || []
+          }
+        });
+
+        await this.recalculatePartRating(tx, partId);
+
+        return newReview;
+      });
+
+      return { customer, part, review };
+    });
+
+    await notificationService.sendReviewNotification(
+      review.id,
+      part.vendorId,
+      `${customer.firstName} ${customer.lastName}`,
+      review.rating,
+      review.comment || undefined
+    );
+
+    return review;
+  }
+
+  /**
+   * Edit the customer's own review. Newly uploaded images replace the old ones,
+   * or are deleted again if the edit is rejected.
+   */
+  async updateReview(userId: string, partId: string, reviewId: string, data: Partial<PartReviewDto>): Promise<PartReview> {
+    const { review, updatedReview } = await withUploadedFiles(data.images, async () => {
+      const customer = await this.getCustomer(userId);
+      const review = await this.getReview(partId, reviewId);
+
+      if (review.customerId !== customer.id) {
+        throw new ForbiddenException('You can only edit your own reviews');
+      }
+
+      this.validateReview({ ...data, rating: data.rating ?? review.rating });
+
+      // Re-check in case the order has been completed since the review was written
+      const purchase = review.isVerifiedPurchase ? null : await this.findCompletedPurchase(customer.id, partId);
+
+      const updatedReview = await this.prisma.$transaction(async (tx) => {
+        const updated = await tx.partReview.update({
+          where: { id: reviewId },
+          data: {
+            ...(data.rating !== undefined && { rating: data.rating }),
+            ...(data.title !== undefined && { title: data.title }),
+            ...(data.comment !== undefined && { comment: data.comment }),
+            ...(data.images && data.images.length > 0 && { images: data.images }),
+            ...(purchase && { orderItemId: purchase.id, isVerifiedPurchase: true })
+          }
+        });
+
+        await this.recalculatePartRating(tx, partId);
+
+        return updated;
+      });
+
+      return { review, updatedReview };
+    });
+
+    await deleteStoredFiles(review.images.filter(image => !updatedReview.images.includes(image)));
+
+    return updatedReview;
+  }
+
+  /**
+   * Delete a review (its author or an admin)
+   */
+  async deleteReview(userId: string, role: UserRole, partId: string, reviewId: string): Promise<void> {
+    const review = await this.getReview(partId, reviewId);
+
+    if (role !== UserRole.ADMIN) {
+      const customer = await this.getCustomer(userId);
+
+      if (review.customerId !== customer.id) {
+        throw new ForbiddenException('You can only delete your own reviews');
+      }
+    }
+
+    await this.prisma.$transaction(async (tx) => {
+      await tx.partReview.delete({ where: { id: reviewId } });
+      await this.recalculatePartRating(tx, partId);
+    });
+
+    await deleteStoredFiles(review.images);
+  }
+
+  /**
+   * Public reply from the vendor selling the part
+   */
+  async replyToReview(userId: string, partId: string, reviewId: string, reply: string): Promise<PartReview> {
+    if (!reply || !reply.trim()) {
+      throw new BadRequestException('Reply is required');
+    }
+
+    const vendor = await this.prisma.vendor.findUnique({
+      where: { userId }
+    });
+
+    if (!vendor) {
+      throw new NotFoundException('Vendor profile not found');
+    }
+
+    const review = await this.getReview(partId, reviewId);
+
+    const part = await this.prisma.part.findUnique({
+      where: { id: partId },
+      select: { vendorId: true, name: true }
+    });
+
+    if (!part || part.vendorId !== vendor.id) {
+      throw new ForbiddenException('You can only reply to reviews of your own parts');
+    }
+
+    const updatedReview = await this.prisma.partReview.update({
+      where: { id: review.id },
+      data: {
+        vendorReply: reply.trim(),
+        vendorRepliedAt: new Date()
+      },
+      include: {
+        customer: { select: { userId: true } }
+      }
+    });
+
+    try {
+      await notificationService.createNotification({
+        userId: updatedReview.customer.userId,
+        title: 'The seller replied to your review',
+        message: `${vendor.businessName} replied to your review of ${part.name}`,
+        type: NotificationType.REVIEW,
+        referenceId: review.id,
+        referenceType: 'PartReview',
+        data: { partId, reviewId: review.id }
+      });
+    } catch (error) {
+      console.error('Failed to send review reply notification:', error);
+    }
+
+    return updatedReview;
+  }
+
+  /**
+   * Hide or restore a review. Hidden reviews don't count towards the part's rating.
+   */
+  async moderateReview(adminUserId: string, role: UserRole, partId: string, reviewId: string, data: ModerationDto): Promise<PartReview> {
+    if (role !== UserRole.ADMIN) {
+      throw new ForbiddenException('Only admins can moderate reviews');
+    }
+
+    if (typeof data.isHidden !== 'boolean') {
+      throw new BadRequestException('isHidden must be true or false');
+    }
+
+    if (data.isHidden && !data.reason) {
+      throw new BadRequestException('A reason is required when hiding a review');
+    }
+
+    await this.getReview(partId, reviewId);
+
+    const review = await this.prisma.$transaction(async (tx) => {
+      const moderatedReview = await tx.partReview.update({
+        where: { id: reviewId },
+        data: {
+          isHidden: data.isHidden,
+          hiddenReason: data.isHidden ? data.reason : null,
+          moderatedById: adminUserId,
+          moderatedAt: new Date()
+        }
+      });
+
+      await this.recalculatePartRating(tx, partId);
+
+      return moderatedReview;
+    });
+
+    await this.prisma.systemLog.create({
+      data: {
+        action: data.isHidden ? 'PART_REVIEW_HIDDEN' : 'PART_REVIEW_RESTORED',
+        entityType: 'PartReview',
+        entityId: reviewId,
+        performedById: adminUserId,
+        details: { partId, reason: data.reason }
+      }
+    });
+
+    return review;
+  }
+
+  /**
+   * Recompute the part's rating aggregates from its visible reviews
+   */
+  private async recalculatePartRating(tx: Prisma.TransactionClient, partId: string): Promise<void> {
+    const aggregate = await tx.partReview.aggregate({
+      where: { partId, isHidden: false },
+      _avg: { rating: true },
+      _count: { _all: true }
+    });
+
+    await tx.part.update({
+      where: { id: partId },
+      data: {
+        averageRating: aggregate._avg.rating ? Math.round(aggregate._avg.rating * 10) / 10 : 0,
+        totalReviews: aggregate._count._all
+      }
+    });
+  }
+
+  /**
+   * Find the customer's most recent completed order item for the part
+   */
+  private async findCompletedPurchase(customerId: string, partId: string) {
+    return this.prisma.orderItem.findFirst({
+      where: {
+        partId,
+        order: {
+          customerId,
+          orderStatus: { in: COMPLETED_ORDER_STATUSES }
+        }
+      },
+      orderBy: { order: { createdAt: 'desc' } },
+      select: { id: true }
+    });
+  }
+
+  /**
+   * Load a review of the given part
+   */
+  private async getReview(partId: string, reviewId: string): Promise<PartReview> {
+    const review = await this.prisma.partReview.findFirst({
+      where: { id: reviewId, partId }
+    });
+
+    if (!review) {
+      throw new NotFoundException('Review not found');
+    }
+
+    return review;
+  }
+
+  /**
+   * Get the customer profile of the current user
+   */
+  private async getCustomer(userId: string) {
+    const customer = await this.prisma.customer.findUnique({
+      where: { userId }
+    });
+
+    if (!customer) {
+      throw new NotFoundException('Customer profile not found');
+    }
+
+    return customer;
+  }
+
+  /**
+   * Validate rating, text lengths and image count
+   */
+  private validateReview(data: Partial<PartReviewDto>): void {
+    if (data.rating === undefined || !Number.isInteger(data.rating) || data.rating < 1 || data.rating > 5) {
+      throw new BadRequestException('Rating must be a whole number from 1 to 5');
+    }
+
+    if (data.title && data.title.length > 120) {
+      throw new BadRequestException('Title must be 120 characters or fewer');
+    }
+
+    if (data.comment && data.comment.length > 2000) {
+      throw new BadRequestException('Comment must be 2000 characters or fewer');
+    }
+
+    if (data.images && data.images.length > MAX_REVIEW_IMAGES) {
+      throw new BadRequestException(`A review can have at most ${MAX_REVIEW_IMAGES} images`);
+    }
+  }
+}
+
+export default new PartReviewService();
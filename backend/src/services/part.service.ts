@@ -1,4 +1,11 @@
-import { PrismaClient, Part, PartCondition } from '@prisma/client';
+import { PrismaClient, Part, PartCondition, Prisma, InterchangeType, PriceChangeSource } from '@prisma/client';
+import searchService from './search.service';
+import fitmentService, { FitmentInput, FitmentVehicle } from './fitment.service';
+import interchangeService from './interchange.service';
+import priceHistoryService from './price-history.service';
+import stockAlertService from './stock-alert.service';
+import { deleteStoredFiles } from '../utils/storage.util';
+import categoryAttributeService, { SpecFilter, SpecFilterOption, normalizeSpecKey } from './category-attribute.service';
 
 interface PartDto {
   name: string;
@@ -13,7 +20,8 @@ interface PartDto {
   stockQuantity: number;
   lowStockAlert?: number;
   specifications?: any;
-  compatibleVehicles?: any;
+  fitments?: FitmentInput[];
+  compatibleVehicles?: any; // Legacy payload shape, converted into fitments
   weight?: number;
   dimensions?: string;
   categoryId: string;
@@ -22,14 +30,26 @@ interface PartDto {
   isActive?: boolean;
 }
 
+interface PriceRange {
+  min?: number;
+  max?: number;
+}
+
+// Relevance given to listings found through an interchange link; kept below a direct part number hit
+const INTERCHANGE_SCORES: Record<InterchangeType, number> = {
+  EXACT_OEM: 9,
+  SUPERSEDED_BY: 8,
+  EQUIVALENT: 7
+};
+
 interface PartFilterOptions {
   search?: string;
-  categoryId?: string;
-  vendorId?: string;
-  condition?: PartCondition;
+  categoryId?: string | string[];
+  vendorId?: string | string[];
+  condition?: PartCondition | PartCondition[];
   minPrice?: number;
   maxPrice?: number;
-  brand?: string;
+  brand?: string | string[];
   tags?: string[];
   inStock?: boolean;
   isActive?: boolean;
@@ -37,14 +57,65 @@ interface PartFilterOptions {
   sortOrder?: 'asc' | 'desc';
   limit?: number;
   offset?: number;
+  facets?: boolean;
+  priceRanges?: PriceRange[];
+  partIds?: string[];
+  specFilters?: SpecFilter[];
+}
+
+type FacetField = 'brand' | 'condition' | 'categoryId' | 'vendorId' | 'price';
+
+interface FacetBucket<T = string> {
+  value: T;
+  label: string;
+  count: number;
+}
+
+interface PriceFacetBucket extends PriceRange {
+  label: string;
+  count: number;
+}
+
+interface PartFacets {
+  brand: FacetBucket[];
+  condition: FacetBucket<PartCondition>[];
+  categoryId: FacetBucket[];
+  vendorId: FacetBucket[];
+  price: PriceFacetBucket[];
+}
+
+interface PartListResult {
+  parts: Part[];
+  total: number;
+  facets?: PartFacets;
+  specFilters?: SpecFilterOption[];
 }
 
-interface VehicleFilterInput {
-  make: string;
-  model: string;
-  year: number;
+interface ComparisonRow {
+  key: string;
+  label: string;
+  values: (string | number | null)[];
+  isDifferent: boolean;
 }
 
+interface PartComparison {
+  vehicle: { id: string; make: string; model: string; year: number } | null;
+  parts: any[];
+  attributes: ComparisonRow[];
+  specifications: ComparisonRow[];
+}
+
+export const MAX_COMPARE_PARTS = 4;
+
+// Default price buckets (NGN) used when the caller doesn't supply its own ranges
+const DEFAULT_PRICE_RANGES: PriceRange[] = [
+  { max: 5000 },
+  { min: 5000, max: 20000 },
+  { min: 20000, max: 50000 },
+  { min: 50000, max: 100000 },
+  { min: 100000 }
+];
+
 export class PartService {
   private prisma: PrismaClient;
 
@@ -57,73 +128,9 @@ export class PartService {
    */
   async getAllParts(
     options: PartFilterOptions = {}
-  ): Promise<{ parts: Part[]; total: number }> {
+  ): Promise<PartListResult> {
     // Build filter conditions
-    const filterConditions: any = {};
-
-    // Apply text search on name, description, part number, etc.
-    if (options.search) {
-      filterConditions.OR = [
-        { name: { contains: options.search, mode: 'insensitive' } },
-        { description: { contains: options.search, mode: 'insensitive' } },
-        { partNumber: { contains: options.search, mode: 'insensitive' } },
-        { brand: { contains: options.search, mode: 'insensitive' } },
-        { tags: { has: options.search } }
-      ];
-    }
-
-    // Apply category filter
-    if (options.categoryId) {
-      filterConditions.categoryId = options.categoryId;
-    }
-
-    // Apply vendor filter
-    if (options.vendorId) {
-      filterConditions.vendorId = options.vendorId;
-    }
-
-    // Apply condition filter
-    if (options.condition) {
-      filterConditions.condition = options.condition;
-    }
-
-    // Apply price range filter
-    if (options.minPrice !== undefined || options.maxPrice !== undefined) {
-      filterConditions.OR = [
-        { 
-          price: {
-            ...(options.minPrice !== undefined && { gte: options.minPrice }),
-            ...(options.maxPrice !== undefined && { lte: options.maxPrice })
-          }
-        },
-        { 
-          discountedPrice: {
-            ...(options.minPrice !== undefined && { gte: options.minPrice }),
-            ...(options.maxPrice !== undefined && { lte: options.maxPrice })
-          }
-        }
-      ];
-    }
-
-    // Apply brand filter
-    if (options.brand) {
-      filterConditions.brand = { equals: options.brand, mode: 'insensitive' };
-    }
-
-    // Apply tags filter
-    if (options.tags && options.tags.length > 0) {
-      filterConditions.tags = { hasSome: options.tags };
-    }
-
-    // Apply stock filter
-    if (options.inStock !== undefined) {
-      filterConditions.stockQuantity = options.inStock ? { gt: 0 } : { equals: 0 };
-    }
-
-    // Apply active filter
-    if (options.isActive !== undefined) {
-      filterConditions.isActive = options.isActive;
-    }
+    const filterConditions = this.buildFilterConditions(options);
 
     // Count total items matching the filter
     const total = await this.prisma.part.count({
@@ -161,7 +168,19 @@ export class PartService {
       take: limit
     });
 
-    return { parts, total };
+    const result: PartListResult = { parts, total };
+
+    if (options.facets) {
+      result.facets = await this.getFacets(options);
+    }
+
+    // Within a category, offer filters built from its specification schema
+    const categoryIds = this.toList(options.categoryId);
+    if (categoryIds.length > 0) {
+      result.specFilters = await categoryAttributeService.getSpecFilterOptions(categoryIds);
+    }
+
+    return result;
   }
 
   /**
@@ -189,11 +208,49 @@ export class PartService {
           include: {
             promotion: true
           }
+        },
+        fitments: {
+          orderBy: [
+            { make: 'asc' },
+            { model: 'asc' },
+            { yearFrom: 'asc' }
+          ]
         }
       }
     });
   }
 
+  /**
+   * Get the active listings carrying a barcode. Several vendors can stock the
+   * same product, so every listing is returned, cheapest first.
+   */
+  async getPartsByBarcode(code: string): Promise<Part[]> {
+    return this.prisma.part.findMany({
+      where: {
+        barcode: code.trim(),
+        isActive: true
+      },
+      include: {
+        category: {
+          select: {
+            id: true,
+            name: true
+          }
+        },
+        vendor: {
+          select: {
+            id: true,
+            businessName: true,
+            businessLogo: true,
+            rating: true,
+            totalRatings: true
+          }
+        }
+      },
+      orderBy: { price: 'asc' }
+    });
+  }
+
   /**
    * Create a new part
    */
@@ -216,6 +273,8 @@ export class PartService {
       throw new Error('Vendor not found');
     }
 
+    const specifications = await categoryAttributeService.validateSpecifications(data.categoryId, data.specifications);
+
     // Ensure part data is properly formatted
     const partData = {
       name: data.name,
@@ -229,8 +288,7 @@ export class PartService {
       images: data.images || [],
       stockQuantity: data.stockQuantity,
       lowStockAlert: data.lowStockAlert || 5,
-      specifications: data.specifications,
-      compatibleVehicles: data.compatibleVehicles,
+      specifications,
       weight: data.weight,
       dimensions: data.dimensions,
       categoryId: data.categoryId,
@@ -239,8 +297,24 @@ export class PartService {
       isActive: data.isActive !== undefined ? data.isActive : true
     };
 
+    const fitments = fitmentService.normalizeFitments(data.fitments ?? data.compatibleVehicles);
+
     return this.prisma.part.create({
-      data: partData
+      data: {
+        ...partData,
+        fitments: {
+          create: fitments
+        },
+        priceHistory: {
+          create: priceHistoryService.initialEntry({
+            price: partData.price,
+            discountedPrice: partData.discountedPrice ?? null
+          })
+        }
+      },
+      include: {
+        fitments: true
+      }
     });
   }
 
@@ -279,11 +353,47 @@ export class PartService {
       }
     }
 
-    // Update the part
-    return this.prisma.part.update({
-      where: { id: partId },
-      data
+    const { fitments, compatibleVehicles, ...partData } = data;
+    const fitmentInput = fitments ?? compatibleVehicles;
+
+    // Re-check specifications when they or the category (and so the schema) change
+    if (data.specifications !== undefined || (data.categoryId && data.categoryId !== part.categoryId)) {
+      partData.specifications = await categoryAttributeService.validateSpecifications(
+        data.categoryId ?? part.categoryId,
+        data.specifications !== undefined ? data.specifications : part.specifications
+      );
+    }
+
+    // Fitments are replaced wholesale when supplied
+    const updatedPart = await this.prisma.$transaction(async (tx) => {
+      const updated = await tx.part.update({
+        where: { id: partId },
+        data: {
+          ...partData,
+          ...(fitmentInput !== undefined && {
+            fitments: {
+              deleteMany: {},
+              create: fitmentService.normalizeFitments(fitmentInput)
+            }
+          })
+        },
+        include: {
+          fitments: true
+        }
+      });
+
+      await priceHistoryService.recordPriceChange(tx, part, updated, PriceChangeSource.UPDATED);
+
+      return updated;
     });
+
+    await priceHistoryService.notifyPriceDrop(part, updatedPart);
+    await stockAlertService.notifyBackInStock(part.id, part.stockQuantity, updatedPart.stockQuantity);
+
+    // Images dropped from the listing are no longer referenced anywhere
+    await deleteStoredFiles(part.images.filter(image => !updatedPart.images.includes(image)));
+
+    return updatedPart;
   }
 
   /**
@@ -294,7 +404,8 @@ export class PartService {
     const part = await this.prisma.part.findUnique({
       where: { id: partId },
       include: {
-        orderItems: { take: 1 }
+        orderItems: { take: 1 },
+        reviews: { select: { images: true } }
       }
     });
 
@@ -313,6 +424,9 @@ export class PartService {
       await this.prisma.part.delete({
         where: { id: partId }
       });
+
+      // Its reviews went with it, so their photos are orphaned too
+      await deleteStoredFiles([...part.images, ...part.reviews.flatMap(review => review.images)]);
     }
   }
 
@@ -335,10 +449,14 @@ export class PartService {
     }
 
     // Update stock quantity
-    return this.prisma.part.update({
+    const updatedPart = await this.prisma.part.update({
       where: { id: partId },
       data: { stockQuantity: quantity }
     });
+
+    await stockAlertService.notifyBackInStock(part.id, part.stockQuantity, updatedPart.stockQuantity);
+
+    return updatedPart;
   }
 
   /**
@@ -364,10 +482,20 @@ export class PartService {
     }
 
     // Apply discount
-    return this.prisma.part.update({
-      where: { id: partId },
-      data: { discountedPrice }
+    const updatedPart = await this.prisma.$transaction(async (tx) => {
+      const updated = await tx.part.update({
+        where: { id: partId },
+        data: { discountedPrice }
+      });
+
+      await priceHistoryService.recordPriceChange(tx, part, updated, PriceChangeSource.DISCOUNT_APPLIED);
+
+      return updated;
     });
+
+    await priceHistoryService.notifyPriceDrop(part, updatedPart);
+
+    return updatedPart;
   }
 
   /**
@@ -383,10 +511,16 @@ export class PartService {
       throw new Error('Part not found');
     }
 
-    // Remove discount
-    return this.prisma.part.update({
-      where: { id: partId },
-      data: { discountedPrice: null }
+    // Remove discount (a price rise, so there is nothing to alert on)
+    return this.prisma.$transaction(async (tx) => {
+      const updated = await tx.part.update({
+        where: { id: partId },
+        data: { discountedPrice: null }
+      });
+
+      await priceHistoryService.recordPriceChange(tx, part, updated, PriceChangeSource.DISCOUNT_REMOVED);
+
+      return updated;
     });
   }
 
@@ -394,84 +528,21 @@ export class PartService {
    * Find parts compatible with a specific vehicle
    */
   async findCompatibleParts(
-    vehicle: VehicleFilterInput,
+    vehicle: FitmentVehicle,
     options: PartFilterOptions = {}
   ): Promise<{ parts: Part[]; total: number }> {
-    // Build the vehicle compatibility filter
-    const makeModel = `${vehicle.make}|${vehicle.model}`;
-    const makeModelYear = `${vehicle.make}|${vehicle.model}|${vehicle.year}`;
-
-    // Build the filters
-    const filterConditions: any = {
-      OR: [
-        {
-          compatibleVehicles: {
-            path: '$[*].make',
-            array_contains: vehicle.make,
-            mode: 'insensitive'
-          }
-        },
-        {
-          compatibleVehicles: {
-            path: '$[*].makeModel',
-            array_contains: makeModel,
-            mode: 'insensitive'
-          }
-        },
-        {
-          compatibleVehicles: {
-            path: '$[*].makeModelYear',
-            array_contains: makeModelYear,
-            mode: 'insensitive'
-          }
-        }
+    // Usually we want active, in-stock items for compatibility searches
+    const filterConditions: Prisma.PartWhereInput = {
+      AND: [
+        fitmentService.buildFitmentFilter(vehicle),
+        this.buildFilterConditions({
+          ...options,
+          inStock: options.inStock === false ? undefined : true,
+          isActive: options.isActive === false ? undefined : true
+        })
       ]
     };
 
-    // Apply additional filters from options
-    if (options.categoryId) {
-      filterConditions.categoryId = options.categoryId;
-    }
-
-    if (options.vendorId) {
-      filterConditions.vendorId = options.vendorId;
-    }
-
-    if (options.condition) {
-      filterConditions.condition = options.condition;
-    }
-
-    if (options.brand) {
-      filterConditions.brand = { equals: options.brand, mode: 'insensitive' };
-    }
-
-    if (options.minPrice !== undefined || options.maxPrice !== undefined) {
-      filterConditions.OR = [
-        { 
-          price: {
-            ...(options.minPrice !== undefined && { gte: options.minPrice }),
-            ...(options.maxPrice !== undefined && { lte: options.maxPrice })
-          }
-        },
-        { 
-          discountedPrice: {
-            ...(options.minPrice !== undefined && { gte: options.minPrice }),
-            ...(options.maxPrice !== undefined && { lte: options.maxPrice })
-          }
-        }
-      ];
-    }
-
-    // Usually we want in-stock items for compatibility searches
-    if (options.inStock !== false) {
-      filterConditions.stockQuantity = { gt: 0 };
-    }
-
-    // Active parts only by default
-    if (options.isActive !== false) {
-      filterConditions.isActive = true;
-    }
-
     // Count total items matching the filter
     const total = await this.prisma.part.count({
       where: filterConditions
@@ -708,65 +779,36 @@ export class PartService {
   }
 
   /**
-   * Search parts by keyword
+   * Search parts by keyword, ranked by relevance
    */
   async searchParts(
     keyword: string,
     options: PartFilterOptions = {}
-  ): Promise<{ parts: Part[]; total: number }> {
-    // Build search conditions
-    const searchConditions: any = {
-      OR: [
-        { name: { contains: keyword, mode: 'insensitive' } },
-        { description: { contains: keyword, mode: 'insensitive' } },
-        { partNumber: { contains: keyword, mode: 'insensitive' } },
-        { brand: { contains: keyword, mode: 'insensitive' } },
-        { tags: { has: keyword } }
-      ]
-    };
-
-    // Apply additional filters
-    if (options.categoryId) {
-      searchConditions.categoryId = options.categoryId;
-    }
-
-    if (options.vendorId) {
-      searchConditions.vendorId = options.vendorId;
+  ): Promise<PartListResult> {
+    // Rank candidates with full-text, part number and typo-tolerant matching
+    const [rankedParts, interchangeMatches] = await Promise.all([
+      searchService.rankParts(keyword),
+      interchangeService.findInterchangeParts(keyword)
+    ]);
+    const scores = new Map(rankedParts.map(rankedPart => [rankedPart.id, rankedPart.score]));
+
+    // Add listings that interchange with the searched part number (OEM to aftermarket etc.)
+    const interchanges = new Map(interchangeMatches.map(match => [match.partId, match]));
+    for (const match of interchangeMatches) {
+      scores.set(match.partId, Math.max(scores.get(match.partId) || 0, INTERCHANGE_SCORES[match.type]));
     }
 
-    if (options.condition) {
-      searchConditions.condition = options.condition;
-    }
-
-    if (options.minPrice !== undefined || options.maxPrice !== undefined) {
-      searchConditions.AND = searchConditions.AND || [];
-      searchConditions.AND.push({
-        OR: [
-          { 
-            price: {
-              ...(options.minPrice !== undefined && { gte: options.minPrice }),
-              ...(options.maxPrice !== undefined && { lte: options.maxPrice })
-            }
-          },
-          { 
-            discountedPrice: {
-              ...(options.minPrice !== undefined && { gte: options.minPrice }),
-              ...(options.maxPrice !== undefined && { lte: options.maxPrice })
-            }
-          }
-        ]
-      });
-    }
-
-    // Usually we want in-stock items for searches
-    if (options.inStock !== false) {
-      searchConditions.stockQuantity = { gt: 0 };
-    }
+    // Searches default to in-stock, active parts unless explicitly disabled
+    const searchOptions: PartFilterOptions = {
+      ...options,
+      search: undefined,
+      partIds: Array.from(scores.keys()),
+      inStock: options.inStock === false ? undefined : true,
+      isActive: options.isActive === false ? undefined : true
+    };
 
-    // Active parts only by default
-    if (options.isActive !== false) {
-      searchConditions.isActive = true;
-    }
+    // Build search conditions
+    const searchConditions = this.buildFilterConditions(searchOptions);
 
     // Count total items matching the search
     const total = await this.prisma.part.count({
@@ -779,44 +821,168 @@ export class PartService {
     const sortBy = options.sortBy || 'relevance';
     const sortOrder = options.sortOrder || 'desc';
 
-    // Special handling for relevance sorting
-    let orderBy: any;
+    const include = {
+      category: {
+        select: {
+          id: true,
+          name: true
+        }
+      },
+      vendor: {
+        select: {
+          id: true,
+          businessName: true,
+          businessLogo: true,
+          rating: true
+        }
+      }
+    };
+
+    let parts: Part[];
     if (sortBy === 'relevance') {
-      // For relevance, we prioritize exact matches in name, then part number, then brand
-      orderBy = [
-        { name: 'asc' }, // Sort alphabetically by name
-        { partNumber: 'asc' }, // Then by part number
-        { createdAt: 'desc' } // Then by newest first
-      ];
+      // Order the filtered candidates by search score, then load just this page
+      const matchingParts = await this.prisma.part.findMany({
+        where: searchConditions,
+        select: { id: true }
+      });
+
+      const pageIds = matchingParts
+        .map(part => part.id)
+        .sort((a, b) => (scores.get(b) || 0) - (scores.get(a) || 0))
+        .slice(offset, offset + limit);
+
+      const pageParts = await this.prisma.part.findMany({
+        where: { id: { in: pageIds } },
+        include
+      });
+
+      parts = pageIds
+        .map(id => pageParts.find(part => part.id === id))
+        .filter((part): part is typeof pageParts[number] => part !== undefined);
     } else {
-      orderBy = { [sortBy]: sortOrder };
+      parts = await this.prisma.part.findMany({
+        where: searchConditions,
+        include,
+        orderBy: { [sortBy]: sortOrder },
+        skip: offset,
+        take: limit
+      });
     }
 
-    // Get parts with pagination and sorting
-    const parts = await this.prisma.part.findMany({
-      where: searchConditions,
-      include: {
-        category: {
-          select: {
-            id: true,
-            name: true
-          }
-        },
-        vendor: {
-          select: {
-            id: true,
-            businessName: true,
-            businessLogo: true,
-            rating: true
+    // Attach relevance score, highlighted snippets and the interchange relationship
+    const highlights = await searchService.getHighlights(keyword, parts.map(part => part.id));
+    parts = parts.map(part => {
+      const interchange = interchanges.get(part.id);
+
+      return {
+        ...part,
+        availableQuantity: part.stockQuantity - part.reservedQuantity,
+        searchScore: scores.get(part.id) || 0,
+        highlights: highlights.get(part.id) || null,
+        interchange: interchange
+          ? {
+              type: interchange.type,
+              referenceNumber: interchange.referenceNumber,
+              referenceBrand: interchange.referenceBrand
+            }
+          : null
+      };
+    });
+
+    if (options.facets) {
+      return { parts, total, facets: await this.getFacets(searchOptions) };
+    }
+
+    return { parts, total };
+  }
+
+  /**
+   * Compare up to four parts side by side. Specification keys are aligned
+   * across the parts (missing values are null) and each row says whether the
+   * parts differ. When the viewer is a customer with a default vehicle, each
+   * part also says whether it fits that vehicle.
+   */
+  async compareParts(partIds: string[], userId?: string): Promise<PartComparison> {
+    const ids = [...new Set(partIds)];
+
+    if (ids.length < 2 || ids.length > MAX_COMPARE_PARTS) {
+      throw new Error(`Select between 2 and ${MAX_COMPARE_PARTS} parts to compare`);
+    }
+
+    const [parts, vehicle] = await Promise.all([
+      this.prisma.part.findMany({
+        where: { id: { in: ids }, isActive: true },
+        include: {
+          category: { select: { id: true, name: true } },
+          vendor: {
+            select: {
+              id: true,
+              businessName: true,
+              rating: true,
+              totalRatings: true
+            }
           }
         }
-      },
-      orderBy,
-      skip: offset,
-      take: limit
+      }),
+      userId ? this.getDefaultVehicle(userId) : Promise.resolve(null)
+    ]);
+
+    if (parts.length !== ids.length) {
+      throw new Error('Part not found');
+    }
+
+    // Keep the order the parts were requested in
+    const ordered = ids.map(id => parts.find(part => part.id === id)!);
+
+    let fittingIds: Set<string> | null = null;
+
+    if (vehicle) {
+      const fitting = await this.prisma.part.findMany({
+        where: { id: { in: ids }, ...fitmentService.buildFitmentFilter(vehicle) },
+        select: { id: true }
+      });
+      fittingIds = new Set(fitting.map(part => part.id));
+    }
+
+    const specs = ordered.map(part => this.toSpecificationMap(part.specifications));
+    const warranties = specs.map(spec => spec.get('warranty')?.value ?? null);
+
+    const attributes: ComparisonRow[] = [
+      this.buildComparisonRow('price', 'Price', ordered.map(part => part.discountedPrice ?? part.price)),
+      this.buildComparisonRow('condition', 'Condition', ordered.map(part => part.condition)),
+      this.buildComparisonRow('brand', 'Brand', ordered.map(part => part.brand)),
+      this.buildComparisonRow('warranty', 'Warranty', warranties),
+      this.buildComparisonRow('weight', 'Weight (kg)', ordered.map(part => part.weight)),
+      this.buildComparisonRow('dimensions', 'Dimensions (cm)', ordered.map(part => part.dimensions)),
+      this.buildComparisonRow('vendorRating', 'Vendor rating', ordered.map(part => part.vendor.rating))
+    ];
+
+    // Union of specification keys in first-seen order; warranty has its own row above
+    const specKeys: { key: string; label: string }[] = [];
+    specs.forEach(spec => {
+      spec.forEach((entry, key) => {
+        if (key !== 'warranty' && !specKeys.some(existing => existing.key === key)) {
+          specKeys.push({ key, label: entry.label });
+        }
+      });
     });
 
-    return { parts, total };
+    const specifications = specKeys.map(({ key, label }) =>
+      this.buildComparisonRow(key, label, specs.map(spec => spec.get(key)?.value ?? null))
+    );
+
+    return {
+      vehicle: vehicle
+        ? { id: vehicle.id, make: vehicle.make, model: vehicle.model, year: vehicle.year }
+        : null,
+      parts: ordered.map(part => ({
+        ...part,
+        effectivePrice: part.discountedPrice ?? part.price,
+        fitsVehicle: fittingIds ? fittingIds.has(part.id) : null
+      })),
+      attributes,
+      specifications
+    };
   }
 
   /**
@@ -839,6 +1005,346 @@ export class PartService {
       count: brand._count?._all || 0
     }));
   }
+
+  /**
+   * Get the default vehicle of a customer, if the user is one and has set it
+   */
+  private async getDefaultVehicle(userId: string) {
+    const customer = await this.prisma.customer.findUnique({
+      where: { userId },
+      select: { id: true }
+    });
+
+    if (!customer) {
+      return null;
+    }
+
+    return this.prisma.vehicle.findFirst({
+      where: { customerId: customer.id, isDefault: true }
+    });
+  }
+
+  /**
+   * Index a part's specifications by case-insensitive key, keeping the
+   * original key as the label. Nested values are flattened to text.
+   */
+  private toSpecificationMap(specifications: Prisma.JsonValue): Map<string, { label: string; value: string | number | null }> {
+    const map = new Map<string, { label: string; value: string | number | null }>();
+
+    if (!specifications || typeof specifications !== 'object' || Array.isArray(specifications)) {
+      return map;
+    }
+
+    Object.entries(specifications).forEach(([label, value]) => {
+      const key = label.trim().toLowerCase();
+
+      if (value === null || value === undefined) {
+        map.set(key, { label, value: null });
+      } else if (typeof value === 'number' || typeof value === 'string') {
+        map.set(key, { label, value });
+      } else if (Array.isArray(value)) {
+        map.set(key, { label, value: value.join(', ') });
+      } else {
+        map.set(key, { label, value: JSON.stringify(value) });
+      }
+    });
+
+    return map;
+  }
+
+  /**
+   * A comparison row, flagged as different when any two values don't match
+   * (text is compared ignoring case and surrounding whitespace)
+   */
+  private buildComparisonRow(key: string, label: string, values: (string | number | null)[]): ComparisonRow {
+    const normalized = values.map(value =>
+      typeof value === 'string' ? value.trim().toLowerCase() : value
+    );
+
+    return {
+      key,
+      label,
+      values,
+      isDifferent: normalized.some(value => value !== normalized[0])
+    };
+  }
+
+  /**
+   * Build the where clause shared by listing, search and facet queries.
+   * Passing `exclude` drops that field's own selection so a facet can
+   * report counts for every value the shopper could still pick.
+   */
+  private buildFilterConditions(
+    options: PartFilterOptions,
+    exclude?: FacetField
+  ): Prisma.PartWhereInput {
+    const conditions: Prisma.PartWhereInput[] = [];
+
+    // Apply text search on name, description, part number, etc.
+    if (options.search) {
+      conditions.push({
+        OR: [
+          { name: { contains: options.search, mode: 'insensitive' } },
+          { description: { contains: options.search, mode: 'insensitive' } },
+          { partNumber: { contains: options.search, mode: 'insensitive' } },
+          { brand: { contains: options.search, mode: 'insensitive' } },
+          { tags: { has: options.search } }
+        ]
+      });
+    }
+
+    // Restrict to a precomputed candidate set (e.g. ranked search results)
+    if (options.partIds) {
+      conditions.push({ id: { in: options.partIds } });
+    }
+
+    const categoryIds = this.toList(options.categoryId);
+    if (categoryIds.length > 0 && exclude !== 'categoryId') {
+      conditions.push({ categoryId: { in: categoryIds } });
+    }
+
+    const vendorIds = this.toList(options.vendorId);
+    if (vendorIds.length > 0 && exclude !== 'vendorId') {
+      conditions.push({ vendorId: { in: vendorIds } });
+    }
+
+    const conditionValues = this.toList(options.condition);
+    if (conditionValues.length > 0 && exclude !== 'condition') {
+      conditions.push({ condition: { in: conditionValues } });
+    }
+
+    if (
+      (options.minPrice !== undefined || options.maxPrice !== undefined) &&
+      exclude !== 'price'
+    ) {
+      conditions.push(this.buildPriceCondition({ min: options.minPrice, max: options.maxPrice }, true));
+    }
+
+    const brands = this.toList(options.brand);
+    if (brands.length > 0 && exclude !== 'brand') {
+      conditions.push({
+        OR: brands.map(brand => ({ brand: { equals: brand, mode: 'insensitive' as const } }))
+      });
+    }
+
+    if (options.tags && options.tags.length > 0) {
+      conditions.push({ tags: { hasSome: options.tags } });
+    }
+
+    // In stock means some is left once stock held for pending payments is set aside
+    if (options.inStock !== undefined) {
+      const reservedQuantity = this.prisma.part.fields.reservedQuantity;
+      conditions.push({ stockQuantity: options.inStock ? { gt: reservedQuantity } : { lte: reservedQuantity } });
+    }
+
+    if (options.isActive !== undefined) {
+      conditions.push({ isActive: options.isActive });
+    }
+
+    (options.specFilters ?? []).forEach(filter => {
+      conditions.push(...this.buildSpecConditions(filter));
+    });
+
+    return conditions.length > 0 ? { AND: conditions } : {};
+  }
+
+  /**
+   * Match a specification value, e.g. spec.voltage=12 or spec.voltage.min=12.
+   * Values match whether they were stored as text, a number or yes/no, since
+   * parts saved before their category had a schema may hold any of these.
+   */
+  private buildSpecConditions(filter: SpecFilter): Prisma.PartWhereInput[] {
+    const path = [normalizeSpecKey(filter.key)];
+    const conditions: Prisma.PartWhereInput[] = [];
+
+    if (filter.values && filter.values.length > 0) {
+      conditions.push({
+        OR: filter.values.flatMap(value => {
+          const forms: Prisma.InputJsonValue[] = [value];
+          const lower = value.toLowerCase();
+
+          if (value.trim() !== '' && !isNaN(Number(value))) {
+            forms.push(Number(value));
+          }
+
+          if (lower === 'true' || lower === 'false') {
+            forms.push(lower === 'true');
+          }
+
+          return forms.map(form => ({ specifications: { path, equals: form } }));
+        })
+      });
+    }
+
+    if (filter.min !== undefined) {
+      conditions.push({ specifications: { path, gte: filter.min } });
+    }
+
+    if (filter.max !== undefined) {
+      conditions.push({ specifications: { path, lte: filter.max } });
+    }
+
+    return conditions;
+  }
+
+  /**
+   * Match a part when the price it sells at (the discounted price if it has one,
+   * else the list price) falls in the range. Facet buckets use an exclusive upper
+   * bound so adjacent buckets don't overlap.
+   */
+  private buildPriceCondition(range: PriceRange, inclusiveMax: boolean = false): Prisma.PartWhereInput {
+    const bounds = {
+      ...(range.min !== undefined && { gte: range.min }),
+      ...(range.max !== undefined && (inclusiveMax ? { lte: range.max } : { lt: range.max }))
+    };
+
+    return {
+      OR: [
+        { discountedPrice: bounds },
+        { discountedPrice: null, price: bounds }
+      ]
+    };
+  }
+
+  /**
+   * Merge brand buckets that differ only in case, as the brand filter ignores case.
+   * Each bucket is labelled with its most common spelling.
+   */
+  private mergeBrandGroups(groups: { brand: string | null; _count: { _all: number } }[]): FacetBucket[] {
+    const merged = new Map<string, { spelling: string; spellingCount: number; count: number }>();
+
+    for (const group of groups) {
+      if (!group.brand) {
+        continue;
+      }
+
+      const key = group.brand.toLowerCase();
+      const bucket = merged.get(key);
+
+      if (!bucket) {
+        merged.set(key, { spelling: group.brand, spellingCount: group._count._all, count: group._count._all });
+        continue;
+      }
+
+      bucket.count += group._count._all;
+      if (group._count._all > bucket.spellingCount) {
+        bucket.spelling = group.brand;
+        bucket.spellingCount = group._count._all;
+      }
+    }
+
+    return Array.from(merged.values())
+      .sort((a, b) => b.count - a.count)
+      .map(bucket => ({ value: bucket.spelling, label: bucket.spelling, count: bucket.count }));
+  }
+
+  /**
+   * Aggregate facet counts for brand, condition, category, vendor and price
+   */
+  private async getFacets(options: PartFilterOptions): Promise<PartFacets> {
+    const priceRanges = options.priceRanges && options.priceRanges.length > 0
+      ? options.priceRanges
+      : DEFAULT_PRICE_RANGES;
+
+    const [brandGroups, conditionGroups, categoryGroups, vendorGroups, priceCounts] = await Promise.all([
+      this.prisma.part.groupBy({
+        by: ['brand'],
+        where: { AND: [this.buildFilterConditions(options, 'brand'), { brand: { not: null } }] },
+        _count: { _all: true },
+        orderBy: { _count: { id: 'desc' } }
+      }),
+      this.prisma.part.groupBy({
+        by: ['condition'],
+        where: this.buildFilterConditions(options, 'condition'),
+        _count: { _all: true },
+        orderBy: { _count: { id: 'desc' } }
+      }),
+      this.prisma.part.groupBy({
+        by: ['categoryId'],
+        where: this.buildFilterConditions(options, 'categoryId'),
+        _count: { _all: true },
+        orderBy: { _count: { id: 'desc' } }
+      }),
+      this.prisma.part.groupBy({
+        by: ['vendorId'],
+        where: this.buildFilterConditions(options, 'vendorId'),
+        _count: { _all: true },
+        orderBy: { _count: { id: 'desc' } }
+      }),
+      Promise.all(priceRanges.map(range =>
+        this.prisma.part.count({
+          where: {
+            AND: [this.buildFilterConditions(options, 'price'), this.buildPriceCondition(range)]
+          }
+        })
+      ))
+    ]);
+
+    // Resolve display names for category and vendor buckets
+    const [categories, vendors] = await Promise.all([
+      this.prisma.category.findMany({
+        where: { id: { in: categoryGroups.map(group => group.categoryId) } },
+        select: { id: true, name: true }
+      }),
+      this.prisma.vendor.findMany({
+        where: { id: { in: vendorGroups.map(group => group.vendorId) } },
+        select: { id: true, businessName: true }
+      })
+    ]);
+
+    const categoryNames = new Map(categories.map(category => [category.id, category.name]));
+    const vendorNames = new Map(vendors.map(vendor => [vendor.id, vendor.businessName]));
+
+    return {
+      brand: this.mergeBrandGroups(brandGroups),
+      condition: conditionGroups.map(group => ({
+        value: group.condition,
+        label: group.condition,
+        count: group._count._all
+      })),
+      categoryId: categoryGroups.map(group => ({
+        value: group.categoryId,
+        label: categoryNames.get(group.categoryId) || group.categoryId,
+        count: group._count._all
+      })),
+      vendorId: vendorGroups.map(group => ({
+        value: group.vendorId,
+        label: vendorNames.get(group.vendorId) || group.vendorId,
+        count: group._count._all
+      })),
+      price: priceRanges.map((range, index) => ({
+        ...range,
+        label: this.formatPriceRangeLabel(range),
+        count: priceCounts[index]
+      }))
+    };
+  }
+
+  /**
+   * Human readable label for a price bucket, e.g. "5000 - 20000" or "100000+"
+   */
+  private formatPriceRangeLabel(range: PriceRange): string {
+    if (range.min === undefined && range.max !== undefined) {
+      return `Under ${range.max}`;
+    }
+
+    if (range.max === undefined) {
+      return `${range.min ?? 0}+`;
+    }
+
+    return `${range.min} - ${range.max}`;
+  }
+
+  /**
+   * Normalise a single or multi-select filter value into a list
+   */
+  private toList<T>(value?: T | T[]): T[] {
+    if (value === undefined || value === null) {
+      return [];
+    }
+
+    return Array.isArray(value) ? value : [value];
+  }
 }
 
 export default new PartService();
\ No newline at end of file
@@ -1,7 +1,10 @@
-import { PrismaClient, PaymentType, TransactionType, TransactionStatus, PaymentStatus } from '@prisma/client';
+import { PrismaClient, Prisma, PaymentType, TransactionType, TransactionStatus, PaymentStatus, OrderStatus, Refund } from '@prisma/client';
 import { BadRequestException, NotFoundException } from '../utils/exceptions.util';
 import { generateReference } from '../utils/reference.util';
 import flutterwaveUtil from '../utils/flutterwave.util';
+import stockReservationService from './stock-reservation.service';
+import orderStatusService from './order-status.service';
+import invoiceService from './invoice.service';
 import { prisma } from '../app';
 
 interface PaymentMethodDto {
@@ -26,6 +29,13 @@ interface ProcessPaymentDto {
   redirectUrl?: string;
 }
 
+interface CheckoutPaymentDto {
+  checkoutId: string;
+  customerId: string;
+  currency?: string;
+  redirectUrl?: string;
+}
+
 interface PaymentVerificationDto {
   transactionId?: string;
   reference?: string;
@@ -224,6 +234,13 @@ export class PaymentService {
         throw new BadRequestException('Order has already been paid');
       }
 
+      if (order.isCancelled) {
+        throw new BadRequestException('Order has been cancelled');
+      }
+
+      // Hold the stock for the length of the payment
+      await stockReservationService.renewForOrder(order.id);
+
       // Generate reference if not provided
       const paymentReference = data.paymentReference || generateReference('PAY');
 
@@ -299,7 +316,139 @@ export class PaymentService {
   }
 
   /**
-   * Verify payment and update order status
+   * Initialize a single payment for the orders of a multi-vendor checkout.
+   * Orders cancelled since checkout are left out and the checkout's totals are
+   * recomputed from the rest, so the amount always matches the orders charged.
+   */
+  async initializeCheckoutPayment(data: CheckoutPaymentDto): Promise<any> {
+    try {
+      const checkout = await this.prisma.checkoutSession.findUnique({
+        where: { id: data.checkoutId },
+        include: {
+          customer: {
+            include: { user: true }
+          },
+          orders: {
+            select: {
+              id: true,
+              orderNumber: true,
+              vendorId: true,
+              subtotal: true,
+              deliveryFee: true,
+              tax: true,
+              discount: true,
+              total: true,
+              isCancelled: true
+            }
+          }
+        }
+      });
+
+      if (!checkout || checkout.customerId !== data.customerId) {
+        throw new NotFoundException('Checkout not found');
+      }
+
+      if (checkout.paymentStatus === PaymentStatus.PAID) {
+        throw new BadRequestException('Checkout has already been paid');
+      }
+
+      // Orders cancelled since checkout are dropped; the customer pays for the rest
+      const orders = checkout.orders.filter(order => !order.isCancelled);
+
+      if (orders.length === 0) {
+        throw new BadRequestException('Every order in this checkout has been cancelled');
+      }
+
+      const sum = (field: 'subtotal' | 'deliveryFee' | 'tax' | 'discount' | 'total') =>
+        Math.round(orders.reduce((total, order) => total + order[field], 0) * 100) / 100;
+      const amount = sum('total');
+
+      // Hold the stock for the length of the payment
+      for (const order of orders) {
+        await stockReservationService.renewForOrder(order.id);
+      }
+
+      const paymentReference = generateReference('PAY');
+
+      const transaction = await this.prisma.transaction.create({
+        data: {
+          reference: paymentReference,
+          type: TransactionType.PAYMENT,
+          amount,
+          fee: this.calculateTransactionFee(amount),
+          status: TransactionStatus.PENDING,
+          paymentMethod: checkout.paymentMethod,
+          currency: data.currency || 'NGN',
+          checkoutSessionId: checkout.id,
+          customerId: checkout.customerId,
+          metadata: {
+            checkoutReference: checkout.reference,
+            orders: orders.map(order => ({
+              orderNumber: order.orderNumber,
+              vendorId: order.vendorId,
+              total: order.total
+            }))
+          }
+        }
+      });
+
+      await this.prisma.$transaction([
+        this.prisma.checkoutSession.update({
+          where: { id: checkout.id },
+          data: {
+            subtotal: sum('subtotal'),
+            deliveryFee: sum('deliveryFee'),
+            tax: sum('tax'),
+            discount: sum('discount'),
+            total: amount,
+            paymentReference,
+            paymentStatus: PaymentStatus.PENDING
+          }
+        }),
+        this.prisma.order.updateMany({
+          where: { id: { in: orders.map(order => order.id) } },
+          data: {
+            paymentReference,
+            paymentStatus: PaymentStatus.PENDING
+          }
+        })
+      ]);
+
+      const customerEmail = checkout.customer.user.email;
+      const redirectUrl = data.redirectUrl || `${process.env.FRONTEND_URL}/payment/verify?reference=${paymentReference}`;
+
+      const flutterwaveResponse = await flutterwaveUtil.initializePayment({
+        amount,
+        currency: data.currency || 'NGN',
+        redirectUrl,
+        customerName: `${checkout.customer.firstName} ${checkout.customer.lastName}`,
+        customerEmail: customerEmail || '',
+        customerPhoneNumber: checkout.customer.user.phone || '',
+        paymentReference,
+        meta: {
+          checkoutId: checkout.id,
+          checkoutReference: checkout.reference,
+          transactionId: transaction.id
+        }
+      });
+
+      return {
+        success: true,
+        transaction,
+        paymentUrl: flutterwaveResponse.data.link,
+        reference: paymentReference
+      };
+    } catch (error: any) {
+      if (error instanceof NotFoundException || error instanceof BadRequestException) {
+        throw error;
+      }
+      throw new BadRequestException(`Failed to initialize payment: ${error.message}`);
+    }
+  }
+
+  /**
+   * Verify payment and update order status. A checkout payment is allocated
+   * to each of the checkout's orders by that order's total.
    */
   async verifyPayment(data: PaymentVerificationDto): Promise<any> {
     try {
@@ -334,6 +483,13 @@ export class PaymentService {
                 include: { part: true }
               }
             }
+          },
+          checkoutSession: {
+            include: {
+              orders: {
+                include: { vendor: true }
+              }
+            }
           }
         }
       });
@@ -350,6 +506,11 @@ export class PaymentService {
         };
       }
 
+      if (flwData.status === 'failed') {
+        await this.recordFailedPayment(reference);
+        throw new BadRequestException('Payment failed');
+      }
+
       // Verify amount matches
       const amount = parseFloat(flwData.amount);
       if (amount !== transaction.amount) {
@@ -366,62 +527,123 @@ export class PaymentService {
         }
       });
 
-      if (!transaction.order) {
+      const checkout = transaction.checkoutSession;
+      // A checkout payment covers the orders it was initialized for, not ones cancelled before
+      const chargedOrders = (transaction.metadata as { orders?: { orderNumber: string }[] } | null)?.orders;
+      const allocations = checkout
+        ? checkout.orders
+            .filter(order => !chargedOrders || chargedOrders.some(charged => charged.orderNumber === order.orderNumber))
+            .map(order => ({ order, amount: order.total }))
+        : transaction.order
+          ? [{ order: transaction.order, amount: transaction.amount }]
+          : [];
+
+      if (!allocations.length) {
         throw new BadRequestException('Order not found for this transaction');
       }
 
-      // Store order in a variable after null check
-      const order = transaction.order;
-      
-      // Calculate earnings
-      const vendor = order.vendor;
-      const orderAmount = transaction.amount;
-      const commissionRate = vendor.commissionRate || 5.0; // Default 5% if not set
-      const commissionAmount = (orderAmount * commissionRate) / 100;
-      const vendorEarning = orderAmount - commissionAmount;
-
       // Update order payment status and vendor earnings
-      await this.prisma.$transaction(async (tx) => {
-        // Update order
-        await tx.order.update({
-          where: { id: order.id },
-          data: {
-            paymentStatus: PaymentStatus.PAID,
-            orderStatus: 'PROCESSING'
+      const paidOrderIds = await this.prisma.$transaction(async (tx) => {
+        const paid: string[] = [];
+
+        for (const { order, amount: orderAmount } of allocations) {
+          // An order cancelled while the customer was paying gave its stock back
+          // and isn't going ahead, so the money is flagged to go back instead
+          const current = await tx.order.findUniqueOrThrow({
+            where: { id: order.id },
+            select: { isCancelled: true }
+          });
+
+          if (current.isCancelled) {
+            await tx.systemLog.create({
+              data: {
+                action: 'PAYMENT_REFUND_REQUIRED',
+                entityType: 'Order',
+                entityId: order.id,
+                performedById: transaction.customerId,
+                details: {
+                  transactionId: transaction.id,
+                  checkoutSessionId: checkout?.id,
+                  gatewayReference: flwData.flw_ref || flwData.id,
+                  amount: orderAmount,
+                  reason: 'Order was cancelled before its payment was verified'
+                }
+              }
+            });
+            continue;
           }
-        });
 
-        // Update vendor earnings
-        await tx.vendor.update({
-          where: { id: vendor.id },
-          data: {
-            totalEarnings: {
-              increment: vendorEarning
-            }
+          // Calculate earnings
+          const vendor = order.vendor;
+          const commissionRate = vendor.commissionRate || 5.0; // Default 5% if not set
+          const commissionAmount = (orderAmount * commissionRate) / 100;
+          const vendorEarning = orderAmount - commissionAmount;
+
+          // Update order, moving it on to processing unless the vendor already has
+          await tx.order.update({
+            where: { id: order.id },
+            data: { paymentStatus: PaymentStatus.PAID }
+          });
+
+          if (order.orderStatus === OrderStatus.RECEIVED) {
+            await orderStatusService.transition(tx, order, OrderStatus.PROCESSING, {
+              note: 'Payment verified'
+            });
           }
-        });
 
-        // Log the payment
-        await tx.systemLog.create({
-          data: {
-            action: 'PAYMENT_VERIFIED',
-            entityType: 'Order',
-            entityId: order.id,
-            performedById: transaction.customerId,
-            details: {
-              transactionId: transaction.id,
-              gatewayReference: flwData.flw_ref || flwData.id,
-              amount: transaction.amount,
-              commissionAmount,
-              vendorEarning
+          // The held stock is now sold
+          await stockReservationService.convertForOrder(tx, order.id);
+
+          // Update vendor earnings
+          await tx.vendor.update({
+            where: { id: vendor.id },
+            data: {
+              totalEarnings: {
+                increment: vendorEarning
+              }
             }
-          }
-        });
+          });
+
+          // Log the payment
+          await tx.systemLog.create({
+            data: {
+              action: 'PAYMENT_VERIFIED',
+              entityType: 'Order',
+              entityId: order.id,
+              performedById: transaction.customerId,
+              details: {
+                transactionId: transaction.id,
+                checkoutSessionId: checkout?.id,
+                gatewayReference: flwData.flw_ref || flwData.id,
+                amount: orderAmount,
+                commissionAmount,
+                vendorEarning
+              }
+            }
+          });
+
+          paid.push(order.id);
+        }
+
+        if (checkout && paid.length) {
+          await tx.checkoutSession.update({
+            where: { id: checkout.id },
+            data: { paymentStatus: PaymentStatus.PAID }
+          });
+        }
+
+        return paid;
       });
 
+      for (const orderId of paidOrderIds) {
+        await invoiceService.sendOrderConfirmation(orderId);
+      }
+
       return {
         success: true,
-        message: 'Payment verified successfully',
+        message: paidOrderIds.length
+          ? 'Payment verified successfully'
+          : 'Payment received, but the order was cancelled and will be refunded',
         transaction: updatedTransaction
       };
     } catch (error: any) {
@@ -433,73 +655,75 @@ export class PaymentService {
   }
 
   /**
-   * Request a refund
+   * Mark a payment as failed and give back the stock held for its orders.
+   * The orders stay open so the customer can try paying again.
    */
-  async requestRefund(data: RefundRequestDto): Promise<any> {
-    try {
-      // Check if order exists
-      const order = await this.prisma.order.findUnique({
-        where: { id: data.orderId }
-      });
+  async recordFailedPayment(reference: string): Promise<void> {
+    const transaction = await this.prisma.transaction.findFirst({
+      where: { reference },
+      select: { id: true, status: true, orderId: true, checkoutSessionId: true }
+    });
+
+    if (!transaction || transaction.status !== TransactionStatus.PENDING) {
+      return;
+    }
 
-      if (!order) {
-        throw new NotFoundException('Order not found');
-      }
+    const orderIds = transaction.checkoutSessionId
+      ? (await this.prisma.order.findMany({
+          where: { checkoutSessionId: transaction.checkoutSessionId },
+          select: { id: true }
+        })).map(order => order.id)
+      : transaction.orderId ? [transaction.orderId] : [];
 
-      // Check if the transaction exists
-      const transaction = await this.prisma.transaction.findUnique({
-        where: { id: data.transactionId }
+    await this.prisma.$transaction(async (tx) => {
+      await tx.transaction.update({
+        where: { id: transaction.id },
+        data: { status: TransactionStatus.FAILED }
       });
 
-      if (!transaction) {
-        throw new NotFoundException('Transaction not found');
-      }
-
-      // Check if order is paid
-      if (order.paymentStatus !== PaymentStatus.PAID) {
-        throw new BadRequestException('Order must be paid before requesting refund');
-      }
+      for (const orderId of orderIds) {
+        await tx.order.update({
+          where: { id: orderId },
+          data: { paymentStatus: PaymentStatus.FAILED }
+        });
 
-      // Check if refund amount is valid
-      if (data.amount <= 0 || data.amount > order.total) {
-        throw new BadRequestException('Invalid refund amount');
+        await stockReservationService.releaseForOrder(tx, orderId);
       }
 
-      // Check for existing refunds
-      const existingRefunds = await this.prisma.refund.findMany({
-        where: { orderId: data.orderId }
-      });
-      
-      const totalRefunded = existingRefunds.reduce((sum, refund) => sum + refund.amount, 0);
-      
-      // Check if refund exceeds remaining balance
-      if (totalRefunded + data.amount > order.total) {
-        throw new BadRequestException('Refund amount exceeds order total');
+      if (transaction.checkoutSessionId) {
+        await tx.checkoutSession.update({
+          where: { id: transaction.checkoutSessionId },
+          data: { paymentStatus: PaymentStatus.FAILED }
+        });
       }
+    });
+  }
 
-      // Create refund record
-      const refund = await this.prisma.refund.create({
-        data: {
-          orderId: data.orderId,
-          transactionId: data.transactionId,
-          amount: data.amount,
-          reason: data.reason,
-          status: 'PENDING'
-        }
-      });
+  /**
+   * The successful gateway payment that paid for an order, either on its own
+   * or as part of its checkout. Null for orders not paid through the gateway,
+   * such as cash on delivery.
+   */
+  async getOrderPayment(order: { id: string; checkoutSessionId: string | null }) {
+    return this.prisma.transaction.findFirst({
+      where: {
+        type: TransactionType.PAYMENT,
+        status: TransactionStatus.SUCCESSFUL,
+        OR: [
+          { orderId: order.id },
+          ...(order.checkoutSessionId ? [{ checkoutSessionId: order.checkoutSessionId }] : [])
+        ]
+      },
+      orderBy: { createdAt: 'desc' }
+    });
+  }
 
-      // Update order payment status if this is a full refund
-      if (totalRefunded + data.amount === order.total) {
-        await this.prisma.order.update({
-          where: { id: data.orderId },
-          data: { paymentStatus: PaymentStatus.REFUNDED }
-        });
-      } else if (totalRefunded + data.amount > 0) {
-        await this.prisma.order.update({
-          where: { id: data.orderId },
-          data: { paymentStatus: PaymentStatus.PARTIALLY_REFUNDED }
-        });
-      }
+  /**
+   * Request a refund
+   */
+  async requestRefund(data: RefundRequestDto): Promise<any> {
+    try {
+      const refund = await this.prisma.$transaction((tx) => this.createRefund(tx, data));
 
       return {
         success: true,
@@ -514,6 +738,118 @@ export class PaymentService {
     }
   }
 
+  /**
+   * Create a pending refund and mark the order refunded or partly refunded,
+   * within the caller's transaction so the refund is undone if it fails
+   */
+  async createRefund(tx: Prisma.TransactionClient, data: RefundRequestDto): Promise<Refund> {
+    // Check if order exists
+    const order = await tx.order.findUnique({
+      where: { id: data.orderId }
+    });
+
+    if (!order) {
+      throw new NotFoundException('Order not found');
+    }
+
+    // Check if the transaction exists
+    const transaction = await tx.transaction.findUnique({
+      where: { id: data.transactionId }
+    });
+
+    if (!transaction) {
+      throw new NotFoundException('Transaction not found');
+    }
+
+    // Check if order is paid; a partly refunded order can be refunded again up to its total
+    if (order.paymentStatus !== PaymentStatus.PAID && order.paymentStatus !== PaymentStatus.PARTIALLY_REFUNDED) {
+      throw new BadRequestException('Order must be paid before requesting refund');
+    }
+
+    // Check if refund amount is valid
+    if (data.amount <= 0 || data.amount > order.total) {
+      throw new BadRequestException('Invalid refund amount');
+    }
+
+    // Check for existing refunds
+    const existingRefunds = await tx.refund.findMany({
+      where: { orderId: data.orderId }
+    });
+    
+    const totalRefunded = existingRefunds.reduce((sum, refund) => sum + refund.amount, 0);
+    
+    // Check if refund exceeds remaining balance
+    if (totalRefunded + data.amount > order.total) {
+      throw new BadRequestException('Refund amount exceeds order total');
+    }
+
+    // Create refund record
+    const refund = await tx.refund.create({
+      data: {
+        orderId: data.orderId,
+        transactionId: data.transactionId,
+        amount: data.amount,
+        reason: data.reason,
+        status: 'PENDING'
+      }
+    });
+
+    // Update order payment status if this is a full refund
+    if (totalRefunded + data.amount === order.total) {
+      await tx.order.update({
+        where: { id: data.orderId },
+        data: { paymentStatus: PaymentStatus.REFUNDED }
+      });
+    } else if (totalRefunded + data.amount > 0) {
+      await tx.order.update({
+        where: { id: data.orderId },
+        data: { paymentStatus: PaymentStatus.PARTIALLY_REFUNDED }
+      });
+    }
+
+    return refund;
+  }
+
+  /**
+   * Take a refund back off the vendor's earnings, within the caller's transaction.
+   * The vendor was credited the order less commission when it was paid, so that
+   * share of the refund is debited and recorded as an adjustment. Returns the
+   * amount debited.
+   */
+  async debitVendorForRefund(
+    tx: Prisma.TransactionClient,
+    refund: Pick<Refund, 'id' | 'orderId' | 'amount'>,
+    metadata: Record<string, string>
+  ): Promise<number> {
+    const order = await tx.order.findUniqueOrThrow({
+      where: { id: refund.orderId },
+      select: { vendorId: true, paymentMethod: true, vendor: { select: { commissionRate: true } } }
+    });
+
+    const commissionRate = order.vendor.commissionRate || 5.0; // Default 5% if not set
+    const adjustment = refund.amount - (refund.amount * commissionRate) / 100;
+
+    await tx.vendor.update({
+      where: { id: order.vendorId },
+      data: { totalEarnings: { decrement: adjustment } }
+    });
+
+    await tx.transaction.create({
+      data: {
+        reference: generateReference('ADJ'),
+        type: TransactionType.ADJUSTMENT,
+        amount: adjustment,
+        status: TransactionStatus.SUCCESSFUL,
+        paymentMethod: order.paymentMethod,
+        orderId: refund.orderId,
+        vendorId: order.vendorId,
+        metadata: { ...metadata, refundId: refund.id }
+      }
+    });
+
+    return adjustment;
+  }
+
   /**
    * Process a refund
    */
@@ -538,13 +874,19 @@ export class PaymentService {
       // In a real implementation, you'd call Flutterwave's refund API here
       // For now, we'll simulate a successful refund
 
-      // Update refund status
-      const updatedRefund = await this.prisma.refund.update({
-        where: { id: refundId },
-        data: {
-          status: 'PROCESSED',
-          processedAt: new Date()
-        }
+      // Update refund status and credit the invoice by the amount refunded
+      const updatedRefund = await this.prisma.$transaction(async (tx) => {
+        const processed = await tx.refund.update({
+          where: { id: refundId },
+          data: {
+            status: 'PROCESSED',
+            processedAt: new Date()
+          }
+        });
+
+        await invoiceService.issueCreditNote(tx, processed);
+
+        return processed;
       });
 
       // Log the refund processing
@@ -675,8 +1017,16 @@ export class PaymentService {
 
       // Process based on event type
       if (payload.event === 'charge.completed') {
-        // Handle successful payment
         const data = payload.data;
+
+        // Handle declined payment
+        if (data.status === 'failed') {
+          await this.recordFailedPayment(data.tx_ref);
+
+          return { success: true, message: 'Payment failure recorded' };
+        }
+
+        // Handle successful payment
         
         // Verify the payment
         await this.verifyPayment({ reference: data.tx_ref });
@@ -0,0 +1,161 @@
+import { PrismaClient, PartPriceHistory, PriceChangeSource, Prisma } from '@prisma/client';
+import { NotFoundException } from '../utils/exceptions.util';
+import notificationService from './notification.service';
+
+interface PriceSnapshot {
+  price: number;
+  discountedPrice: number | null;
+}
+
+interface PricedPart extends PriceSnapshot {
+  id: string;
+  isActive: boolean;
+}
+
+interface PriceHistoryOptions {
+  days?: number;
+}
+
+// Wishlisted customers are alerted when the effective price falls by at least this fraction
+const PRICE_DROP_ALERT_THRESHOLD = 0.05;
+
+const DEFAULT_HISTORY_DAYS = 90;
+
+/**
+ * The price a customer actually pays
+ */
+export function getEffectivePrice(snapshot: PriceSnapshot): number {
+  return snapshot.discountedPrice ?? snapshot.price;
+}
+
+export class PriceHistoryService {
+  private prisma: PrismaClient;
+
+  constructor() {
+    this.prisma = new PrismaClient();
+  }
+
+  /**
+   * Build the first history entry for a new part (for nested creates)
+   */
+  initialEntry(snapshot: PriceSnapshot): Prisma.PartPriceHistoryCreateWithoutPartInput {
+    return {
+      price: snapshot.price,
+      discountedPrice: snapshot.discountedPrice,
+      effectivePrice: getEffectivePrice(snapshot),
+      source: PriceChangeSource.CREATED
+    };
+  }
+
+  /**
+   * Record a price change made in the same transaction. Does nothing when
+   * neither the list price nor the discounted price changed.
+   */
+  async recordPriceChange(
+    tx: Prisma.TransactionClient,
+    previous: PriceSnapshot,
+    current: PricedPart,
+    source: PriceChangeSource
+  ): Promise<void> {
+    if (previous.price === current.price && previous.discountedPrice === current.discountedPrice) {
+      return;
+    }
+
+    await tx.partPriceHistory.create({
+      data: {
+        partId: current.id,
+        price: current.price,
+        discountedPrice: current.discountedPrice,
+        effectivePrice: getEffectivePrice(current),
+        source
+      }
+    });
+  }
+
+  /**
+   * Send PRICE_DROP notifications to customers who wishlisted the part when
+   * its effective price has fallen past the alert threshold.
+   * Failures are logged rather than thrown so they never undo a price change.
+   */
+  async notifyPriceDrop(previous: PriceSnapshot, current: PricedPart): Promise<number> {
+    const oldPrice = getEffectivePrice(previous);
+    const newPrice = getEffectivePrice(current);
+
+    if (!current.isActive || oldPrice <= 0 || (oldPrice - newPrice) / oldPrice < PRICE_DROP_ALERT_THRESHOLD) {
+      return 0;
+    }
+
+    try {
+      const wishlistItems = await this.prisma.wishlistItem.findMany({
+        where: { partId: current.id },
+        select: { customer: { select: { userId: true } } }
+      });
+
+      if (wishlistItems.length === 0) {
+        return 0;
+      }
+
+      return await notificationService.sendPriceDropNotification(
+        current.id,
+        wishlistItems.map(item => item.customer.userId),
+        oldPrice,
+        newPrice
+      );
+    } catch (error) {
+      console.error('Failed to send price drop alerts:', error);
+      return 0;
+    }
+  }
+
+  /**
+   * Get a part's price history for charting, oldest first
+   */
+  async getPriceHistory(partId: string, options: PriceHistoryOptions = {}): Promise<{
+    partId: string;
+    currentPrice: number;
+    lowestPrice: number;
+    highestPrice: number;
+    history: PartPriceHistory[];
+  }> {
+    const part = await this.prisma.part.findUnique({
+      where: { id: partId },
+      select: { id: true, price: true, discountedPrice: true }
+    });
+
+    if (!part) {
+      throw new NotFoundException('Part not found');
+    }
+
+    const days = options.days && options.days > 0 ? options.days : DEFAULT_HISTORY_DAYS;
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+    const [history, priorEntry] = await Promise.all([
+      this.prisma.partPriceHistory.findMany({
+        where: { partId, changedAt: { gte: since } },
+        orderBy: { changedAt: 'asc' }
+      }),
+      // The price in force at the start of the window, so the chart doesn't begin empty
+      this.prisma.partPriceHistory.findFirst({
+        where: { partId, changedAt: { lt: since } },
+        orderBy: { changedAt: 'desc' }
+      })
+    ]);
+
+    if (priorEntry) {
+      history.unshift(priorEntry);
+    }
+
+    const currentPrice = getEffectivePrice(part);
+    const prices = [currentPrice, ...history.map(entry => entry.effectivePrice)];
+
+    return {
+      partId,
+      currentPrice,
+      lowestPrice: Math.min(...prices),
+      highestPrice: Math.max(...prices),
+      history
+    };
+  }
+}
+
+export default new PriceHistoryService();
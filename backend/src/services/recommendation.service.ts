@@ -0,0 +1,221 @@
+import { PrismaClient, Part, Prisma } from '@prisma/client';
+import { NotFoundException } from '../utils/exceptions.util';
+import fitmentService from './fitment.service';
+
+export type RecommendationReason = 'VEHICLE_FIT' | 'WISHLIST' | 'BUY_AGAIN' | 'VIEWED' | 'POPULAR';
+
+export interface Recommendation {
+  part: Part;
+  reason: string;
+  reasonType: RecommendationReason;
+  score: number;
+}
+
+interface Candidate {
+  score: number;
+  weight: number;
+  reason: string;
+  reasonType: RecommendationReason;
+}
+
+// How much each signal counts; a part picked up by several signals adds them up
+const SIGNAL_WEIGHTS: Record<RecommendationReason, number> = {
+  VEHICLE_FIT: 3,
+  WISHLIST: 2.5,
+  BUY_AGAIN: 2,
+  VIEWED: 2,
+  POPULAR: 1
+};
+
+// How far back each signal looks
+const MAX_VEHICLES = 3;
+const MAX_SEED_PARTS = 5;
+const MAX_ORDER_ITEMS = 50;
+const SIMILAR_PER_SEED = 4;
+
+const availablePart: Prisma.PartWhereInput = {
+  isActive: true,
+  stockQuantity: { gt: 0 }
+};
+
+const mostOrdered: Prisma.PartOrderByWithRelationInput = {
+  orderItems: { _count: 'desc' }
+};
+
+export class RecommendationService {
+  private prisma: PrismaClient;
+
+  constructor() {
+    this.prisma = new PrismaClient();
+  }
+
+  /**
+   * Recommend parts for a customer from their garage, recently viewed parts,
+   * wishlist and order history. Parts they already bought are left out unless
+   * they are consumables worth buying again. Each part carries the label of
+   * the strongest signal behind it, e.g. "Fits your 2015 Corolla".
+   */
+  async getRecommendations(userId: string, limit: number = 20): Promise<Recommendation[]> {
+    const customer = await this.prisma.customer.findUnique({
+      where: { userId },
+      select: { id: true }
+    });
+
+    if (!customer) {
+      throw new NotFoundException('Customer profile not found');
+    }
+
+    const [vehicles, recentlyViewed, wishlistItems, orderItems] = await Promise.all([
+      this.prisma.vehicle.findMany({
+        where: { customerId: customer.id },
+        orderBy: [{ isDefault: 'desc' }, { updatedAt: 'desc' }],
+        take: MAX_VEHICLES
+      }),
+      this.prisma.recentlyViewed.findMany({
+        where: { customerId: customer.id },
+        orderBy: { viewedAt: 'desc' },
+        take: MAX_SEED_PARTS,
+        select: { part: { select: { id: true, name: true, categoryId: true } } }
+      }),
+      this.prisma.wishlistItem.findMany({
+        where: { customerId: customer.id },
+        orderBy: { addedAt: 'desc' },
+        take: MAX_SEED_PARTS,
+        select: { part: { select: { id: true, name: true, categoryId: true } } }
+      }),
+      this.prisma.orderItem.findMany({
+        where: { order: { customerId: customer.id, isCancelled: false } },
+        orderBy: { order: { createdAt: 'desc' } },
+        take: MAX_ORDER_ITEMS,
+        select: {
+          part: {
+            select: {
+              id: true,
+              name: true,
+              isActive: true,
+              stockQuantity: true,
+              category: { select: { isConsumable: true } }
+            }
+          }
+        }
+      })
+    ]);
+
+    // Already owned (and not used up) or already saved: no point suggesting them
+    const excluded = new Set<string>([
+      ...orderItems.filter(item => !item.part.category.isConsumable).map(item => item.part.id),
+      ...wishlistItems.map(item => item.part.id)
+    ]);
+
+    const candidates = new Map<string, Candidate>();
+
+    const addCandidates = (partIds: string[], reasonType: RecommendationReason, reason: string) => {
+      const weight = SIGNAL_WEIGHTS[reasonType];
+
+      partIds.forEach(partId => {
+        if (excluded.has(partId)) {
+          return;
+        }
+
+        const candidate = candidates.get(partId);
+
+        if (!candidate) {
+          candidates.set(partId, { score: weight, weight, reason, reasonType });
+        } else {
+          candidate.score += weight;
+
+          if (weight > candidate.weight) {
+            Object.assign(candidate, { weight, reason, reasonType });
+          }
+        }
+      });
+    };
+
+    await Promise.all([
+      ...vehicles.map(async vehicle => {
+        const parts = await this.prisma.part.findMany({
+          where: { ...availablePart, ...fitmentService.buildFitmentFilter(vehicle) },
+          orderBy: mostOrdered,
+          take: limit,
+          select: { id: true }
+        });
+        addCandidates(parts.map(part => part.id), 'VEHICLE_FIT', `Fits your ${vehicle.year} ${vehicle.model}`);
+      }),
+      ...wishlistItems.map(async ({ part: seed }) => {
+        const parts = await this.findSimilarParts(seed.id, seed.categoryId);
+        addCandidates(parts, 'WISHLIST', `Similar to ${seed.name} on your wishlist`);
+      }),
+      ...recentlyViewed.map(async ({ part: seed }) => {
+        const parts = await this.findSimilarParts(seed.id, seed.categoryId);
+        addCandidates(parts, 'VIEWED', `Because you viewed ${seed.name}`);
+      })
+    ]);
+
+    // Consumables come round again, so suggest the exact part they bought
+    orderItems
+      .filter(item => item.part.category.isConsumable && item.part.isActive && item.part.stockQuantity > 0)
+      .forEach(item => addCandidates([item.part.id], 'BUY_AGAIN', `Buy again: you ordered ${item.part.name}`));
+
+    // Top up thin histories with what's selling
+    if (candidates.size < limit) {
+      const popular = await this.prisma.part.findMany({
+        where: { ...availablePart, id: { notIn: [...excluded, ...candidates.keys()] } },
+        orderBy: mostOrdered,
+        take: limit - candidates.size,
+        select: { id: true }
+      });
+      addCandidates(popular.map(part => part.id), 'POPULAR', 'Popular with other shoppers');
+    }
+
+    const ranked = [...candidates.entries()]
+      .sort(([, a], [, b]) => b.score - a.score)
+      .slice(0, limit);
+
+    const parts = await this.prisma.part.findMany({
+      where: { id: { in: ranked.map(([partId]) => partId) } },
+      include: {
+        category: {
+          select: {
+            id: true,
+            name: true
+          }
+        },
+        vendor: {
+          select: {
+            id: true,
+            businessName: true,
+            businessLogo: true,
+            rating: true
+          }
+        }
+      }
+    });
+
+    const partsById = new Map(parts.map(part => [part.id, part]));
+
+    return ranked
+      .filter(([partId]) => partsById.has(partId))
+      .map(([partId, candidate]) => ({
+        part: partsById.get(partId)!,
+        reason: candidate.reason,
+        reasonType: candidate.reasonType,
+        score: candidate.score
+      }));
+  }
+
+  /**
+   * Best-selling available parts in the same category as a seed part
+   */
+  private async findSimilarParts(partId: string, categoryId: string): Promise<string[]> {
+    const parts = await this.prisma.part.findMany({
+      where: { ...availablePart, categoryId, id: { not: partId } },
+      orderBy: mostOrdered,
+      take: SIMILAR_PER_SEED,
+      select: { id: true }
+    });
+
+    return parts.map(part => part.id);
+  }
+}
+
+export default new RecommendationService();
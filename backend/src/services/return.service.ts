@@ -0,0 +1,594 @@
+import {
+  PrismaClient,
+  Prisma,
+  NotificationType,
+  OrderStatus,
+  ReturnStatus,
+  UserRole
+} from '@prisma/client';
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  NotFoundException
+} from '../utils/exceptions.util';
+import { generateReference } from '../utils/reference.util';
+import { withUploadedFiles } from '../utils/storage.util';
+import deliveryService from './delivery.service';
+import notificationService from './notification.service';
+import orderStatusService from './order-status.service';
+import paymentService from './payment.service';
+import stockAlertService from './stock-alert.service';
+
+interface CreateReturnDto {
+  orderItemId: string;
+  quantity: number;
+  reason: string;
+  images?: string[];
+}
+
+interface ReviewReturnDto {
+  approve: boolean;
+  note?: string;
+}
+
+interface ReceiveReturnDto {
+  resellable: boolean;
+  note?: string;
+}
+
+interface ReturnActor {
+  userId: string;
+  role: UserRole;
+}
+
+const DEFAULT_RETURN_WINDOW_DAYS = 14;
+
+const MAX_RETURN_IMAGES = 5;
+
+// Returns that count against the quantity of an item still returnable
+const OPEN_RETURN_STATUSES: ReturnStatus[] = [
+  ReturnStatus.REQUESTED,
+  ReturnStatus.APPROVED,
+  ReturnStatus.RECEIVED
+];
+
+// Order statuses from which the customer has the goods in hand
+const RETURNABLE_ORDER_STATUSES: OrderStatus[] = [OrderStatus.DELIVERED, OrderStatus.COLLECTED];
+
+const returnInclude = {
+  orderItem: {
+    include: {
+      part: {
+        select: { id: true, name: true, images: true, partNumber: true }
+      }
+    }
+  },
+  order: {
+    select: { id: true, orderNumber: true, orderType: true, orderStatus: true }
+  },
+  vendor: {
+    select: { id: true, businessName: true }
+  },
+  delivery: true,
+  refund: true
+} satisfies Prisma.ReturnRequestInclude;
+
+/**
+ * Returns (RMA). A customer asks to send back some of an order item within
+ * the return window; the vendor approves or rejects it. Approved returns on
+ * delivery orders get a pickup from the customer back to the vendor. When
+ * the vendor receives the item it is restocked if it can be sold again and
+ * the customer is refunded.
+ */
+export class ReturnService {
+  private prisma: PrismaClient;
+
+  constructor() {
+    this.prisma = new PrismaClient();
+  }
+
+  /**
+   * Open a return for an item of one of the customer's orders. Uploaded
+   * photos are deleted again if the return is rejected.
+   */
+  async createReturn(userId: string, orderId: string, data: CreateReturnDto) {
+    const { customer, order, item, returnRequest } = await withUploadedFiles(data.images, async () => {
+      const customer = await this.prisma.customer.findUnique({
+        where: { userId }
+      });
+
+      if (!customer) {
+        throw new NotFoundException('Customer profile not found');
+      }
+
+      this.validateReturn(data);
+
+      const order = await this.prisma.order.findUnique({
+        where: { id: orderId },
+        include: {
+          items: {
+            include: {
+              part: { select: { name: true } }
+            }
+          },
+          vendor: { select: { userId: true } }
+        }
+      });
+
+      if (!order || order.customerId !== customer.id) {
+        throw new NotFoundException('Order not found');
+      }
+
+      if (!RETURNABLE_ORDER_STATUSES.includes(order.orderStatus)) {
+        throw new BadRequestException('Only delivered or collected orders can be returned');
+      }
+
+      const handedOverAt = await this.getHandedOverAt(order);
+      const windowDays = this.getReturnWindowDays();
+      const windowEnd = new Date(handedOverAt.getTime() + windowDays * 24 * 60 * 60 * 1000);
+
+      if (windowEnd < new Date()) {
+        throw new BadRequestException(`Returns must be requested within ${windowDays} days of receiving the order`);
+      }
+
+      const item = order.items.find(orderItem => orderItem.id === data.orderItemId);
+
+      if (!item) {
+        throw new BadRequestException('Item is not part of this order');
+      }
+
+      const returnable = item.quantity - (await this.getReturnedQuantity(item.id));
+
+      if (data.quantity > returnable) {
+        throw new BadRequestException(
+          returnable > 0
+            ? `Only ${returnable} of this item can still be returned`
+            : 'This item has already been returned'
+        );
+      }
+
+      const returnRequest = await this.prisma.returnRequest.create({
+        data: {
+          rmaNumber: generateReference('RMA'),
+          orderId: order.id,
+          orderItemId: item.id,
+          customerId: customer.id,
+          vendorId: order.vendorId,
+          quantity: data.quantity,
+          reason: data.reason.trim(),
+          images: data.images || []
+        },
+        include: returnInclude
+      });
+
+      return { customer, order, item, returnRequest };
+    });
+
+    await this.notify(
+      order.vendor.userId,
+      'New return request',
+      `${customer.firstName} ${customer.lastName} wants to return ${data.quantity} x ${item.part.name} from order #${order.orderNumber}`,
+      returnRequest.id
+    );
+
+    return returnRequest;
+  }
+
+  /**
+   * The customer's returns, newest first
+   */
+  async getCustomerReturns(userId: string) {
+    const customer = await this.prisma.customer.findUnique({
+      where: { userId }
+    });
+
+    if (!customer) {
+      throw new NotFoundException('Customer profile not found');
+    }
+
+    return this.prisma.returnRequest.findMany({
+      where: { customerId: customer.id },
+      include: returnInclude,
+      orderBy: { createdAt: 'desc' }
+    });
+  }
+
+  /**
+   * Returns against the vendor's orders, newest first
+   */
+  async getVendorReturns(userId: string, status?: ReturnStatus) {
+    const vendor = await this.getVendor(userId);
+
+    return this.prisma.returnRequest.findMany({
+      where: {
+        vendorId: vendor.id,
+        ...(status && { status })
+      },
+      include: returnInclude,
+      orderBy: { createdAt: 'desc' }
+    });
+  }
+
+  /**
+   * A single return, for its customer, its vendor or an admin
+   */
+  async getReturn(actor: ReturnActor, returnId: string) {
+    const returnRequest = await this.prisma.returnRequest.findUnique({
+      where: { id: returnId },
+      include: {
+        ...returnInclude,
+        customer: { select: { userId: true } }
+      }
+    });
+
+    if (!returnRequest) {
+      throw new NotFoundException('Return request not found');
+    }
+
+    if (actor.role !== UserRole.ADMIN && returnRequest.customer.userId !== actor.userId) {
+      const vendor = await this.prisma.vendor.findUnique({
+        where: { userId: actor.userId },
+        select: { id: true }
+      });
+
+      if (!vendor || vendor.id !== returnRequest.vendorId) {
+        throw new NotFoundException('Return request not found');
+      }
+    }
+
+    return returnRequest;
+  }
+
+  /**
+   * Withdraw a return the vendor hasn't answered yet
+   */
+  async cancelReturn(userId: string, returnId: string) {
+    const returnRequest = await this.prisma.returnRequest.findUnique({
+      where: { id: returnId },
+      include: { customer: { select: { userId: true } } }
+    });
+
+    if (!returnRequest || returnRequest.customer.userId !== userId) {
+      throw new NotFoundException('Return request not found');
+    }
+
+    if (returnRequest.status !== ReturnStatus.REQUESTED) {
+      throw new BadRequestException('Only returns awaiting the vendor can be cancelled');
+    }
+
+    return this.prisma.returnRequest.update({
+      where: { id: returnId },
+      data: { status: ReturnStatus.CANCELLED },
+      include: returnInclude
+    });
+  }
+
+  /**
+   * Approve or reject a return. Approving a return on a delivery order books a
+   * pickup from the customer's address back to the vendor.
+   */
+  async reviewReturn(actor: ReturnActor, returnId: string, data: ReviewReturnDto) {
+    const returnRequest = await this.getManagedReturn(actor, returnId);
+
+    if (returnRequest.status !== ReturnStatus.REQUESTED) {
+      throw new BadRequestException(`Return is already ${returnRequest.status.toLowerCase()}`);
+    }
+
+    if (!data.approve && !data.note?.trim()) {
+      throw new BadRequestException('A reason is required to reject a return');
+    }
+
+    const { count } = await this.prisma.returnRequest.updateMany({
+      where: { id: returnId, status: ReturnStatus.REQUESTED },
+      data: {
+        status: data.approve ? ReturnStatus.APPROVED : ReturnStatus.REJECTED,
+        vendorNote: data.note?.trim(),
+        reviewedAt: new Date()
+      }
+    });
+
+    if (count === 0) {
+      throw new ConflictException('Return was updated by someone else, please reload it');
+    }
+
+    if (data.approve && returnRequest.order.addressId) {
+      try {
+        await deliveryService.createReturnDelivery(returnId);
+      } catch (error) {
+        console.error(`Failed to schedule pickup for return ${returnRequest.rmaNumber}:`, error);
+      }
+    }
+
+    await this.notify(
+      returnRequest.customer.userId,
+      data.approve ? 'Return approved' : 'Return rejected',
+      data.approve
+        ? `Your return ${returnRequest.rmaNumber} was approved${returnRequest.order.addressId ? '. A driver will collect the item from you' : '. Please bring the item back to the vendor'}`
+        : `Your return ${returnRequest.rmaNumber} was rejected: ${data.note!.trim()}`,
+      returnId
+    );
+
+    return this.prisma.returnRequest.findUniqueOrThrow({
+      where: { id: returnId },
+      include: returnInclude
+    });
+  }
+
+  /**
+   * The returned item is back with the vendor: put it back in stock if it can
+   * be sold again, mark the order returned once every item has come back, and
+   * refund the customer. Calling this again for a received return that has no
+   * refund yet retries just the refund.
+   */
+  async receiveReturn(actor: ReturnActor, returnId: string, data: ReceiveReturnDto) {
+    const returnRequest = await this.getManagedReturn(actor, returnId);
+
+    if (returnRequest.status === ReturnStatus.RECEIVED && !returnRequest.refundId) {
+      await this.refundReturn(returnId, actor.userId);
+      return this.prisma.returnRequest.findUniqueOrThrow({
+        where: { id: returnId },
+        include: returnInclude
+      });
+    }
+
+    if (returnRequest.status !== ReturnStatus.APPROVED) {
+      throw new BadRequestException('Only approved returns can be received');
+    }
+
+    const refundAmount = returnRequest.orderItem.unitPrice * returnRequest.quantity;
+    const restock = await this.prisma.$transaction(async (tx) => {
+      const { count } = await tx.returnRequest.updateMany({
+        where: { id: returnId, status: ReturnStatus.APPROVED },
+        data: {
+          status: ReturnStatus.RECEIVED,
+          receivedAt: new Date(),
+          resellable: data.resellable,
+          refundAmount,
+          ...(data.note?.trim() && { vendorNote: data.note.trim() })
+        }
+      });
+
+      if (count === 0) {
+        throw new ConflictException('Return was updated by someone else, please reload it');
+      }
+
+      const part = data.resellable
+        ? await tx.part.update({
+            where: { id: returnRequest.orderItem.partId },
+            data: { stockQuantity: { increment: returnRequest.quantity } }
+          })
+        : null;
+
+      // The whole order has come back
+      const order = await tx.order.findUniqueOrThrow({
+        where: { id: returnRequest.orderId },
+        include: { items: { select: { id: true, quantity: true } } }
+      });
+
+      const received = await tx.returnRequest.groupBy({
+        by: ['orderItemId'],
+        where: { orderId: order.id, status: ReturnStatus.RECEIVED },
+        _sum: { quantity: true }
+      });
+
+      const fullyReturned = order.items.every(item =>
+        (received.find(entry => entry.orderItemId === item.id)?._sum.quantity || 0) >= item.quantity
+      );
+
+      if (fullyReturned && orderStatusService.canTransition(order.orderType, order.orderStatus, OrderStatus.RETURNED)) {
+        await orderStatusService.transition(tx, order, OrderStatus.RETURNED, {
+          changedById: actor.userId,
+          note: `All items returned (${returnRequest.rmaNumber})`
+        });
+      }
+
+      await tx.systemLog.create({
+        data: {
+          action: 'RETURN_RECEIVED',
+          entityType: 'ReturnRequest',
+          entityId: returnId,
+          performedById: actor.userId,
+          details: {
+            rmaNumber: returnRequest.rmaNumber,
+            orderId: returnRequest.orderId,
+            partId: returnRequest.orderItem.partId,
+            quantity: returnRequest.quantity,
+            resellable: data.resellable
+          }
+        }
+      });
+
+      return part && { previousStock: part.stockQuantity - returnRequest.quantity, newStock: part.stockQuantity };
+    });
+
+    // Tell waiting customers if the return brought the part back into stock
+    if (restock) {
+      await stockAlertService.notifyBackInStock(returnRequest.orderItem.partId, restock.previousStock, restock.newStock);
+    }
+
+    await this.refundReturn(returnId, actor.userId);
+
+    return this.prisma.returnRequest.findUniqueOrThrow({
+      where: { id: returnId },
+      include: returnInclude
+    });
+  }
+
+  /**
+   * Refund a received return against the order's payment and take it back off
+   * the vendor's earnings. Orders with no gateway payment, such as cash on
+   * delivery, are logged for a manual refund.
+   */
+  private async refundReturn(returnId: string, performedById: string) {
+    const returnRequest = await this.prisma.returnRequest.findUniqueOrThrow({
+      where: { id: returnId },
+      include: {
+        order: { select: { id: true, orderNumber: true, checkoutSessionId: true } },
+        customer: { select: { userId: true } }
+      }
+    });
+
+    const payment = await paymentService.getOrderPayment(returnRequest.order);
+
+    if (!payment) {
+      await this.prisma.systemLog.create({
+        data: {
+          action: 'RETURN_REFUND_MANUAL',
+          entityType: 'ReturnRequest',
+          entityId: returnId,
+          performedById,
+          details: {
+            rmaNumber: returnRequest.rmaNumber,
+            orderId: returnRequest.orderId,
+            amount: returnRequest.refundAmount
+          }
+        }
+      });
+      return;
+    }
+
+    await this.prisma.$transaction(async (tx) => {
+      const refund = await paymentService.createRefund(tx, {
+        orderId: returnRequest.orderId,
+        transactionId: payment.id,
+        amount: returnRequest.refundAmount!,
+        reason: `Return ${returnRequest.rmaNumber}: ${returnRequest.reason}`
+      });
+
+      await paymentService.debitVendorForRefund(tx, refund, {
+        returnId,
+        rmaNumber: returnRequest.rmaNumber,
+        type: 'RETURN_REFUND_DEBIT'
+      });
+
+      await tx.returnRequest.update({
+        where: { id: returnId },
+        data: { refundId: refund.id }
+      });
+    });
+
+    await this.notify(
+      returnRequest.customer.userId,
+      'Return received',
+      `Your return ${returnRequest.rmaNumber} for order #${returnRequest.order.orderNumber} was received and your refund is being processed`,
+      returnId
+    );
+  }
+
+  /**
+   * A return the actor may act on as its vendor, or any return for an admin
+   */
+  private async getManagedReturn(actor: ReturnActor, returnId: string) {
+    const returnRequest = await this.prisma.returnRequest.findUnique({
+      where: { id: returnId },
+      include: {
+        order: { select: { addressId: true } },
+        orderItem: { select: { partId: true, unitPrice: true } },
+        customer: { select: { userId: true } }
+      }
+    });
+
+    if (!returnRequest) {
+      throw new NotFoundException('Return request not found');
+    }
+
+    if (actor.role !== UserRole.ADMIN) {
+      const vendor = await this.getVendor(actor.userId);
+
+      if (vendor.id !== returnRequest.vendorId) {
+        throw new ForbiddenException('You can only manage returns for your own orders');
+      }
+    }
+
+    return returnRequest;
+  }
+
+  /**
+   * When the customer got the goods: the latest move to DELIVERED or COLLECTED
+   * in the order's history, or the last update for orders from before it was kept
+   */
+  private async getHandedOverAt(order: { id: string; updatedAt: Date }): Promise<Date> {
+    const handover = await this.prisma.orderStatusHistory.findFirst({
+      where: { orderId: order.id, toStatus: { in: RETURNABLE_ORDER_STATUSES } },
+      orderBy: { createdAt: 'desc' }
+    });
+
+    return handover ? handover.createdAt : order.updatedAt;
+  }
+
+  /**
+   * Quantity of an order item already in a return that hasn't been rejected or cancelled
+   */
+  private async getReturnedQuantity(orderItemId: string): Promise<number> {
+    const { _sum } = await this.prisma.returnRequest.aggregate({
+      where: { orderItemId, status: { in: OPEN_RETURN_STATUSES } },
+      _sum: { quantity: true }
+    });
+
+    return _sum.quantity || 0;
+  }
+
+  private async getVendor(userId: string) {
+    const vendor = await this.prisma.vendor.findUnique({
+      where: { userId }
+    });
+
+    if (!vendor) {
+      throw new NotFoundException('Vendor profile not found');
+    }
+
+    return vendor;
+  }
+
+  /**
+   * Days after delivery or collection that a return can be opened.
+   * RETURN_WINDOW_DAYS is read on each call so it follows dotenv.
+   */
+  private getReturnWindowDays(): number {
+    return parseInt(process.env.RETURN_WINDOW_DAYS || '', 10) || DEFAULT_RETURN_WINDOW_DAYS;
+  }
+
+  private async notify(userId: string, title: string, message: string, returnId: string) {
+    try {
+      await notificationService.createNotification({
+        userId,
+        title,
+        message,
+        type: NotificationType.ORDER_STATUS,
+        referenceId: returnId,
+        referenceType: 'ReturnRequest',
+        data: { returnId }
+      });
+    } catch (error) {
+      console.error('Failed to send return notification:', error);
+    }
+  }
+
+  /**
+   * Validate quantity, reason length and image count
+   */
+  private validateReturn(data: CreateReturnDto): void {
+    if (!data.orderItemId) {
+      throw new BadRequestException('Order item is required');
+    }
+
+    if (!Number.isInteger(data.quantity) || data.quantity < 1) {
+      throw new BadRequestException('Quantity must be a whole number of at least 1');
+    }
+
+    if (!data.reason || !data.reason.trim()) {
+      throw new BadRequestException('A reason for the return is required');
+    }
+
+    if (data.reason.length > 1000) {
+      throw new BadRequestException('Reason must be 1000 characters or fewer');
+    }
+
+    if (data.images && data.images.length > MAX_RETURN_IMAGES) {
+      throw new BadRequestException(`A return can have at most ${MAX_RETURN_IMAGES} images`);
+    }
+  }
+}
+
+export default new ReturnService();
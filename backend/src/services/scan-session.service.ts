@@ -0,0 +1,484 @@
+import {
+  PrismaClient,
+  Prisma,
+  InventoryScan,
+  InventoryScanSession,
+  ScanSessionMode,
+  ScanSessionStatus,
+  UserRole
+} from '@prisma/client';
+import { BadRequestException, ForbiddenException, NotFoundException } from '../utils/exceptions.util';
+import inventoryService from './inventory.service';
+import vendorService from './vendor.service';
+
+interface ScanSessionCreateDto {
+  mode: ScanSessionMode;
+  orderId?: string;
+  notes?: string;
+  vendorId?: string; // Required for admins scanning on a vendor's behalf
+}
+
+interface ScanDto {
+  code: string;
+  quantity?: number;
+}
+
+interface ScanSessionListOptions {
+  status?: ScanSessionStatus;
+  limit?: number;
+  offset?: number;
+}
+
+interface ScanLine {
+  partId: string;
+  name: string;
+  partNumber: string | null;
+  barcode: string | null;
+  currentStock: number;
+  quantity: number;
+}
+
+// Type aliases rather than interfaces so a summary is assignable to a JSON column
+type UnknownCode = {
+  code: string;
+  scans: number;
+  quantity: number;
+};
+
+type ScanSessionSummary = {
+  adjustments: Array<{
+    partId: string;
+    name: string;
+    operation: 'add' | 'subtract' | 'set';
+    quantity: number;
+    previousStock: number;
+    newStock: number;
+  }>;
+  failed: Array<{ partId: string; name: string; quantity: number; error: string }>;
+  picked: Array<{ partId: string; name: string; quantity: number }>;
+  unknownCodes: UnknownCode[];
+};
+
+type ScanWithPart = InventoryScan & {
+  part: { id: string; name: string; partNumber: string | null; barcode: string | null; stockQuantity: number } | null;
+};
+
+// How each session mode is applied through InventoryService.updateStock.
+// PICK only subtracts for picks without an order; an order's stock was
+// already taken when it was placed or its payment verified.
+const MODE_OPERATIONS: Record<ScanSessionMode, 'add' | 'subtract' | 'set'> = {
+  RECEIVE: 'add',
+  COUNT: 'set',
+  PICK: 'subtract'
+};
+
+const MAX_SCAN_QUANTITY = 10000;
+
+export class ScanSessionService {
+  private prisma: PrismaClient;
+
+  constructor() {
+    this.prisma = new PrismaClient();
+  }
+
+  /**
+   * Start a scanning session for receiving stock, counting shelves or picking an order
+   */
+  async createSession(userId: string, role: UserRole, data: ScanSessionCreateDto): Promise<InventoryScanSession> {
+    if (!data.mode || !Object.values(ScanSessionMode).includes(data.mode)) {
+      throw new BadRequestException(`Mode must be one of: ${Object.values(ScanSessionMode).join(', ')}`);
+    }
+
+    const vendorId = await this.resolveVendorId(userId, role, data.vendorId);
+
+    if (data.orderId) {
+      if (data.mode !== ScanSessionMode.PICK) {
+        throw new BadRequestException('Only PICK sessions can be linked to an order');
+      }
+
+      const order = await this.prisma.order.findUnique({
+        where: { id: data.orderId },
+        select: { vendorId: true }
+      });
+
+      if (!order || order.vendorId !== vendorId) {
+        throw new NotFoundException('Order not found');
+      }
+    }
+
+    return this.prisma.inventoryScanSession.create({
+      data: {
+        vendorId,
+        mode: data.mode,
+        orderId: data.orderId,
+        notes: data.notes,
+        createdById: userId
+      }
+    });
+  }
+
+  /**
+   * List the vendor's scanning sessions
+   */
+  async getSessions(
+    userId: string,
+    role: UserRole,
+    options: ScanSessionListOptions = {}
+  ): Promise<{ sessions: InventoryScanSession[]; total: number }> {
+    const where = {
+      ...(role !== UserRole.ADMIN && { vendorId: (await vendorService.getVendorProfile(userId)).id }),
+      ...(options.status && { status: options.status })
+    };
+
+    const [sessions, total] = await Promise.all([
+      this.prisma.inventoryScanSession.findMany({
+        where,
+        include: {
+          _count: { select: { scans: true } }
+        },
+        orderBy: { createdAt: 'desc' },
+        skip: options.offset || 0,
+        take: options.limit || 20
+      }),
+      this.prisma.inventoryScanSession.count({ where })
+    ]);
+
+    return { sessions, total };
+  }
+
+  /**
+   * Get a session with its scans totalled per part and the codes that matched nothing
+   */
+  async getSession(userId: string, role: UserRole, sessionId: string) {
+    const session = await this.getAccessibleSession(userId, role, sessionId);
+    const scans = await this.getScans(sessionId);
+
+    return {
+      ...session,
+      scans,
+      lines: this.buildLines(scans),
+      unknownCodes: this.buildUnknownCodes(scans)
+    };
+  }
+
+  /**
+   * Record a scanned code. Codes that don't match one of the vendor's barcodes are
+   * kept as unknown so they can be reported when the session ends.
+   */
+  async recordScan(userId: string, role: UserRole, sessionId: string, data: ScanDto) {
+    const session = await this.getAccessibleSession(userId, role, sessionId);
+    this.assertOpen(session);
+
+    const code = typeof data.code === 'string' ? data.code.trim() : '';
+    if (!code) {
+      throw new BadRequestException('Code is required');
+    }
+
+    const quantity = data.quantity !== undefined ? Number(data.quantity) : 1;
+    if (!Number.isInteger(quantity) || quantity < 1 || quantity > MAX_SCAN_QUANTITY) {
+      throw new BadRequestException(`Quantity must be a whole number between 1 and ${MAX_SCAN_QUANTITY}`);
+    }
+
+    const part = await this.prisma.part.findFirst({
+      where: { vendorId: session.vendorId, barcode: code },
+      select: { id: true, name: true, partNumber: true, barcode: true, stockQuantity: true }
+    });
+
+    // Picking against an order can't take more than was ordered
+    if (part && session.orderId) {
+      await this.validatePick(session.id, session.orderId, part.id, quantity);
+    }
+
+    const scan = await this.prisma.inventoryScan.create({
+      data: {
+        sessionId: session.id,
+        code,
+        partId: part?.id,
+        quantity
+      }
+    });
+
+    const sessionQuantity = part
+      ? (await this.prisma.inventoryScan.aggregate({
+          where: { sessionId: session.id, partId: part.id },
+          _sum: { quantity: true }
+        }))._sum.quantity || 0
+      : 0;
+
+    return {
+      scan,
+      part,
+      isKnown: part !== null,
+      sessionQuantity
+    };
+  }
+
+  /**
+   * Undo a scan, e.g. after scanning the wrong item
+   */
+  async removeScan(userId: string, role: UserRole, sessionId: string, scanId: string): Promise<void> {
+    const session = await this.getAccessibleSession(userId, role, sessionId);
+    this.assertOpen(session);
+
+    const scan = await this.prisma.inventoryScan.findFirst({
+      where: { id: scanId, sessionId }
+    });
+
+    if (!scan) {
+      throw new NotFoundException('Scan not found');
+    }
+
+    await this.prisma.inventoryScan.delete({
+      where: { id: scanId }
+    });
+  }
+
+  /**
+   * Apply the session to stock: one InventoryService.updateStock call per scanned part.
+   * Parts that fail (e.g. picking more than is in stock) are reported alongside the
+   * codes that matched no part, without blocking the other adjustments. Picks for an
+   * order are recorded against it without changing stock.
+   */
+  async commitSession(userId: string, role: UserRole, sessionId: string) {
+    const session = await this.getAccessibleSession(userId, role, sessionId);
+    this.assertOpen(session);
+
+    const scans = await this.getScans(sessionId);
+    if (scans.length === 0) {
+      throw new BadRequestException('Nothing has been scanned in this session');
+    }
+
+    // Claim the session first so a double submit can't apply the stock changes twice
+    const claimed = await this.prisma.inventoryScanSession.updateMany({
+      where: { id: sessionId, status: ScanSessionStatus.OPEN },
+      data: { status: ScanSessionStatus.COMMITTED, committedAt: new Date() }
+    });
+
+    if (claimed.count === 0) {
+      throw new BadRequestException('Scan session is no longer open');
+    }
+
+    const operation = MODE_OPERATIONS[session.mode];
+    const summary: ScanSessionSummary = {
+      adjustments: [],
+      failed: [],
+      picked: [],
+      unknownCodes: this.buildUnknownCodes(scans)
+    };
+
+    for (const line of this.buildLines(scans)) {
+      if (session.orderId) {
+        summary.picked.push({ partId: line.partId, name: line.name, quantity: line.quantity });
+        continue;
+      }
+
+      try {
+        const updatedPart = await inventoryService.updateStock(line.partId, {
+          quantity: line.quantity,
+          operation,
+          reason: `${session.mode} scan session ${session.id}`
+        });
+
+        summary.adjustments.push({
+          partId: line.partId,
+          name: line.name,
+          operation,
+          quantity: line.quantity,
+          previousStock: line.currentStock,
+          newStock: updatedPart.stockQuantity
+        });
+      } catch (error: any) {
+        summary.failed.push({
+          partId: line.partId,
+          name: line.name,
+          quantity: line.quantity,
+          error: error.message
+        });
+      }
+    }
+
+    const committedSession = await this.prisma.inventoryScanSession.update({
+      where: { id: sessionId },
+      data: { summary: summary satisfies Prisma.InputJsonValue }
+    });
+
+    await this.prisma.systemLog.create({
+      data: {
+        action: 'SCAN_SESSION_COMMITTED',
+        entityType: 'InventoryScanSession',
+        entityId: session.id,
+        performedById: userId,
+        details: {
+          mode: session.mode,
+          orderId: session.orderId,
+          adjusted: summary.adjustments.length,
+          failed: summary.failed.length,
+          picked: summary.picked.length,
+          unknownCodes: summary.unknownCodes.length
+        }
+      }
+    });
+
+    return {
+      session: committedSession,
+      summary
+    };
+  }
+
+  /**
+   * Abandon a session without touching stock
+   */
+  async cancelSession(userId: string, role: UserRole, sessionId: string): Promise<InventoryScanSession> {
+    const session = await this.getAccessibleSession(userId, role, sessionId);
+    this.assertOpen(session);
+
+    return this.prisma.inventoryScanSession.update({
+      where: { id: sessionId },
+      data: { status: ScanSessionStatus.CANCELLED }
+    });
+  }
+
+  /**
+   * Work out which vendor the session is for
+   */
+  private async resolveVendorId(userId: string, role: UserRole, vendorId?: string): Promise<string> {
+    if (role !== UserRole.ADMIN) {
+      const vendor = await vendorService.getVendorProfile(userId);
+      return vendor.id;
+    }
+
+    if (!vendorId) {
+      throw new BadRequestException('Vendor ID is required');
+    }
+
+    const vendor = await vendorService.getVendorById(vendorId);
+    return vendor.id;
+  }
+
+  /**
+   * Load a session, checking vendors only reach their own
+   */
+  private async getAccessibleSession(userId: string, role: UserRole, sessionId: string): Promise<InventoryScanSession> {
+    const session = await this.prisma.inventoryScanSession.findUnique({
+      where: { id: sessionId }
+    });
+
+    if (!session) {
+      throw new NotFoundException('Scan session not found');
+    }
+
+    if (role !== UserRole.ADMIN) {
+      const vendor = await vendorService.getVendorProfile(userId);
+
+      if (session.vendorId !== vendor.id) {
+        throw new ForbiddenException('You can only access your own scan sessions');
+      }
+    }
+
+    return session;
+  }
+
+  /**
+   * Reject changes to a committed or cancelled session
+   */
+  private assertOpen(session: InventoryScanSession): void {
+    if (session.status !== ScanSessionStatus.OPEN) {
+      throw new BadRequestException(`Scan session is ${session.status.toLowerCase()}`);
+    }
+  }
+
+  /**
+   * Check a pick stays within the quantity ordered for that part
+   */
+  private async validatePick(sessionId: string, orderId: string, partId: string, quantity: number): Promise<void> {
+    const [ordered, picked] = await Promise.all([
+      this.prisma.orderItem.aggregate({
+        where: { orderId, partId },
+        _sum: { quantity: true }
+      }),
+      this.prisma.inventoryScan.aggregate({
+        where: { sessionId, partId },
+        _sum: { quantity: true }
+      })
+    ]);
+
+    const orderedQuantity = ordered._sum.quantity || 0;
+    const pickedQuantity = picked._sum.quantity || 0;
+
+    if (orderedQuantity === 0) {
+      throw new BadRequestException('This part is not in the order being picked');
+    }
+
+    if (pickedQuantity + quantity > orderedQuantity) {
+      throw new BadRequestException(
+        `Only ${orderedQuantity} of this part were ordered (${pickedQuantity} already picked)`
+      );
+    }
+  }
+
+  /**
+   * Get the scans of a session with their matched part
+   */
+  private async getScans(sessionId: string): Promise<ScanWithPart[]> {
+    return this.prisma.inventoryScan.findMany({
+      where: { sessionId },
+      include: {
+        part: {
+          select: { id: true, name: true, partNumber: true, barcode: true, stockQuantity: true }
+        }
+      },
+      orderBy: { createdAt: 'asc' }
+    });
+  }
+
+  /**
+   * Total the known scans per part
+   */
+  private buildLines(scans: ScanWithPart[]): ScanLine[] {
+    const lines = new Map<string, ScanLine>();
+
+    for (const scan of scans) {
+      if (!scan.part) {
+        continue;
+      }
+
+      const line = lines.get(scan.part.id);
+      if (line) {
+        line.quantity += scan.quantity;
+      } else {
+        lines.set(scan.part.id, {
+          partId: scan.part.id,
+          name: scan.part.name,
+          partNumber: scan.part.partNumber,
+          barcode: scan.part.barcode,
+          currentStock: scan.part.stockQuantity,
+          quantity: scan.quantity
+        });
+      }
+    }
+
+    return Array.from(lines.values());
+  }
+
+  /**
+   * Group the scans that matched no part by code
+   */
+  private buildUnknownCodes(scans: ScanWithPart[]): UnknownCode[] {
+    const unknownCodes = new Map<string, UnknownCode>();
+
+    for (const scan of scans) {
+      if (scan.partId) {
+        continue;
+      }
+
+      const unknownCode = unknownCodes.get(scan.code) || { code: scan.code, scans: 0, quantity: 0 };
+      unknownCode.scans++;
+      unknownCode.quantity += scan.quantity;
+      unknownCodes.set(scan.code, unknownCode);
+    }
+
+    return Array.from(unknownCodes.values());
+  }
+}
+
+export default new ScanSessionService();
@@ -0,0 +1,167 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import { normalizePartNumber } from '../utils/part-number.util';
+
+interface RankedPart {
+  id: string;
+  score: number;
+}
+
+interface SearchHighlights {
+  name: string;
+  description: string | null;
+  partNumber: string | null;
+}
+
+// Upper bound on the candidates ranked per query; filters and pagination apply on top of this set
+const MAX_CANDIDATES = 1000;
+
+// Shortest normalised part number fragment that triggers partial/fuzzy part number matching
+const MIN_PART_NUMBER_FRAGMENT = 3;
+
+const HIGHLIGHT_START = '<mark>';
+const HIGHLIGHT_STOP = '</mark>';
+
+/**
+ * Ranked part search backed by PostgreSQL full-text and trigram indexes.
+ * Relies on the generated "searchVector" and "partNumberKey" columns on Part.
+ */
+export class SearchService {
+  private prisma: PrismaClient;
+
+  constructor() {
+    this.prisma = new PrismaClient();
+  }
+
+  /**
+   * Rank parts matching a keyword, best match first.
+   *
+   * A part matches when the full-text document matches, its normalised part number
+   * equals/contains/closely resembles the normalised keyword, its name is a close
+   * trigram match (typo tolerance) or one of its tags equals the keyword.
+   */
+  async rankParts(keyword: string, limit: number = MAX_CANDIDATES): Promise<RankedPart[]> {
+    const term = keyword.trim();
+
+    if (!term) {
+      return [];
+    }
+
+    const partNumberKey = normalizePartNumber(term);
+    const usePartNumber = partNumberKey.length >= MIN_PART_NUMBER_FRAGMENT;
+
+    // Part number scoring: exact > prefix > fuzzy
+    const partNumberScore = usePartNumber
+      ? Prisma.sql`
+          + CASE WHEN p."partNumberKey" = ${partNumberKey} THEN 10 ELSE 0 END
+          + CASE WHEN p."partNumberKey" LIKE ${partNumberKey + '%'} THEN 3 ELSE 0 END
+          + similarity(p."partNumberKey", ${partNumberKey}) * 2`
+      : Prisma.empty;
+
+    const partNumberMatch = usePartNumber
+      ? Prisma.sql`
+          OR p."partNumberKey" LIKE ${'%' + partNumberKey + '%'}
+          OR p."partNumberKey" % ${partNumberKey}`
+      : Prisma.empty;
+
+    const rows = await this.prisma.$queryRaw<RankedPart[]>`
+      WITH query AS (
+        SELECT websearch_to_tsquery('english', ${term}) AS ts
+      )
+      SELECT p."id",
+        (
+          ts_rank_cd(p."searchVector", query.ts, 32) * 4
+          + word_similarity(${term}, p."name") * 2
+          + word_similarity(${term}, coalesce(p."brand", ''))
+          ${partNumberScore}
+        )::float AS score
+      FROM "Part" p, query
+      WHERE p."searchVector" @@ query.ts
+        OR ${term} <% p."name"
+        OR ${term} = ANY(p."tags")
+        ${partNumberMatch}
+      ORDER BY score DESC, p."createdAt" DESC
+      LIMIT ${limit}
+    `;
+
+    return rows.map(row => ({ id: row.id, score: Number(row.score) }));
+  }
+
+  /**
+   * Build highlighted snippets of name, description and part number for a page of results.
+   * The snippets are HTML, so the vendor's text is escaped before the markers go in.
+   */
+  async getHighlights(keyword: string, partIds: string[]): Promise<Map<string, SearchHighlights>> {
+    const highlights = new Map<string, SearchHighlights>();
+    const term = keyword.trim();
+
+    if (!term || partIds.length === 0) {
+      return highlights;
+    }
+
+    const options = `StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_STOP}`;
+
+    const rows = await this.prisma.$queryRaw<Array<{
+      id: string;
+      name: string;
+      description: string | null;
+      partNumber: string | null;
+    }>>`
+      WITH query AS (
+        SELECT websearch_to_tsquery('english', ${term}) AS ts
+      ),
+      escaped AS (
+        SELECT "id",
+          replace(replace(replace("name", '&', '&amp;'), '<', '&lt;'), '>', '&gt;') AS "name",
+          replace(replace(replace("description", '&', '&amp;'), '<', '&lt;'), '>', '&gt;') AS "description",
+          "partNumber"
+        FROM "Part"
+        WHERE "id" IN (${Prisma.join(partIds)})
+      )
+      SELECT p."id",
+        ts_headline('english', p."name", query.ts, ${options + ', HighlightAll=true'}) AS name,
+        CASE
+          WHEN p."description" IS NULL THEN NULL
+          ELSE ts_headline('english', p."description", query.ts, ${options + ', MaxWords=35, MinWords=15'})
+        END AS description,
+        p."partNumber"
+      FROM escaped p, query
+    `;
+
+    const partNumberKey = normalizePartNumber(term);
+
+    for (const row of rows) {
+      highlights.set(row.id, {
+        name: row.name,
+        description: row.description,
+        partNumber: this.highlightPartNumber(row.partNumber, partNumberKey)
+      });
+    }
+
+    return highlights;
+  }
+
+  /**
+   * Wrap a part number in highlight markers when it matches the normalised keyword
+   */
+  private highlightPartNumber(partNumber: string | null, partNumberKey: string): string | null {
+    if (!partNumber) {
+      return partNumber;
+    }
+
+    const escaped = this.escapeHtml(partNumber);
+
+    if (partNumberKey.length < MIN_PART_NUMBER_FRAGMENT) {
+      return escaped;
+    }
+
+    return normalizePartNumber(partNumber).includes(partNumberKey)
+      ? `${HIGHLIGHT_START}${escaped}${HIGHLIGHT_STOP}`
+      : escaped;
+  }
+
+  private escapeHtml(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+  }
+}
+
+export default new SearchService();
@@ -0,0 +1,160 @@
+import { PrismaClient, StockAlertSubscription, NotificationType } from '@prisma/client';
+import { BadRequestException, NotFoundException } from '../utils/exceptions.util';
+import notificationService from './notification.service';
+
+// A subscriber is alerted at most once in this window, however often stock flaps
+const BACK_IN_STOCK_THROTTLE_MS = 12 * 60 * 60 * 1000;
+
+export class StockAlertService {
+  private prisma: PrismaClient;
+
+  constructor() {
+    this.prisma = new PrismaClient();
+  }
+
+  /**
+   * Ask to be told when an out-of-stock part is available again
+   */
+  async subscribe(userId: string, partId: string): Promise<StockAlertSubscription> {
+    const customer = await this.getCustomer(userId);
+
+    const part = await this.prisma.part.findUnique({
+      where: { id: partId },
+      select: { id: true, stockQuantity: true, isActive: true }
+    });
+
+    if (!part || !part.isActive) {
+      throw new NotFoundException('Part not found');
+    }
+
+    if (part.stockQuantity > 0) {
+      throw new BadRequestException('This part is in stock');
+    }
+
+    return this.prisma.stockAlertSubscription.upsert({
+      where: { customerId_partId: { customerId: customer.id, partId } },
+      update: {},
+      create: { customerId: customer.id, partId }
+    });
+  }
+
+  /**
+   * Stop back-in-stock alerts for a part
+   */
+  async unsubscribe(userId: string, partId: string): Promise<void> {
+    const customer = await this.getCustomer(userId);
+
+    const { count } = await this.prisma.stockAlertSubscription.deleteMany({
+      where: { customerId: customer.id, partId }
+    });
+
+    if (count === 0) {
+      throw new NotFoundException('You are not subscribed to this part');
+    }
+  }
+
+  /**
+   * List the customer's back-in-stock subscriptions
+   */
+  async getSubscriptions(userId: string): Promise<StockAlertSubscription[]> {
+    const customer = await this.getCustomer(userId);
+
+    return this.prisma.stockAlertSubscription.findMany({
+      where: { customerId: customer.id },
+      include: {
+        part: {
+          select: {
+            id: true,
+            name: true,
+            price: true,
+            discountedPrice: true,
+            images: true,
+            stockQuantity: true
+          }
+        }
+      },
+      orderBy: { createdAt: 'desc' }
+    });
+  }
+
+  /**
+   * Alert subscribers when a part goes from out of stock to in stock.
+   * Each subscription is claimed before sending so concurrent restocks
+   * can't alert the same customer twice inside the throttle window.
+   * Failures are logged rather than thrown so they never undo a stock change.
+   */
+  async notifyBackInStock(partId: string, previousStock: number, newStock: number): Promise<number> {
+    if (previousStock > 0 || newStock <= 0) {
+      return 0;
+    }
+
+    try {
+      const part = await this.prisma.part.findUnique({
+        where: { id: partId },
+        select: { id: true, name: true, isActive: true, vendor: { select: { businessName: true } } }
+      });
+
+      if (!part || !part.isActive) {
+        return 0;
+      }
+
+      const cutoff = new Date(Date.now() - BACK_IN_STOCK_THROTTLE_MS);
+      const notThrottled = [{ lastNotifiedAt: null }, { lastNotifiedAt: { lt: cutoff } }];
+
+      const subscriptions = await this.prisma.stockAlertSubscription.findMany({
+        where: { partId, OR: notThrottled },
+        select: { id: true, customer: { select: { userId: true } } }
+      });
+
+      let sent = 0;
+
+      for (const subscription of subscriptions) {
+        const { count } = await this.prisma.stockAlertSubscription.updateMany({
+          where: { id: subscription.id, OR: notThrottled },
+          data: { lastNotifiedAt: new Date() }
+        });
+
+        if (count === 0) {
+          continue;
+        }
+
+        try {
+          await notificationService.createNotification({
+            userId: subscription.customer.userId,
+            title: `Back in stock: ${part.name}`,
+            message: `${part.name} is available again from ${part.vendor.businessName}.`,
+            type: NotificationType.INVENTORY,
+            referenceId: part.id,
+            referenceType: 'Part',
+            data: { partId: part.id, partName: part.name, stockQuantity: newStock }
+          });
+          sent++;
+        } catch (error) {
+          console.error(`Failed to send back-in-stock alert to user ${subscription.customer.userId}:`, error);
+        }
+      }
+
+      return sent;
+    } catch (error) {
+      console.error('Failed to send back-in-stock alerts:', error);
+      return 0;
+    }
+  }
+
+  /**
+   * Get the customer profile of the current user
+   */
+  private async getCustomer(userId: string) {
+    const customer = await this.prisma.customer.findUnique({
+      where: { userId }
+    });
+
+    if (!customer) {
+      throw new NotFoundException('Customer profile not found');
+    }
+
+    return customer;
+  }
+}
+
+export default new StockAlertService();
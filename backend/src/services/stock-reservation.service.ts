@@ -0,0 +1,315 @@
+import { PrismaClient, Prisma, PaymentType, ReservationStatus } from '@prisma/client';
+import { BadRequestException } from '../utils/exceptions.util';
+
+const DEFAULT_TTL_MINUTES = 30;
+
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+// Holds that have not taken stock yet and can be given back or held again
+const UNCONVERTED_STATUSES: ReservationStatus[] = [
+  ReservationStatus.ACTIVE,
+  ReservationStatus.RELEASED,
+  ReservationStatus.EXPIRED
+];
+
+/**
+ * Holds stock for orders whose payment is pending. A hold counts against
+ * `Part.reservedQuantity` so nobody else can buy it, but `stockQuantity`
+ * only drops once the payment is verified. Holds that outlive their TTL are
+ * given back by the sweeper.
+ */
+export class StockReservationService {
+  private prisma: PrismaClient;
+  private isSweeping = false;
+  private sweepTimer: NodeJS.Timeout | null = null;
+
+  constructor() {
+    this.prisma = new PrismaClient();
+  }
+
+  /**
+   * Cash on delivery is paid when the goods arrive, so its stock is taken
+   * straight away; every other method holds stock until payment is verified
+   */
+  usesReservation(paymentMethod: PaymentType): boolean {
+    return paymentMethod !== PaymentType.CASH_ON_DELIVERY;
+  }
+
+  /**
+   * Take stock off the shelf, unless that would eat into other orders' holds
+   * @returns Whether there was enough available stock
+   */
+  async takeStock(tx: Prisma.TransactionClient, partId: string, quantity: number): Promise<boolean> {
+    const updated = await tx.$executeRaw`
+      UPDATE "Part"
+      SET "stockQuantity" = "stockQuantity" - ${quantity}, "updatedAt" = now()
+      WHERE "id" = ${partId} AND "stockQuantity" - "reservedQuantity" >= ${quantity}
+    `;
+
+    return updated > 0;
+  }
+
+  /**
+   * Hold stock for an order until the TTL runs out
+   * @returns Whether there was enough available stock
+   */
+  async reserve(tx: Prisma.TransactionClient, orderId: string, partId: string, quantity: number): Promise<boolean> {
+    if (!(await this.holdStock(tx, partId, quantity))) {
+      return false;
+    }
+
+    await tx.stockReservation.create({
+      data: {
+        orderId,
+        partId,
+        quantity,
+        expiresAt: this.getExpiry()
+      }
+    });
+
+    return true;
+  }
+
+  /**
+   * Payment went through: turn the order's holds into stock taken. Holds the
+   * sweeper already gave back are taken again if the stock is still there;
+   * otherwise the shortfall is logged for the vendor to sort out.
+   */
+  async convertForOrder(tx: Prisma.TransactionClient, orderId: string): Promise<void> {
+    const reservations = await tx.stockReservation.findMany({
+      where: { orderId, status: { in: UNCONVERTED_STATUSES } }
+    });
+
+    for (const reservation of reservations) {
+      let converted: boolean;
+
+      if (reservation.status === ReservationStatus.ACTIVE) {
+        await tx.part.update({
+          where: { id: reservation.partId },
+          data: {
+            stockQuantity: { decrement: reservation.quantity },
+            reservedQuantity: { decrement: reservation.quantity }
+          }
+        });
+        converted = true;
+      } else {
+        converted = await this.takeStock(tx, reservation.partId, reservation.quantity);
+      }
+
+      if (converted) {
+        await tx.stockReservation.update({
+          where: { id: reservation.id },
+          data: { status: ReservationStatus.CONVERTED }
+        });
+      } else {
+        await tx.systemLog.create({
+          data: {
+            action: 'STOCK_SHORTFALL',
+            entityType: 'Order',
+            entityId: orderId,
+            details: {
+              reservationId: reservation.id,
+              partId: reservation.partId,
+              quantity: reservation.quantity
+            }
+          }
+        });
+      }
+    }
+  }
+
+  /**
+   * Give back an order's holds after a failed payment or cancellation. Holds
+   * given back on cancellation are marked CANCELLED so a late payment can't
+   * take the stock again.
+   * @returns Quantity per part that the order held but never took from stock,
+   * so callers restocking the order's items know not to add it back
+   */
+  async releaseForOrder(
+    tx: Prisma.TransactionClient,
+    orderId: string,
+    status: typeof ReservationStatus.RELEASED | typeof ReservationStatus.CANCELLED = ReservationStatus.RELEASED
+  ): Promise<Map<string, number>> {
+    const reservations = await tx.stockReservation.findMany({
+      where: { orderId, status: { in: UNCONVERTED_STATUSES } }
+    });
+
+    const untaken = new Map<string, number>();
+
+    for (const reservation of reservations) {
+      if (reservation.status === ReservationStatus.ACTIVE) {
+        await tx.part.update({
+          where: { id: reservation.partId },
+          data: { reservedQuantity: { decrement: reservation.quantity } }
+        });
+      }
+
+      await tx.stockReservation.update({
+        where: { id: reservation.id },
+        data: { status }
+      });
+
+      untaken.set(reservation.partId, (untaken.get(reservation.partId) || 0) + reservation.quantity);
+    }
+
+    return untaken;
+  }
+
+  /**
+   * An order item was reduced or removed: shrink the part's holds by up to
+   * `quantity`
+   * @returns How much of the quantity was only held, and so must not be restocked
+   */
+  async reduceForOrder(
+    tx: Prisma.TransactionClient,
+    orderId: string,
+    partId: string,
+    quantity: number
+  ): Promise<number> {
+    const reservations = await tx.stockReservation.findMany({
+      where: { orderId, partId, status: { in: UNCONVERTED_STATUSES } }
+    });
+
+    let remaining = quantity;
+    for (const reservation of reservations) {
+      if (remaining === 0) {
+        break;
+      }
+
+      const reduction = Math.min(remaining, reservation.quantity);
+      remaining -= reduction;
+
+      if (reservation.status === ReservationStatus.ACTIVE) {
+        await tx.part.update({
+          where: { id: partId },
+          data: { reservedQuantity: { decrement: reduction } }
+        });
+      }
+
+      // Drop emptied holds outright so a payment retry can't renew them
+      if (reduction === reservation.quantity) {
+        await tx.stockReservation.delete({ where: { id: reservation.id } });
+      } else {
+        await tx.stockReservation.update({
+          where: { id: reservation.id },
+          data: { quantity: { decrement: reduction } }
+        });
+      }
+    }
+
+    return quantity - remaining;
+  }
+
+  /**
+   * The customer is about to pay: restart the TTL on active holds and hold
+   * again anything that expired or was released by an earlier failed payment
+   */
+  async renewForOrder(orderId: string): Promise<void> {
+    await this.prisma.$transaction(async (tx) => {
+      const reservations = await tx.stockReservation.findMany({
+        where: { orderId, status: { in: UNCONVERTED_STATUSES } },
+        include: { part: { select: { name: true } } }
+      });
+
+      for (const reservation of reservations) {
+        if (
+          reservation.status !== ReservationStatus.ACTIVE &&
+          !(await this.holdStock(tx, reservation.partId, reservation.quantity))
+        ) {
+          throw new BadRequestException(`${reservation.part.name} is no longer in stock`);
+        }
+
+        await tx.stockReservation.update({
+          where: { id: reservation.id },
+          data: { status: ReservationStatus.ACTIVE, expiresAt: this.getExpiry() }
+        });
+      }
+    });
+  }
+
+  /**
+   * Give back every hold whose TTL has run out
+   * @returns Number of holds released, or null if a sweep was already running
+   */
+  async releaseExpired(): Promise<number | null> {
+    if (this.isSweeping) {
+      return null;
+    }
+
+    this.isSweeping = true;
+    try {
+      const expired = await this.prisma.stockReservation.findMany({
+        where: { status: ReservationStatus.ACTIVE, expiresAt: { lt: new Date() } },
+        select: { id: true, partId: true, quantity: true }
+      });
+
+      let released = 0;
+      for (const reservation of expired) {
+        await this.prisma.$transaction(async (tx) => {
+          // Skip holds converted or renewed since they were read
+          const { count } = await tx.stockReservation.updateMany({
+            where: { id: reservation.id, status: ReservationStatus.ACTIVE, expiresAt: { lt: new Date() } },
+            data: { status: ReservationStatus.EXPIRED }
+          });
+
+          if (count > 0) {
+            await tx.part.update({
+              where: { id: reservation.partId },
+              data: { reservedQuantity: { decrement: reservation.quantity } }
+            });
+            released++;
+          }
+        });
+      }
+
+      return released;
+    } finally {
+      this.isSweeping = false;
+    }
+  }
+
+  /**
+   * Release expired holds now and then on a fixed interval. Errors are logged
+   * so a failed run doesn't stop the next one.
+   */
+  scheduleSweep(intervalMs: number = SWEEP_INTERVAL_MS): void {
+    if (this.sweepTimer) {
+      return;
+    }
+
+    const run = () => {
+      this.releaseExpired()
+        .then(released => {
+          if (released) {
+            console.log(`Released ${released} expired stock reservations`);
+          }
+        })
+        .catch(error => console.error('Failed to release expired stock reservations:', error));
+    };
+
+    run();
+    this.sweepTimer = setInterval(run, intervalMs);
+    this.sweepTimer.unref();
+  }
+
+  private async holdStock(tx: Prisma.TransactionClient, partId: string, quantity: number): Promise<boolean> {
+    const updated = await tx.$executeRaw`
+      UPDATE "Part"
+      SET "reservedQuantity" = "reservedQuantity" + ${quantity}
+      WHERE "id" = ${partId} AND "stockQuantity" - "reservedQuantity" >= ${quantity}
+    `;
+
+    return updated > 0;
+  }
+
+  /**
+   * When a hold made now runs out. STOCK_RESERVATION_TTL_MINUTES is read on
+   * each call so it follows dotenv.
+   */
+  private getExpiry(): Date {
+    const minutes = parseInt(process.env.STOCK_RESERVATION_TTL_MINUTES || '', 10) || DEFAULT_TTL_MINUTES;
+    return new Date(Date.now() + minutes * 60 * 1000);
+  }
+}
+
+export default new StockReservationService();
@@ -1,6 +1,7 @@
 import { PrismaClient, User, UserRole, AdminPermission } from '@prisma/client';
 import * as bcryptjs from 'bcryptjs';
 import * as crypto from 'crypto';
+import { deleteStoredFiles } from '../utils/storage.util';
 
 // Define interfaces for input data
 interface UpdateProfileDto {
@@ -186,6 +187,11 @@ export class UserService {
       },
     });
 
+    // A replaced profile image is no longer referenced
+    if (customer.profileImage !== updatedCustomer.profileImage) {
+      await deleteStoredFiles([customer.profileImage]);
+    }
+
     await this.logSystemAction('PROFILE_UPDATE', 'Customer', customer.id, {
       updatedFields: this.getUpdatedFields(data, ['firstName', 'lastName', 'profileImage']),
     });
@@ -291,6 +297,11 @@ export class UserService {
       data: updateData,
     });
 
+    // A replaced logo is no longer referenced
+    if (vendor.businessLogo !== updatedVendor.businessLogo) {
+      await deleteStoredFiles([vendor.businessLogo]);
+    }
+
     await this.logSystemAction('PROFILE_UPDATE', 'Vendor', vendor.id, {
       updatedFields: Object.keys(updateData),
     });
@@ -339,6 +350,11 @@ export class UserService {
       data: updateData,
     });
 
+    // A replaced profile image is no longer referenced
+    if (driver.profileImage !== updatedDriver.profileImage) {
+      await deleteStoredFiles([driver.profileImage]);
+    }
+
     await this.logSystemAction('PROFILE_UPDATE', 'Driver', driver.id, {
       updatedFields: Object.keys(updateData),
     });
@@ -1,10 +1,13 @@
 import { PrismaClient, Vehicle } from '@prisma/client';
+import fitmentService from './fitment.service';
+import { decodeVin, DecodedVin } from '../utils/vin.util';
+import { BadRequestException } from '../utils/exceptions.util';
 
 interface VehicleDto {
   make: string;
   model: string;
   year: number;
-  vin?: string;
+  vin?: string | null;
   licensePlate?: string;
   engineType?: string;
   transmissionType?: string;
@@ -62,6 +65,11 @@ export class VehicleService {
   async createVehicle(userId: string, vehicleData: VehicleDto): Promise<Vehicle> {
     const customer = await this.validateCustomer(userId);
 
+    // Pre-fill make and year from the VIN, or check they agree with it
+    if (vehicleData.vin) {
+      vehicleData = this.applyVinDetails(vehicleData);
+    }
+
     // Validate required fields
     if (!vehicleData.make || !vehicleData.model || !vehicleData.year) {
       throw new Error('Make, model, and year are required');
@@ -128,6 +136,21 @@ export class VehicleService {
       throw new Error('Vehicle not found');
     }
 
+    if (vehicleData.vin === '') {
+      vehicleData = { ...vehicleData, vin: null };
+    }
+
+    // Re-check the VIN whenever it, the make or the year changes
+    const vin = vehicleData.vin !== undefined ? vehicleData.vin : existingVehicle.vin;
+    if (vin && (vehicleData.vin || vehicleData.make || vehicleData.year)) {
+      vehicleData = this.applyVinDetails({
+        ...vehicleData,
+        make: vehicleData.make || existingVehicle.make,
+        year: vehicleData.year || existingVehicle.year,
+        vin
+      });
+    }
+
     // If setting as default, unset all other defaults
     if (vehicleData.isDefault) {
       await this.prisma.vehicle.updateMany({
@@ -276,10 +299,7 @@ export class VehicleService {
 
     // Build query to find compatible parts
     const queryConditions: any = {
-      compatibleVehicles: {
-        path: '$',
-        array_contains: [{ make: vehicle.make, model: vehicle.model, year: vehicle.year }]
-      },
+      ...fitmentService.buildFitmentFilter(vehicle),
       isActive: true
     };
 
@@ -409,6 +429,44 @@ export class VehicleService {
     };
   }
 
+  /**
+   * Decode a VIN without saving anything
+   */
+  decodeVin(vin: string): DecodedVin {
+    return decodeVin(vin);
+  }
+
+  /**
+   * Helper method to validate the VIN, fill in a missing make/year from it
+   * and reject a make or year that contradicts it
+   */
+  private applyVinDetails<T extends Partial<VehicleDto>>(vehicleData: T): T {
+    const decoded = decodeVin(vehicleData.vin as string);
+
+    if (!decoded.isValid) {
+      throw new BadRequestException(`Invalid VIN: ${decoded.errors.join(', ')}`);
+    }
+
+    const make = vehicleData.make || decoded.make;
+    const year = vehicleData.year ? Number(vehicleData.year) : decoded.modelYear;
+
+    if (decoded.make && make && decoded.make.toLowerCase() !== make.toLowerCase()) {
+      throw new BadRequestException(`VIN belongs to a ${decoded.make}, not a ${make}`);
+    }
+
+    // Only the year code's 30-year cycle is ambiguous, so accept either candidate
+    if (year && decoded.possibleModelYears.length > 0 && !decoded.possibleModelYears.includes(year)) {
+      throw new BadRequestException(`VIN is for model year ${decoded.possibleModelYears.join(' or ')}, not ${year}`);
+    }
+
+    return {
+      ...vehicleData,
+      vin: decoded.vin,
+      ...(make && { make }),
+      ...(year && { year })
+    };
+  }
+
   /**
    * Helper method to validate customer exists
    */
@@ -0,0 +1,327 @@
+import { PrismaClient, Review, OrderStatus, Prisma, UserRole } from '@prisma/client';
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  NotFoundException
+} from '../utils/exceptions.util';
+import notificationService from './notification.service';
+import { deleteStoredFiles, withUploadedFiles } from '../utils/storage.util';
+
+interface VendorReviewDto {
+  orderId: string;
+  rating: number;
+  comment?: string;
+  images?: string[];
+}
+
+type ModerationStatus = 'pending' | 'hidden' | 'all';
+
+interface ModerationQueueOptions {
+  status?: ModerationStatus;
+  vendorId?: string;
+  page?: number;
+  limit?: number;
+}
+
+interface ModerationDto {
+  isHidden: boolean;
+  reason?: string;
+}
+
+// Only orders the customer has actually received can be reviewed
+const COMPLETED_ORDER_STATUSES: OrderStatus[] = [OrderStatus.DELIVERED, OrderStatus.COLLECTED];
+
+const MAX_REVIEW_IMAGES = 5;
+
+export class VendorReviewService {
+  private prisma: PrismaClient;
+
+  constructor() {
+    this.prisma = new PrismaClient();
+  }
+
+  /**
+   * Review the vendor of a completed order. Each order can be reviewed once.
+   * Uploaded images are deleted again if the review is rejected.
+   */
+  async createReview(userId: string, data: VendorReviewDto): Promise<Review> {
+    const { customer, review } = await withUploadedFiles(data.images, async () => {
+      const customer = await this.getCustomer(userId);
+
+      if (!data.orderId) {
+        throw new BadRequestException('orderId is required');
+      }
+
+      this.validateReview(data);
+
+      const order = await this.prisma.order.findUnique({
+        where: { id: data.orderId },
+        select: { id: true, orderNumber: true, customerId: true, vendorId: true, orderStatus: true }
+      });
+
+      if (!order || order.customerId !== customer.id) {
+        throw new NotFoundException('Order not found');
+      }
+
+      if (!COMPLETED_ORDER_STATUSES.includes(order.orderStatus)) {
+        throw new BadRequestException('Only delivered or collected orders can be reviewed');
+      }
+
+      const existingReview = await this.prisma.review.findUnique({
+        where: { orderId: order.id }
+      });
+
+      if (existingReview) {
+        throw new ConflictException('You have already reviewed this order');
+      }
+
+      const review = await this.prisma.$transaction(async (tx) => {
+        const newReview = await tx.review.create({
+          data: {
+            customerId: customer.id,
+            vendorId: order.vendorId,
+            orderId: order.id,
+            rating: data.rating,
+            comment: data.comment,
+            images: data.images || [],
+            isVerifiedPurchase: true
+          }
+        });
+
+        await this.recalculateVendorRating(tx, order.vendorId);
+
+        return newReview;
+      });
+
+      return { customer, review };
+    });
+
+    await notificationService.sendReviewNotification(
+      review.id,
+      review.vendorId,
+      `${customer.firstName} ${customer.lastName}`,
+      review.rating,
+      review.comment || undefined
+    );
+
+    return review;
+  }
+
+  /**
+   * Edit the customer's own review. Edited reviews go back into the moderation queue.
+   * Newly uploaded images are deleted again if the edit is rejected.
+   */
+  async updateReview(userId: string, reviewId: string, data: Partial<VendorReviewDto>): Promise<Review> {
+    const { review, updatedReview } = await withUploadedFiles(data.images, async () => {
+      const customer = await this.getCustomer(userId);
+      const review = await this.getReview(reviewId);
+
+      if (review.customerId !== customer.id) {
+        throw new ForbiddenException('You can only edit your own reviews');
+      }
+
+      this.validateReview({ ...data, rating: data.rating ?? review.rating });
+
+      const updatedReview = await this.prisma.$transaction(async (tx) => {
+        const updated = await tx.review.update({
+          where: { id: reviewId },
+          data: {
+            ...(data.rating !== undefined && { rating: data.rating }),
+            ...(data.comment !== undefined && { comment: data.comment }),
+            ...(data.images && data.images.length > 0 && { images: data.images }),
+            moderatedById: null,
+            moderatedAt: null
+          }
+        });
+
+        await this.recalculateVendorRating(tx, review.vendorId);
+
+        return updated;
+      });
+
+      return { review, updatedReview };
+    });
+
+    await deleteStoredFiles(review.images.filter(image => !updatedReview.images.includes(image)));
+
+    return updatedReview;
+  }
+
+  /**
+   * Get the customer's own vendor reviews, including hidden ones
+   */
+  async getCustomerReviews(userId: string): Promise<Review[]> {
+    const customer = await this.getCustomer(userId);
+
+    return this.prisma.review.findMany({
+      where: { customerId: customer.id },
+      include: {
+        vendor: { select: { businessName: true, businessLogo: true } },
+        order: { select: { orderNumber: true } }
+      },
+      orderBy: { createdAt: 'desc' }
+    });
+  }
+
+  /**
+   * Reviews for admins to moderate. Pending reviews are those nobody has
+   * looked at since they were written or last edited.
+   */
+  async getModerationQueue(role: UserRole, options: ModerationQueueOptions = {}): Promise<any> {
+    if (role !== UserRole.ADMIN) {
+      throw new ForbiddenException('Only admins can moderate reviews');
+    }
+
+    const page = options.page || 1;
+    const limit = options.limit || 20;
+    const status = options.status || 'pending';
+
+    const where: Prisma.ReviewWhereInput = {
+      ...(status === 'pending' && { moderatedAt: null }),
+      ...(status === 'hidden' && { isHidden: true }),
+      ...(options.vendorId && { vendorId: options.vendorId })
+    };
+
+    const [reviews, total] = await Promise.all([
+      this.prisma.review.findMany({
+        where,
+        include: {
+          customer: { select: { firstName: true, lastName: true } },
+          vendor: { select: { businessName: true } },
+          order: { select: { orderNumber: true } }
+        },
+        // Oldest first so the queue is worked through in order
+        orderBy: { createdAt: status === 'pending' ? 'asc' : 'desc' },
+        skip: (page - 1) * limit,
+        take: limit
+      }),
+      this.prisma.review.count({ where })
+    ]);
+
+    return {
+      reviews,
+      pagination: {
+        total,
+        page,
+        limit,
+        pages: Math.ceil(total / limit)
+      }
+    };
+  }
+
+  /**
+   * Approve, hide or restore a review. Hidden reviews don't count towards the vendor's rating.
+   */
+  async moderateReview(adminUserId: string, role: UserRole, reviewId: string, data: ModerationDto): Promise<Review> {
+    if (role !== UserRole.ADMIN) {
+      throw new ForbiddenException('Only admins can moderate reviews');
+    }
+
+    if (typeof data.isHidden !== 'boolean') {
+      throw new BadRequestException('isHidden must be true or false');
+    }
+
+    if (data.isHidden && !data.reason) {
+      throw new BadRequestException('A reason is required when hiding a review');
+    }
+
+    const review = await this.getReview(reviewId);
+
+    const moderatedReview = await this.prisma.$transaction(async (tx) => {
+      const updatedReview = await tx.review.update({
+        where: { id: reviewId },
+        data: {
+          isHidden: data.isHidden,
+          hiddenReason: data.isHidden ? data.reason : null,
+          moderatedById: adminUserId,
+          moderatedAt: new Date()
+        }
+      });
+
+      await this.recalculateVendorRating(tx, review.vendorId);
+
+      return updatedReview;
+    });
+
+    await this.prisma.systemLog.create({
+      data: {
+        action: data.isHidden ? 'VENDOR_REVIEW_HIDDEN' : 'VENDOR_REVIEW_APPROVED',
+        entityType: 'Review',
+        entityId: reviewId,
+        performedById: adminUserId,
+        details: { vendorId: review.vendorId, reason: data.reason }
+      }
+    });
+
+    return moderatedReview;
+  }
+
+  /**
+   * Recompute the vendor's rating aggregates from its visible reviews
+   */
+  private async recalculateVendorRating(tx: Prisma.TransactionClient, vendorId: string): Promise<void> {
+    const aggregate = await tx.review.aggregate({
+      where: { vendorId, isHidden: false },
+      _avg: { rating: true },
+      _count: { _all: true }
+    });
+
+    await tx.vendor.update({
+      where: { id: vendorId },
+      data: {
+        rating: aggregate._avg.rating ? Math.round(aggregate._avg.rating * 10) / 10 : 0,
+        totalRatings: aggregate._count._all
+      }
+    });
+  }
+
+  /**
+   * Load a review by ID
+   */
+  private async getReview(reviewId: string): Promise<Review> {
+    const review = await this.prisma.review.findUnique({
+      where: { id: reviewId }
+    });
+
+    if (!review) {
+      throw new NotFoundException('Review not found');
+    }
+
+    return review;
+  }
+
+  /**
+   * Get the customer profile of the current user
+   */
+  private async getCustomer(userId: string) {
+    const customer = await this.prisma.customer.findUnique({
+      where: { userId }
+    });
+
+    if (!customer) {
+      throw new NotFoundException('Customer profile not found');
+    }
+
+    return customer;
+  }
+
+  /**
+   * Validate rating, comment length and image count
+   */
+  private validateReview(data: Partial<VendorReviewDto>): void {
+    if (data.rating === undefined || !Number.isInteger(data.rating) || data.rating < 1 || data.rating > 5) {
+      throw new BadRequestException('Rating must be a whole number from 1 to 5');
+    }
+
+    if (data.comment && data.comment.length > 2000) {
+      throw new BadRequestException('Comment must be 2000 characters or fewer');
+    }
+
+    if (data.images && data.images.length > MAX_REVIEW_IMAGES) {
+      throw new BadRequestException(`A review can have at most ${MAX_REVIEW_IMAGES} images`);
+    }
+  }
+}
+
+export default new VendorReviewService();
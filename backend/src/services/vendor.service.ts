@@ -1,5 +1,6 @@
 import { PrismaClient, Vendor, OrderStatus, SystemLog } from '@prisma/client';
 import { BadRequestException, NotFoundException } from '../utils/exceptions.util';
+import { deleteStoredFiles } from '../utils/storage.util';
 
 // Define interfaces for input data
 interface VendorProfileUpdateDto {
@@ -104,10 +105,17 @@ export class VendorService {
       }
 
       // Update the vendor profile
-      return await this.prisma.vendor.update({
+      const updatedVendor = await this.prisma.vendor.update({
         where: { userId },
         data,
       });
+
+      // A replaced logo is no longer referenced
+      if (vendor.businessLogo !== updatedVendor.businessLogo) {
+        await deleteStoredFiles([vendor.businessLogo]);
+      }
+
+      return updatedVendor;
     } catch (error: any) {
       if (error instanceof NotFoundException) {
         throw error;
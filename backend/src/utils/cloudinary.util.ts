@@ -1,7 +1,5 @@
 import { v2 as cloudinary } from 'cloudinary';
-import { CloudinaryStorage } from 'multer-storage-cloudinary';
-import multer from 'multer';
-import path from 'path';
+import type { StorageAdapter, StoredFile, ThumbnailSize, UploadInput } from './storage.util';
 
 // Configure Cloudinary
 cloudinary.config({
@@ -10,73 +8,120 @@ cloudinary.config({
   api_secret: process.env.CLOUD_SECRET_KEY
 });
 
-// Define storage
-const storage = new CloudinaryStorage({
-  cloudinary: cloudinary,
-  params: (req, file) => {
-    let folder = 'damps';
-    
-    // Determine folder based on the route or file type
-    if (req.originalUrl.includes('/register/customer') || req.originalUrl.includes('profile-image')) {
-      folder = 'damps/profiles';
-    } else if (req.originalUrl.includes('/register/vendor') || req.originalUrl.includes('business-logo')) {
-      folder = 'damps/businesses';
-    } else if (req.originalUrl.includes('/register/driver')) {
-      folder = 'damps/driver-documents';
-    } else if (req.originalUrl.includes('/parts')) {
-      folder = 'damps/parts';
-    } else if (file.mimetype.startsWith('image')) {
-      folder = 'damps/images';
-    } else {
-      folder = 'damps/documents';
+// Every upload lives under this folder of the Cloudinary account
+const ROOT_FOLDER = 'damps';
+
+const ALLOWED_FORMATS = ['jpg', 'jpeg', 'png', 'gif', 'webp', 'pdf', 'doc', 'docx'];
+
+type ResourceType = 'image' | 'video' | 'raw';
+
+/**
+ * Stores uploads in Cloudinary
+ */
+export class CloudinaryStorageAdapter implements StorageAdapter {
+  readonly name = 'cloudinary';
+
+  put(file: UploadInput, folder: string): Promise<StoredFile> {
+    return new Promise((resolve, reject) => {
+      const uploadStream = cloudinary.uploader.upload_stream(
+        {
+          folder: `${ROOT_FOLDER}/${folder}`,
+          public_id: file.name,
+          resource_type: 'auto',
+          allowed_formats: ALLOWED_FORMATS
+        },
+        (error, result) => {
+          if (error || !result) {
+            reject(new Error(`File upload failed: ${error?.message || 'Unknown error'}`));
+            return;
+          }
+
+          resolve({
+            url: result.secure_url,
+            key: result.public_id,
+            size: result.bytes
+          });
+        }
+      );
+
+      uploadStream.end(file.buffer);
+    });
+  }
+
+  async delete(url: string): Promise<void> {
+    const asset = this.parseUrl(url);
+
+    if (!asset) {
+      return;
     }
-    
-    return {
-      folder: folder,
-      allowed_formats: ['jpg', 'jpeg', 'png', 'gif', 'pdf', 'doc', 'docx'],
-      public_id: `${Date.now()}-${path.basename(file.originalname, path.extname(file.originalname))}`
-    };
+
+    await cloudinary.uploader.destroy(asset.publicId, { resource_type: asset.resourceType });
   }
-});
 
-// Create multer upload instance
-export const upload = multer({ 
-  storage: storage,
-  limits: {
-    fileSize: 10 * 1024 * 1024, // 10MB max file size
-  },
-  fileFilter: (req, file, cb) => {
-    // Accept images, PDFs, DOCs
-    const allowedMimes = [
-      'image/jpeg', 'image/png', 'image/gif', 'image/webp',
-      'application/pdf', 
-      'application/msword', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
-    ];
-    
-    if (allowedMimes.includes(file.mimetype)) {
-      cb(null, true);
-    } else {
-      cb(new Error(`Unsupported file type: ${file.mimetype}`));
+  owns(url: string): boolean {
+    return this.parseUrl(url) !== null;
+  }
+
+  /**
+   * A download link that stops working after the given time
+   */
+  getSignedUrl(url: string, expiresInSeconds: number): string {
+    const asset = this.parseUrl(url);
+
+    if (!asset) {
+      return url;
     }
+
+    return cloudinary.utils.private_download_url(asset.publicId, asset.format, {
+      resource_type: asset.resourceType,
+      type: 'upload',
+      expires_at: Math.floor(Date.now() / 1000) + expiresInSeconds
+    });
   }
-});
 
-/**
- * Uploads a file to Cloudinary
- * @param file File to upload
- * @returns URL of the uploaded file
- */
-export async function uploadToCloudinary(file?: Express.Multer.File): Promise<string> {
-  if (!file) {
-    throw new Error('No file provided');
+  /**
+   * Images are cropped on the fly by Cloudinary; other files are returned as they are
+   */
+  getThumbnailUrl(url: string, size: ThumbnailSize): string {
+    const asset = this.parseUrl(url);
+
+    if (!asset || asset.resourceType !== 'image') {
+      return url;
+    }
+
+    return url.replace('/image/upload/', `/image/upload/c_fill,w_${size.width},h_${size.height}/`);
   }
-  
-  try {
-    // For multer with CloudinaryStorage, the file already has a path property
-    // with the Cloudinary URL, so we just need to return it
-    return file.path;
-  } catch (error: any) {
-    console.error('Cloudinary upload error:', error);
-    throw new Error(`File upload failed: ${error.message || 'Unknown error'}`);
+
+  /**
+   * Pull the public ID out of a delivery URL such as
+   * https://res.cloudinary.com/<cloud>/image/upload/v1712345678/damps/parts/1712345678901-pad.jpg
+   */
+  private parseUrl(url: string): { publicId: string; format: string; resourceType: ResourceType } | null {
+    const cloudName = process.env.CLOUD_NAME;
+
+    if (!cloudName || !url.includes(`res.cloudinary.com/${cloudName}/`)) {
+      return null;
+    }
+
+    const match = url.split('?')[0].match(/\/(image|video|raw)\/upload\/(?:.*\/)?v\d+\/(.+)$/);
+
+    if (!match) {
+      return null;
+    }
+
+    const resourceType = match[1] as ResourceType;
+    const path = decodeURIComponent(match[2]);
+    const extension = path.match(/\.([a-z0-9]+)$/i);
+
+    // Raw files keep their extension as part of the public ID
+    if (resourceType === 'raw' || !extension) {
+      return { publicId: path, format: '', resourceType };
+    }
+
+    return {
+      publicId: path.slice(0, -extension[0].length),
+      format: extension[1],
+      resourceType
+    };
   }
-}
\ No newline at end of file
+}
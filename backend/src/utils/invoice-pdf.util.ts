@@ -0,0 +1,176 @@
+import PDFDocument from 'pdfkit';
+
+/**
+ * A party named on an invoice: the vendor issuing it or the buyer
+ */
+export interface InvoiceParty {
+  name: string;
+  lines: string[];
+}
+
+export interface InvoiceLine {
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  tax: number;
+  amount: number;
+}
+
+export interface InvoiceTotal {
+  label: string;
+  amount: number;
+  bold?: boolean;
+}
+
+/**
+ * Everything printed on an invoice or credit note
+ */
+export interface InvoiceDocumentData {
+  title: string;
+  number: string;
+  issuedAt: Date;
+  references: Array<{ label: string; value: string }>;
+  seller: InvoiceParty;
+  buyer: InvoiceParty;
+  lines: InvoiceLine[];
+  totals: InvoiceTotal[];
+  note?: string;
+}
+
+// The standard PDF fonts only cover WinAnsi, which has no naira sign
+const CURRENCY = 'NGN';
+
+const MARGIN = 50;
+
+// Left edge and width of each line item column
+const COLUMNS = {
+  description: { x: MARGIN, width: 215 },
+  quantity: { x: 265, width: 40 },
+  unitPrice: { x: 305, width: 80 },
+  tax: { x: 385, width: 70 },
+  amount: { x: 455, width: 90 }
+};
+
+export function formatAmount(amount: number): string {
+  return `${CURRENCY} ${amount.toLocaleString('en-NG', {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2
+  })}`;
+}
+
+/**
+ * Render an invoice or credit note to a PDF, in memory with the built-in fonts
+ */
+export function renderInvoicePdf(data: InvoiceDocumentData): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ size: 'A4', margin: MARGIN });
+    const chunks: Buffer[] = [];
+
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+
+    renderHeader(doc, data);
+    renderParties(doc, data.seller, data.buyer);
+    renderLines(doc, data.lines);
+    renderTotals(doc, data.totals);
+
+    if (data.note) {
+      doc.moveDown(2).font('Helvetica').fontSize(9).fillColor('#555555')
+        .text(data.note, MARGIN, doc.y, { width: 495 });
+    }
+
+    doc.end();
+  });
+}
+
+function renderHeader(doc: PDFKit.PDFDocument, data: InvoiceDocumentData): void {
+  doc.font('Helvetica-Bold').fontSize(20).fillColor('#000000').text(data.title, MARGIN, MARGIN);
+
+  doc.font('Helvetica').fontSize(10).moveDown(0.5);
+  doc.text(`Number: ${data.number}`);
+  doc.text(`Date: ${data.issuedAt.toISOString().slice(0, 10)}`);
+  for (const reference of data.references) {
+    doc.text(`${reference.label}: ${reference.value}`);
+  }
+
+  doc.moveDown(1.5);
+}
+
+function renderParties(doc: PDFKit.PDFDocument, seller: InvoiceParty, buyer: InvoiceParty): void {
+  const top = doc.y;
+
+  const renderParty = (heading: string, party: InvoiceParty, x: number) => {
+    doc.font('Helvetica-Bold').fontSize(10).text(heading, x, top, { width: 230 });
+    doc.font('Helvetica').text(party.name, { width: 230 });
+    for (const line of party.lines) {
+      doc.text(line, { width: 230 });
+    }
+    return doc.y;
+  };
+
+  const sellerBottom = renderParty('From', seller, MARGIN);
+  const buyerBottom = renderParty('Bill to', buyer, 315);
+
+  doc.y = Math.max(sellerBottom, buyerBottom);
+  doc.moveDown(2);
+}
+
+function renderLines(doc: PDFKit.PDFDocument, lines: InvoiceLine[]): void {
+  renderRow(doc, ['Description', 'Qty', 'Unit price', 'Tax', 'Amount'], 'Helvetica-Bold');
+  rule(doc);
+
+  for (const line of lines) {
+    if (doc.y > doc.page.height - 150) {
+      doc.addPage();
+    }
+
+    renderRow(doc, [
+      line.description,
+      line.quantity.toString(),
+      formatAmount(line.unitPrice),
+      formatAmount(line.tax),
+      formatAmount(line.amount)
+    ], 'Helvetica');
+  }
+
+  rule(doc);
+}
+
+function renderRow(doc: PDFKit.PDFDocument, cells: string[], font: string): void {
+  const top = doc.y;
+  const columns = Object.values(COLUMNS);
+  let bottom = top;
+
+  doc.font(font).fontSize(9);
+  cells.forEach((cell, index) => {
+    const column = columns[index];
+    doc.text(cell, column.x, top, {
+      width: column.width - 5,
+      align: index === 0 ? 'left' : 'right'
+    });
+    bottom = Math.max(bottom, doc.y);
+  });
+
+  doc.y = bottom + 4;
+}
+
+function renderTotals(doc: PDFKit.PDFDocument, totals: InvoiceTotal[]): void {
+  doc.moveDown(0.5);
+
+  for (const total of totals) {
+    const top = doc.y;
+    doc.font(total.bold ? 'Helvetica-Bold' : 'Helvetica').fontSize(10);
+    doc.text(total.label, COLUMNS.unitPrice.x, top, { width: 145 });
+    doc.text(formatAmount(total.amount), COLUMNS.amount.x, top, {
+      width: COLUMNS.amount.width - 5,
+      align: 'right'
+    });
+    doc.moveDown(0.3);
+  }
+}
+
+function rule(doc: PDFKit.PDFDocument): void {
+  doc.moveTo(MARGIN, doc.y).lineTo(doc.page.width - MARGIN, doc.y).strokeColor('#cccccc').stroke();
+  doc.y += 4;
+}
@@ -0,0 +1,106 @@
+import fs from 'fs';
+import path from 'path';
+import type { StorageAdapter, StoredFile, UploadInput } from './storage.util';
+
+// Files are served by the app under this path (see serveUploads)
+export const LOCAL_UPLOADS_PATH = '/uploads';
+
+/**
+ * Stores uploads on the local filesystem, for offline development and tests.
+ * Files are written under UPLOAD_DIR (default ./uploads) and linked from
+ * PUBLIC_BASE_URL, or with a root-relative URL when that isn't set.
+ */
+export class LocalStorageAdapter implements StorageAdapter {
+  readonly name = 'local';
+
+  get directory(): string {
+    return path.resolve(process.env.UPLOAD_DIR || 'uploads');
+  }
+
+  async put(file: UploadInput, folder: string): Promise<StoredFile> {
+    const key = `${folder}/${file.name}${file.extension}`;
+    const filePath = this.resolvePath(key);
+
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.promises.writeFile(filePath, file.buffer);
+
+    return {
+      url: `${this.baseUrl}/${key}`,
+      key,
+      size: file.buffer.length
+    };
+  }
+
+  async delete(url: string): Promise<void> {
+    const key = this.keyFromUrl(url);
+
+    if (!key) {
+      return;
+    }
+
+    try {
+      await fs.promises.unlink(this.resolvePath(key));
+    } catch (error: any) {
+      // Already gone is as good as deleted
+      if (error.code !== 'ENOENT') {
+        throw error;
+      }
+    }
+  }
+
+  owns(url: string): boolean {
+    return this.keyFromUrl(url) !== null;
+  }
+
+  /**
+   * Local files are served publicly, so the plain URL is returned
+   */
+  getSignedUrl(url: string): string {
+    return url;
+  }
+
+  /**
+   * No image processing is done locally, so thumbnails are the original file
+   */
+  getThumbnailUrl(url: string): string {
+    return url;
+  }
+
+  private get baseUrl(): string {
+    return `${(process.env.PUBLIC_BASE_URL || '').replace(/\/+$/, '')}${LOCAL_UPLOADS_PATH}`;
+  }
+
+  /**
+   * The storage key of a URL this adapter produced, or null for any other URL
+   */
+  private keyFromUrl(url: string): string | null {
+    const [withoutQuery] = url.split('?');
+    const prefix = `${this.baseUrl}/`;
+
+    if (!withoutQuery.startsWith(prefix)) {
+      return null;
+    }
+
+    const key = decodeURIComponent(withoutQuery.slice(prefix.length));
+
+    try {
+      this.resolvePath(key);
+      return key;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Absolute path of a key, refusing anything that escapes the upload directory
+   */
+  private resolvePath(key: string): string {
+    const filePath = path.resolve(this.directory, key);
+
+    if (!filePath.startsWith(`${this.directory}${path.sep}`)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+
+    return filePath;
+  }
+}
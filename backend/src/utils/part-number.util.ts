@@ -0,0 +1,14 @@
+/**
+ * Normalise a part number for matching across vendors and catalogues.
+ * Strips spaces, dashes, dots and other punctuation and upper-cases the rest,
+ * so "04465-0K240", "04465 0k240" and "044650K240" all compare equal.
+ * Mirrors the "partNumberKey" generated column on the Part table.
+ * @param partNumber Raw part number as typed by a vendor or customer
+ */
+export function normalizePartNumber(partNumber?: string | null): string {
+  if (!partNumber) {
+    return '';
+  }
+
+  return partNumber.toUpperCase().replace(/[^A-Z0-9]/g, '');
+}
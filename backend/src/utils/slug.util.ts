@@ -0,0 +1,11 @@
+/**
+ * Turn a name into a URL-friendly slug, e.g. "Filters & Fluids" -> "filters-fluids".
+ * Mirrors the backfill in the category_slugs migration.
+ * @param text Name to convert
+ */
+export function slugify(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
@@ -0,0 +1,220 @@
+import express, { Request, RequestHandler } from 'express';
+import multer, { StorageEngine } from 'multer';
+import path from 'path';
+import { CloudinaryStorageAdapter } from './cloudinary.util';
+import { LocalStorageAdapter } from './local-storage.util';
+
+export interface UploadInput {
+  buffer: Buffer;
+  name: string; // Unique file name without extension, e.g. "1712345678901-brake-pad"
+  extension: string; // Lower-case, with the dot, e.g. ".jpg"
+  mimetype: string;
+}
+
+export interface StoredFile {
+  url: string;
+  key: string;
+  size: number;
+}
+
+export interface ThumbnailSize {
+  width: number;
+  height: number;
+}
+
+/**
+ * A place uploads are kept. Implementations must leave URLs they didn't
+ * produce alone, since stored URLs can come from another backend or be
+ * external links.
+ */
+export interface StorageAdapter {
+  readonly name: string;
+  put(file: UploadInput, folder: string): Promise<StoredFile>;
+  delete(url: string): Promise<void>;
+  owns(url: string): boolean;
+  getSignedUrl(url: string, expiresInSeconds: number): string;
+  getThumbnailUrl(url: string, size: ThumbnailSize): string;
+}
+
+const adapters = {
+  cloudinary: new CloudinaryStorageAdapter(),
+  local: new LocalStorageAdapter()
+};
+
+const DEFAULT_SIGNED_URL_TTL_SECONDS = 60 * 60;
+
+/**
+ * The adapter new uploads go to: STORAGE_DRIVER=local keeps them on disk,
+ * anything else uses Cloudinary. Read on each call so it follows dotenv.
+ */
+export function getStorage(): StorageAdapter {
+  return process.env.STORAGE_DRIVER === 'local' ? adapters.local : adapters.cloudinary;
+}
+
+/**
+ * The adapter that stored a URL, whichever backend is active now
+ */
+function findOwner(url: string): StorageAdapter | undefined {
+  return Object.values(adapters).find(adapter => adapter.owns(url));
+}
+
+/**
+ * Delete stored files, skipping empty values and URLs no adapter owns
+ * (e.g. seeded placeholder images). Failures are logged rather than thrown
+ * so cleanup never undoes the change that orphaned the files.
+ */
+export async function deleteStoredFiles(urls: (string | null | undefined)[]): Promise<void> {
+  await Promise.all(
+    urls.map(async url => {
+      const owner = url ? findOwner(url) : undefined;
+
+      if (!url || !owner) {
+        return;
+      }
+
+      try {
+        await owner.delete(url);
+      } catch (error) {
+        console.error(`Failed to delete stored file ${url}:`, error);
+      }
+    })
+  );
+}
+
+/**
+ * Run work that saves files the request has already uploaded. Multer stores
+ * them before the request is checked, so they are deleted if the work fails.
+ */
+export async function withUploadedFiles<T>(
+  urls: string[] | undefined,
+  work: () => Promise<T>
+): Promise<T> {
+  try {
+    return await work();
+  } catch (error) {
+    await deleteStoredFiles(urls || []);
+    throw error;
+  }
+}
+
+/**
+ * A time-limited link to a stored file; other URLs are returned as they are
+ */
+export function getSignedUrl(url: string, expiresInSeconds: number = DEFAULT_SIGNED_URL_TTL_SECONDS): string {
+  return findOwner(url)?.getSignedUrl(url, expiresInSeconds) ?? url;
+}
+
+/**
+ * A thumbnail of a stored image; other URLs are returned as they are
+ */
+export function getThumbnailUrl(url: string, size: ThumbnailSize): string {
+  return findOwner(url)?.getThumbnailUrl(url, size) ?? url;
+}
+
+/**
+ * Folder an upload is filed under, based on the route or file type
+ */
+function resolveFolder(req: Request, file: Express.Multer.File): string {
+  if (req.originalUrl.includes('/register/customer') || req.originalUrl.includes('profile-image')) {
+    return 'profiles';
+  } else if (req.originalUrl.includes('/register/vendor') || req.originalUrl.includes('business-logo')) {
+    return 'businesses';
+  } else if (req.originalUrl.includes('/register/driver')) {
+    return 'driver-documents';
+  } else if (req.originalUrl.includes('/reviews')) {
+    return 'reviews';
+  } else if (req.originalUrl.includes('/parts')) {
+    return 'parts';
+  } else if (req.originalUrl.includes('/categories')) {
+    return 'categories';
+  } else if (req.originalUrl.includes('/messages')) {
+    return 'messages';
+  } else if (file.mimetype.startsWith('image')) {
+    return 'images';
+  }
+
+  return 'documents';
+}
+
+/**
+ * Multer storage engine that hands each file to the active adapter.
+ * The stored file's URL ends up in `file.path`, where the controllers read it.
+ */
+class AdapterStorageEngine implements StorageEngine {
+  _handleFile(
+    req: Request,
+    file: Express.Multer.File,
+    callback: (error?: any, info?: Partial<Express.Multer.File>) => void
+  ): void {
+    const chunks: Buffer[] = [];
+
+    file.stream.on('data', (chunk: Buffer) => chunks.push(chunk));
+    file.stream.on('error', callback);
+    file.stream.on('end', () => {
+      const extension = path.extname(file.originalname).toLowerCase();
+      const baseName = path.basename(file.originalname, path.extname(file.originalname))
+        .replace(/[^a-zA-Z0-9_-]+/g, '-')
+        .replace(/^-+|-+$/g, '') || 'file';
+
+      getStorage()
+        .put(
+          {
+            buffer: Buffer.concat(chunks),
+            name: `${Date.now()}-${baseName}`,
+            extension,
+            mimetype: file.mimetype
+          },
+          resolveFolder(req, file)
+        )
+        .then(stored => callback(null, { path: stored.url, filename: stored.key, size: stored.size }))
+        .catch(callback);
+    });
+  }
+
+  _removeFile(req: Request, file: Express.Multer.File, callback: (error: Error | null) => void): void {
+    deleteStoredFiles([file.path]).then(() => callback(null));
+  }
+}
+
+// Create multer upload instance
+export const upload = multer({
+  storage: new AdapterStorageEngine(),
+  limits: {
+    fileSize: 10 * 1024 * 1024, // 10MB max file size
+  },
+  fileFilter: (req, file, cb) => {
+    // Accept images, PDFs, DOCs
+    const allowedMimes = [
+      'image/jpeg', 'image/png', 'image/gif', 'image/webp',
+      'application/pdf',
+      'application/msword', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+    ];
+
+    if (allowedMimes.includes(file.mimetype)) {
+      cb(null, true);
+    } else {
+      cb(new Error(`Unsupported file type: ${file.mimetype}`));
+    }
+  }
+});
+
+/**
+ * URL of a file stored by the `upload` middleware
+ * @param file File from multer
+ * @returns URL of the stored file
+ */
+export async function getUploadedFileUrl(file?: Express.Multer.File): Promise<string> {
+  if (!file) {
+    throw new Error('No file provided');
+  }
+
+  return file.path;
+}
+
+/**
+ * Serve files kept by the local adapter. The directory is looked up per
+ * request so UPLOAD_DIR from .env applies.
+ */
+export function serveUploads(): RequestHandler {
+  return (req, res, next) => express.static(adapters.local.directory, { index: false })(req, res, next);
+}
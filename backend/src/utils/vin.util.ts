@@ -0,0 +1,293 @@
+/**
+ * Offline VIN (ISO 3779) validation and decoding.
+ *
+ * Only the parts of a VIN that are standardised are decoded here: the World
+ * Manufacturer Identifier (positions 1-3), the check digit (position 9) and the
+ * model year (position 10). The vehicle descriptor section is manufacturer specific,
+ * so model/engine can't be decoded without a manufacturer database.
+ */
+
+export interface DecodedVin {
+  vin: string;
+  isValid: boolean;
+  errors: string[];
+  wmi: string;
+  region: string | null;
+  country: string | null;
+  make: string | null;
+  modelYear: number | null;
+  possibleModelYears: number[];
+  checkDigitValid: boolean;
+  plantCode: string | null;
+  serialNumber: string | null;
+}
+
+const VIN_LENGTH = 17;
+
+// I, O and Q are never used so they can't be confused with 1 and 0
+const VIN_PATTERN = /^[A-HJ-NPR-Z0-9]{17}$/;
+
+const TRANSLITERATION: Record<string, number> = {
+  A: 1, B: 2, C: 3, D: 4, E: 5, F: 6, G: 7, H: 8,
+  J: 1, K: 2, L: 3, M: 4, N: 5, P: 7, R: 9,
+  S: 2, T: 3, U: 4, V: 5, W: 6, X: 7, Y: 8, Z: 9
+};
+
+const POSITION_WEIGHTS = [8, 7, 6, 5, 4, 3, 2, 10, 0, 9, 8, 7, 6, 5, 4, 3, 2];
+
+// Position 10 codes for the 1980-2009 cycle; the same codes repeat for 2010-2039
+const MODEL_YEAR_CODES = 'ABCDEFGHJKLMNPRSTVWXY123456789';
+const MODEL_YEAR_BASE = 1980;
+const MODEL_YEAR_CYCLE = 30;
+
+// Regions whose manufacturers are required to use the check digit
+const CHECK_DIGIT_REGIONS = ['North America'];
+const CHECK_DIGIT_COUNTRIES = ['China'];
+
+const REGIONS: Array<{ pattern: RegExp; region: string }> = [
+  { pattern: /^[A-H]/, region: 'Africa' },
+  { pattern: /^[J-R]/, region: 'Asia' },
+  { pattern: /^[S-Z]/, region: 'Europe' },
+  { pattern: /^[1-5]/, region: 'North America' },
+  { pattern: /^[67]/, region: 'Oceania' },
+  { pattern: /^[89]/, region: 'South America' }
+];
+
+const COUNTRIES: Array<{ pattern: RegExp; country: string }> = [
+  { pattern: /^A[A-H]/, country: 'South Africa' },
+  { pattern: /^J/, country: 'Japan' },
+  { pattern: /^K[L-R]/, country: 'South Korea' },
+  { pattern: /^L/, country: 'China' },
+  { pattern: /^M[A-E]/, country: 'India' },
+  { pattern: /^M[F-K]/, country: 'Indonesia' },
+  { pattern: /^M[L-R]/, country: 'Thailand' },
+  { pattern: /^N[L-R]/, country: 'Turkey' },
+  { pattern: /^S[A-M]/, country: 'United Kingdom' },
+  { pattern: /^T[J-P]/, country: 'Czech Republic' },
+  { pattern: /^TR/, country: 'Hungary' },
+  { pattern: /^V[F-R]/, country: 'France' },
+  { pattern: /^V[S-W]/, country: 'Spain' },
+  { pattern: /^W/, country: 'Germany' },
+  { pattern: /^YS|^YV/, country: 'Sweden' },
+  { pattern: /^Z[A-R]/, country: 'Italy' },
+  { pattern: /^[145]/, country: 'United States' },
+  { pattern: /^2/, country: 'Canada' },
+  { pattern: /^3[A-W]/, country: 'Mexico' },
+  { pattern: /^6/, country: 'Australia' },
+  { pattern: /^9[A-E]/, country: 'Brazil' },
+  { pattern: /^8[A-E]/, country: 'Argentina' }
+];
+
+// World Manufacturer Identifiers for the makes sold on the platform
+const WMI_MANUFACTURERS: Record<string, string> = {
+  // Toyota / Lexus
+  JTD: 'Toyota', JTE: 'Toyota', JTK: 'Toyota', JTL: 'Toyota', JTM: 'Toyota', JTN: 'Toyota',
+  JT2: 'Toyota', JT3: 'Toyota', JT4: 'Toyota', JT5: 'Toyota', '2T1': 'Toyota', '2T3': 'Toyota',
+  '4T1': 'Toyota', '4T3': 'Toyota', '4T4': 'Toyota', '5TB': 'Toyota', '5TD': 'Toyota',
+  '5TE': 'Toyota', '5TF': 'Toyota', '5YF': 'Toyota', NMT: 'Toyota', SB1: 'Toyota',
+  MR0: 'Toyota', MHF: 'Toyota', AHT: 'Toyota', '8AJ': 'Toyota', '9BR': 'Toyota',
+  JTH: 'Lexus', JTJ: 'Lexus', JT6: 'Lexus', JT8: 'Lexus', '2T2': 'Lexus', '58A': 'Lexus',
+
+  // Honda / Acura
+  JHM: 'Honda', JHL: 'Honda', JHG: 'Honda', '1HG': 'Honda', '2HG': 'Honda', '2HJ': 'Honda',
+  '2HK': 'Honda', '3HG': 'Honda', '5FN': 'Honda', '5J6': 'Honda', '19X': 'Honda',
+  SHH: 'Honda', SHS: 'Honda', MRH: 'Honda', '93H': 'Honda',
+  JH4: 'Acura', '19U': 'Acura', '2HN': 'Acura', '5J8': 'Acura',
+
+  // Nissan / Infiniti
+  JN1: 'Nissan', JN6: 'Nissan', JN8: 'Nissan', '1N4': 'Nissan', '1N6': 'Nissan',
+  '3N1': 'Nissan', '3N6': 'Nissan', '5N1': 'Nissan', SJN: 'Nissan', VSK: 'Nissan',
+  MNT: 'Nissan', ADN: 'Nissan',
+  JNK: 'Infiniti', JNR: 'Infiniti', '5N3': 'Infiniti',
+
+  // Mazda, Mitsubishi, Subaru, Suzuki, Isuzu
+  JM1: 'Mazda', JM3: 'Mazda', JMZ: 'Mazda', '3MZ': 'Mazda', '3MV': 'Mazda', MM8: 'Mazda',
+  JA3: 'Mitsubishi', JA4: 'Mitsubishi', JMB: 'Mitsubishi', JMY: 'Mitsubishi',
+  '4A3': 'Mitsubishi', '4A4': 'Mitsubishi', ML3: 'Mitsubishi', MMB: 'Mitsubishi',
+  JF1: 'Subaru', JF2: 'Subaru', '4S3': 'Subaru', '4S4': 'Subaru',
+  JS2: 'Suzuki', JS3: 'Suzuki', JSA: 'Suzuki', MA3: 'Suzuki', TSM: 'Suzuki',
+  JAA: 'Isuzu', JAL: 'Isuzu', MPA: 'Isuzu',
+
+  // Hyundai / Kia / Genesis
+  KMH: 'Hyundai', KM8: 'Hyundai', '5NP': 'Hyundai', '5NM': 'Hyundai', MAL: 'Hyundai',
+  TMA: 'Hyundai', NLH: 'Hyundai',
+  KNA: 'Kia', KND: 'Kia', KNC: 'Kia', '5XX': 'Kia', '5XY': 'Kia', '3KP': 'Kia', U5Y: 'Kia',
+  KMT: 'Genesis',
+
+  // Ford / Lincoln
+  '1FA': 'Ford', '1FB': 'Ford', '1FC': 'Ford', '1FD': 'Ford', '1FM': 'Ford', '1FT': 'Ford',
+  '2FA': 'Ford', '2FM': 'Ford', '2FT': 'Ford', '3FA': 'Ford', '3FE': 'Ford', '3FT': 'Ford',
+  WF0: 'Ford', MAJ: 'Ford', MNC: 'Ford', '6FP': 'Ford', AFA: 'Ford', '9BF': 'Ford',
+  '1LN': 'Lincoln', '2LM': 'Lincoln', '3LN': 'Lincoln', '5LM': 'Lincoln',
+
+  // General Motors
+  '1G1': 'Chevrolet', '1GC': 'Chevrolet', '1GN': 'Chevrolet', '1GB': 'Chevrolet',
+  '2G1': 'Chevrolet', '2GN': 'Chevrolet', '3G1': 'Chevrolet', '3GC': 'Chevrolet',
+  '3GN': 'Chevrolet', KL1: 'Chevrolet', '9BG': 'Chevrolet',
+  '1GT': 'GMC', '1GK': 'GMC', '2GT': 'GMC', '3GT': 'GMC',
+  '1G4': 'Buick', '2G4': 'Buick', '5GA': 'Buick',
+  '1G6': 'Cadillac', '1GY': 'Cadillac',
+
+  // Stellantis (North America)
+  '1B3': 'Dodge', '2B3': 'Dodge', '1D7': 'Dodge', '2D3': 'Dodge',
+  '1C3': 'Chrysler', '2C3': 'Chrysler',
+  '1J4': 'Jeep', '1J8': 'Jeep',
+  '1C6': 'Ram', '3C6': 'Ram', '3C7': 'Ram',
+
+  // Tesla
+  '5YJ': 'Tesla', '7SA': 'Tesla', LRW: 'Tesla',
+
+  // German makes
+  WVW: 'Volkswagen', WVG: 'Volkswagen', WV1: 'Volkswagen', WV2: 'Volkswagen',
+  '1VW': 'Volkswagen', '3VW': 'Volkswagen', '9BW': 'Volkswagen', AAV: 'Volkswagen',
+  WAU: 'Audi', WA1: 'Audi', WUA: 'Audi', TRU: 'Audi',
+  WP0: 'Porsche', WP1: 'Porsche',
+  WBA: 'BMW', WBS: 'BMW', WBX: 'BMW', WBY: 'BMW', '4US': 'BMW', '5UX': 'BMW', '5YM': 'BMW',
+  WMW: 'Mini',
+  WDB: 'Mercedes-Benz', WDC: 'Mercedes-Benz', WDD: 'Mercedes-Benz', WDF: 'Mercedes-Benz',
+  W1K: 'Mercedes-Benz', W1N: 'Mercedes-Benz', W1V: 'Mercedes-Benz', '4JG': 'Mercedes-Benz',
+  '55S': 'Mercedes-Benz',
+  W0L: 'Opel', W0V: 'Opel',
+  WMA: 'MAN',
+
+  // Other European makes
+  YV1: 'Volvo', YV4: 'Volvo', '7JR': 'Volvo',
+  YS2: 'Scania',
+  SAL: 'Land Rover',
+  SAJ: 'Jaguar',
+  VF1: 'Renault', VF3: 'Peugeot', VR3: 'Peugeot', VF7: 'Citroen',
+  UU1: 'Dacia',
+  VSS: 'SEAT',
+  TMB: 'Skoda',
+  ZFA: 'Fiat', ZAR: 'Alfa Romeo', ZAM: 'Maserati', ZFF: 'Ferrari', ZHW: 'Lamborghini',
+  ZCF: 'Iveco',
+  XLR: 'DAF',
+
+  // Chinese and Indian makes
+  L6T: 'Geely', LGX: 'BYD', LC0: 'BYD', LVV: 'Chery', LGW: 'Great Wall',
+  MAT: 'Tata', MA1: 'Mahindra'
+};
+
+/**
+ * Upper-case a VIN and strip whitespace and dashes
+ */
+export function normalizeVin(vin: string): string {
+  return vin.toUpperCase().replace(/[\s-]/g, '');
+}
+
+/**
+ * Compute the expected check digit (position 9) of a VIN
+ */
+export function calculateVinCheckDigit(vin: string): string {
+  const sum = vin.split('').reduce((total, char, index) => {
+    const value = /[0-9]/.test(char) ? parseInt(char, 10) : TRANSLITERATION[char] || 0;
+    return total + value * POSITION_WEIGHTS[index];
+  }, 0);
+
+  const remainder = sum % 11;
+  return remainder === 10 ? 'X' : remainder.toString();
+}
+
+/**
+ * Validate and decode a VIN using the bundled tables
+ */
+export function decodeVin(rawVin: string): DecodedVin {
+  const vin = normalizeVin(rawVin || '');
+  const errors: string[] = [];
+
+  if (vin.length !== VIN_LENGTH) {
+    errors.push(`VIN must be ${VIN_LENGTH} characters long`);
+  } else if (!VIN_PATTERN.test(vin)) {
+    errors.push('VIN may only contain digits and letters other than I, O and Q');
+  }
+
+  const wmi = vin.substring(0, 3);
+  const region = REGIONS.find(entry => entry.pattern.test(vin))?.region || null;
+  const country = COUNTRIES.find(entry => entry.pattern.test(vin))?.country || null;
+
+  if (errors.length > 0) {
+    return {
+      vin,
+      isValid: false,
+      errors,
+      wmi,
+      region,
+      country,
+      make: null,
+      modelYear: null,
+      possibleModelYears: [],
+      checkDigitValid: false,
+      plantCode: null,
+      serialNumber: null
+    };
+  }
+
+  // The check digit is only mandatory for some markets; elsewhere a mismatch is expected
+  const checkDigitValid = calculateVinCheckDigit(vin) === vin[8];
+  const checkDigitRequired =
+    (region !== null && CHECK_DIGIT_REGIONS.includes(region)) ||
+    (country !== null && CHECK_DIGIT_COUNTRIES.includes(country));
+
+  if (!checkDigitValid && checkDigitRequired) {
+    errors.push('VIN check digit does not match');
+  }
+
+  // North American VINs pin the year down; elsewhere either cycle is plausible
+  const modelYear = decodeModelYear(vin, region);
+  const possibleModelYears = region === 'North America' && modelYear
+    ? [modelYear]
+    : getPossibleModelYears(vin);
+
+  return {
+    vin,
+    isValid: errors.length === 0,
+    errors,
+    wmi,
+    region,
+    country,
+    make: WMI_MANUFACTURERS[wmi] || null,
+    modelYear,
+    possibleModelYears,
+    checkDigitValid,
+    plantCode: vin[10],
+    serialNumber: vin.substring(11)
+  };
+}
+
+/**
+ * Resolve the model year from position 10.
+ *
+ * Codes repeat every 30 years. North American manufacturers disambiguate with
+ * position 7 (digit for 1980-2009, letter for 2010-2039); for everyone else the
+ * most recent year that isn't in the future is assumed.
+ */
+function decodeModelYear(vin: string, region: string | null): number | null {
+  const [earlierYear, laterYear] = getPossibleModelYears(vin);
+
+  if (!laterYear) {
+    return earlierYear || null;
+  }
+
+  if (region === 'North America') {
+    return /[0-9]/.test(vin[6]) ? earlierYear : laterYear;
+  }
+
+  return laterYear;
+}
+
+/**
+ * Every model year position 10 could stand for, up to next year
+ */
+function getPossibleModelYears(vin: string): number[] {
+  const index = MODEL_YEAR_CODES.indexOf(vin[9]);
+
+  if (index === -1) {
+    return [];
+  }
+
+  const latestModelYear = new Date().getFullYear() + 1;
+  const earlierYear = MODEL_YEAR_BASE + index;
+  const laterYear = earlierYear + MODEL_YEAR_CYCLE;
+
+  return laterYear > latestModelYear ? [earlierYear] : [earlierYear, laterYear];
+}